@@ -1,48 +1,65 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, PieChart, Pie, Cell, Sector } from 'recharts';
-import { UserData, Page, Transaction, TransactionType, Category, ChatMessage, UserProfile } from './types';
-import { formatCurrency, processChartData, exportToCSV } from './utils/helpers';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, PieChart, Pie, Cell, Sector, ComposedChart, Area, Line, ReferenceLine } from 'recharts';
+import { UserData, Page, Transaction, TransactionType, Category, CategoryKind, ChatMessage, UserProfile, UserRole, StoredPassword, Session, ActivityEntry, ActivityType, TransactionFilters, RecurrenceFrequency, RecurrenceRule, Account, AccountType, Tag, ExchangeRate, Goal, Attachment } from './types';
+import { formatCurrency, processChartData } from './utils/helpers';
+import { ACCOUNT_TYPE_LABELS, ACCOUNT_TYPE_ICONS, excludeTransfers, getAccountBalances, isAccountInUse, isTransfer } from './utils/accounts';
+import { CsvMapping, DateFormat, DecimalSeparator, ImportFormat, NegativeAmountConvention, DATE_FORMATS, detectFormat, detectDelimiter, guessCsvMapping, parseCsvRows, mapCsvRows, parseOfx, parseQif, findDuplicateRows, importedRowToTransaction, readStatementFile } from './utils/importers';
+import { BackupFile, RestoreMode, createBackup, downloadBackup, parseBackup, diffBackup, mergeUserData } from './utils/backup';
+import { EMPTY_FILTERS, filterTransactions, getFilteredTotals, getMatchingSubItems, hasActiveFilters } from './utils/filters';
+import { getBudgetStatuses, getBudgetMonth, BudgetLevel } from './utils/budgets';
+import { CATEGORY_KIND_LABELS, groupCategories, sortCategoriesAsTree, getSubcategories, getParentOptions, isRootCategory, rollUpCategoryData, getCategoriesForType, categoryAllowsType, getReassignTargets, isCategoryInUse, reassignCategory, withCategoryNames } from './utils/categories';
+import { cleanTagName, findTagByName, createTag, countTagUsage, removeTagFromTransactions, getSpendingByTag } from './utils/tags';
+import { BulkAction, bulkSetCategory, bulkSetDate, bulkDelete, bulkDuplicateToMonth, bulkConvertToSubItems } from './utils/bulk';
+import { materializeRecurringTransactions, updateSeriesFutureOccurrences, stopSeries, describeRecurrence, getNextOccurrenceDate, FREQUENCY_LABELS } from './utils/recurrence';
 import { getFinAssistResponse } from './services/geminiService';
+import { loadProfiles, loadPasswords, saveProfile, savePassword, loadUserData, saveUserData, deleteUser, deleteUserData, loadKeyRing, saveKeyRing, loadActivity, loadHistory, saveHistory, saveAttachment, loadAttachment, pruneAttachments, getAttachmentUsage, AttachmentUsage, AttachmentVariant } from './services/storage';
+import { createSession, restoreSession, endSession, isSessionExpired, logActivity, ACTIVITY_LABELS, AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK_MINUTES, MAX_PIN_ATTEMPTS } from './services/session';
+import { ALL_TIME, Period, PeriodKind, PERIOD_KIND_LABELS, createPeriod, getPeriodRange, getPreviousRange, getPeriodMonth, isInRange, shiftPeriod, formatPeriod, formatRange, compareByCategory } from './utils/periods';
+import { FORECAST_HORIZONS, getCashFlowForecast } from './utils/forecast';
+import { ReportKind, REPORT_KIND_LABELS, buildFinancialReport, renderReportHtml } from './utils/report';
+import { ExportFormat, EXPORT_FORMAT_LABELS, buildExportFile, downloadExportFile, selectForExport } from './utils/exporters';
+import { getGoalProgress, getContributionAmount, unlinkGoalFromTransactions } from './utils/goals';
+import { isCreditCard, toBillingDay, getInvoiceMonthForDate, getInvoices, getOpenInstallments, splitIntoInstallments, INVOICE_STATUS_LABELS, DEFAULT_CLOSING_DAY, DEFAULT_DUE_DAY, MAX_INSTALLMENTS, Invoice, InvoiceStatus } from './utils/cards';
+import { CURRENCIES, findRate, getTransactionCurrency, getTransactionRate, convertToBaseCurrency, mergeRates, parseRatesCsv, changeBaseCurrency } from './utils/currency';
+import { runMigrations } from './utils/migrations';
+import { ATTACHMENT_ACCEPT, formatBytes, getReferencedAttachmentIds, isImageAttachment, prepareAttachment } from './utils/attachments';
+import { EMPTY_HISTORY, UndoHistory, recordChange, undoChange, redoChange } from './utils/history';
+import { ROLE_LABELS, hasPermission, getDeleteUserError, getRoleChangeError } from './utils/permissions';
+import { hashPassword, verifyPassword, needsRehash, generateDataKey, wrapDataKey, unwrapDataKey, generateRecoveryKey, normalizeRecoveryKey } from './utils/crypto';
+import { DEFAULT_USER_DATA } from './constants';
 import { Modal, Button, Input, Select, Card, Spinner, ConfirmationModal, IconPickerModal } from './components/ui';
 import { Icon, availableIcons } from './components/icons';
 
-// --- INITIAL DATA ---
-const INITIAL_CATEGORIES: Category[] = [
-    { id: 'cat1', name: 'Supermercado', icon: 'shopping_cart' },
-    { id: 'cat2', name: 'Contas de Casa', icon: 'home' },
-    { id: 'cat3', name: 'Aluguel', icon: 'key' },
-    { id: 'cat4', name: 'Salário', icon: 'currency_dollar' },
-    { id: 'cat5', name: 'Lazer', icon: 'puzzle_piece' },
-];
-
-const DEFAULT_USER_DATA: UserData = {
-  transactions: [],
-  categories: INITIAL_CATEGORIES,
-  currency: 'BRL',
-  chatHistory: [],
-  theme: 'galaxy',
+// Creates recurring occurrences that became due since the data was last saved
+const prepareUserData = (data: UserData): UserData => {
+    const { transactions } = materializeRecurringTransactions(data.transactions);
+    return transactions === data.transactions ? data : { ...data, transactions };
 };
 
 
 // --- UI Components defined in the same file to reduce file count --- //
 
 // --- LOGIN SCREEN ---
-type AuthView = 'login' | 'register' | 'forgotPassword' | 'resetPassword' | 'verifyEmail';
+type AuthView = 'login' | 'register' | 'forgotPassword' | 'resetPassword' | 'verifyEmail' | 'changePassword';
 
 const LoginScreen: React.FC<{
-  onLogin: (username: string, password: string) => Promise<void>;
+  onLogin: (username: string, password: string, rememberMe: boolean) => Promise<boolean>; // Resolves true when a new password is required
   onRegister: (username: string, password: string, email: string) => Promise<string>;
-  onVerifyEmail: (username: string, code: string) => Promise<void>;
+  onVerifyEmail: (username: string, code: string) => Promise<boolean>; // Resolves false when the user still has to log in
   onForgotPassword: (email: string) => Promise<string | null>;
-  onResetPassword: (email: string, code: string, newPassword: string) => Promise<void>;
-}> = ({ onLogin, onRegister, onVerifyEmail, onForgotPassword, onResetPassword }) => {
+  onResetPassword: (email: string, code: string, newPassword: string, recoveryKey: string, discardData: boolean) => Promise<void>;
+  onChangeRequiredPassword: (username: string, currentPassword: string, newPassword: string) => Promise<void>;
+}> = ({ onLogin, onRegister, onVerifyEmail, onForgotPassword, onResetPassword, onChangeRequiredPassword }) => {
   const [view, setView] = useState<AuthView>('login');
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [code, setCode] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [discardData, setDiscardData] = useState(false);
+  const [rememberMe, setRememberMe] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [infoMessage, setInfoMessage] = useState('');
@@ -50,6 +67,7 @@ const LoginScreen: React.FC<{
   // These states hold data between view transitions
   const [userToVerify, setUserToVerify] = useState<string | null>(null); 
   const [emailToReset, setEmailToReset] = useState<string | null>(null);
+  const [pendingLogin, setPendingLogin] = useState<{ username: string; password: string } | null>(null);
 
   const clearFormState = () => {
     setError('');
@@ -59,6 +77,8 @@ const LoginScreen: React.FC<{
     setPassword('');
     setConfirmPassword('');
     setCode('');
+    setRecoveryKey('');
+    setDiscardData(false);
     // keep email for convenience if switching between login/register
   };
   
@@ -76,7 +96,11 @@ const LoginScreen: React.FC<{
     try {
       switch(view) {
         case 'login':
-          await onLogin(username, password);
+          if (await onLogin(username, password, rememberMe)) {
+            setPendingLogin({ username, password });
+            handleViewChange('changePassword');
+            setInfoMessage("Por segurança, defina uma nova senha antes de continuar.");
+          }
           break;
         case 'register':
           if (password !== confirmPassword) throw new Error("As senhas não coincidem.");
@@ -88,7 +112,10 @@ const LoginScreen: React.FC<{
           break;
         case 'verifyEmail':
           if (!userToVerify) throw new Error("Sessão de verificação inválida. Tente se cadastrar novamente.");
-          await onVerifyEmail(userToVerify, code);
+          if (!(await onVerifyEmail(userToVerify, code))) {
+            handleViewChange('login');
+            setInfoMessage("E-mail verificado! Faça o login para continuar.");
+          }
           break;
         case 'forgotPassword':
             const resetCode = await onForgotPassword(email);
@@ -104,10 +131,17 @@ const LoginScreen: React.FC<{
             if (!emailToReset) throw new Error("Sessão de recuperação inválida.");
             if (password !== confirmPassword) throw new Error("As novas senhas não coincidem.");
             if (password.length < 6) throw new Error("A nova senha deve ter pelo menos 6 caracteres.");
-            await onResetPassword(emailToReset, code, password);
+            await onResetPassword(emailToReset, code, password, recoveryKey, discardData);
             setInfoMessage("Senha redefinida com sucesso! Você já pode fazer o login.");
             handleViewChange('login');
             break;
+        case 'changePassword':
+            if (!pendingLogin) throw new Error("Sessão inválida. Faça o login novamente.");
+            if (password !== confirmPassword) throw new Error("As novas senhas não coincidem.");
+            if (password.length < 6) throw new Error("A nova senha deve ter pelo menos 6 caracteres.");
+            await onChangeRequiredPassword(pendingLogin.username, pendingLogin.password, password);
+            setPendingLogin(null);
+            break;
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.');
@@ -124,6 +158,10 @@ const LoginScreen: React.FC<{
             <h2 className="text-2xl font-bold">Login</h2>
             <Input type="text" placeholder="Usuário" value={username} onChange={e => setUsername(e.target.value)} required disabled={isLoading} />
             <Input type="password" placeholder="Senha" value={password} onChange={e => setPassword(e.target.value)} required disabled={isLoading} />
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={rememberMe} onChange={e => setRememberMe(e.target.checked)} disabled={isLoading} />
+              Manter conectado por 30 dias
+            </label>
             <Button type="submit" variant="primary" disabled={isLoading}>{isLoading ? <Spinner /> : 'Entrar'}</Button>
             <div className="flex justify-between text-sm mt-4 text-slate-400">
               <p>Não tem uma conta? <button type="button" onClick={() => handleViewChange('register')} className="font-semibold text-purple-400 hover:text-purple-300">Cadastre-se</button></p>
@@ -170,9 +208,25 @@ const LoginScreen: React.FC<{
             <Input type="text" placeholder="Código de 6 dígitos" value={code} onChange={e => setCode(e.target.value)} required disabled={isLoading} maxLength={6} />
             <Input type="password" placeholder="Nova Senha (mín. 6 caracteres)" value={password} onChange={e => setPassword(e.target.value)} required disabled={isLoading} />
             <Input type="password" placeholder="Confirmar Nova Senha" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required disabled={isLoading} />
+            <Input type="text" placeholder="Chave de recuperação (XXXX-XXXX-...)" value={recoveryKey} onChange={e => setRecoveryKey(e.target.value)} disabled={isLoading || discardData} autoCapitalize="characters" />
+            <label className="flex items-start gap-2 text-left text-sm text-slate-300">
+              <input type="checkbox" checked={discardData} onChange={e => { setDiscardData(e.target.checked); setRecoveryKey(''); }} disabled={isLoading} className="mt-1" />
+              <span>Não tenho a chave de recuperação. Entendo que meus dados financeiros criptografados serão apagados.</span>
+            </label>
             <Button type="submit" variant="primary" disabled={isLoading}>{isLoading ? <Spinner /> : 'Redefinir Senha'}</Button>
           </>
         );
+      case 'changePassword':
+        return (
+          <>
+            <h2 className="text-2xl font-bold">Alterar Senha</h2>
+            <p className="text-slate-300 text-sm">A conta @{pendingLogin?.username} ainda usa a senha padrão.</p>
+            <Input type="password" placeholder="Nova Senha (mín. 6 caracteres)" value={password} onChange={e => setPassword(e.target.value)} required disabled={isLoading} />
+            <Input type="password" placeholder="Confirmar Nova Senha" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required disabled={isLoading} />
+            <Button type="submit" variant="primary" disabled={isLoading}>{isLoading ? <Spinner /> : 'Salvar e Entrar'}</Button>
+            <p className="text-sm mt-4 text-slate-400">Voltar para o <button type="button" onClick={() => { setPendingLogin(null); handleViewChange('login'); }} className="font-semibold text-purple-400 hover:text-purple-300">Login</button></p>
+          </>
+        );
       default:
         return null;
     }
@@ -209,6 +263,75 @@ const LoginScreen: React.FC<{
 };
 
 
+// --- LOCK SCREEN ---
+const LockScreen: React.FC<{
+  userProfile: UserProfile;
+  canUsePin: boolean;
+  onUnlockWithPassword: (password: string) => Promise<void>;
+  onUnlockWithPin: (pin: string) => Promise<void>;
+  onLogout: () => void;
+}> = ({ userProfile, canUsePin, onUnlockWithPassword, onUnlockWithPin, onLogout }) => {
+  const [usePin, setUsePin] = useState(canUsePin);
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!canUsePin) setUsePin(false);
+  }, [canUsePin]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      await (usePin ? onUnlockWithPin(secret) : onUnlockWithPassword(secret));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.');
+      setSecret('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMethod = () => {
+    setUsePin(!usePin);
+    setSecret('');
+    setError('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="flex flex-col gap-4 w-full max-w-sm text-center text-white">
+        {userProfile.profilePicture ? (
+          <img src={userProfile.profilePicture} alt="Foto de perfil" className="w-20 h-20 rounded-full object-cover mx-auto" />
+        ) : (
+          <div className="w-20 h-20 rounded-full bg-gradient-to-tr from-purple-500 to-cyan-400 flex items-center justify-center font-bold text-slate-900 text-3xl mx-auto">
+            {userProfile.displayName.charAt(0)}
+          </div>
+        )}
+        <div>
+          <h2 className="text-2xl font-bold">{userProfile.displayName}</h2>
+          <p className="text-slate-400 text-sm">Sessão bloqueada. {usePin ? 'Digite seu PIN' : 'Digite sua senha'} para continuar.</p>
+        </div>
+        {error && <p className="text-red-400 text-sm p-3 bg-red-900/50 rounded-lg">{error}</p>}
+        {usePin ? (
+          <Input type="password" inputMode="numeric" placeholder="PIN" value={secret} onChange={e => setSecret(e.target.value.replace(/\D/g, ''))} maxLength={6} required disabled={isLoading} autoFocus />
+        ) : (
+          <Input type="password" placeholder="Senha" value={secret} onChange={e => setSecret(e.target.value)} required disabled={isLoading} autoFocus />
+        )}
+        <Button type="submit" variant="primary" disabled={isLoading}>{isLoading ? <Spinner /> : 'Desbloquear'}</Button>
+        <div className="flex justify-between text-sm text-slate-400">
+          {canUsePin || usePin ? (
+            <button type="button" onClick={switchMethod} className="font-semibold text-purple-400 hover:text-purple-300">{usePin ? 'Usar senha' : 'Usar PIN'}</button>
+          ) : <span />}
+          <button type="button" onClick={onLogout} className="font-semibold text-purple-400 hover:text-purple-300">Sair</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
 // --- HEADER ---
 const Header: React.FC<{ pageTitle: string; onMenuClick: () => void }> = ({ pageTitle, onMenuClick }) => (
     <header className="md:hidden sticky top-0 bg-[var(--color-bg-primary)]/70 backdrop-blur-md z-30 p-4 flex items-center gap-4 border-b border-[var(--color-border)]">
@@ -224,12 +347,14 @@ const Sidebar: React.FC<{
     currentPage: Page;
     onNavigate: (page: Page) => void;
     onLogout: () => void;
+    onLock: () => void;
     userProfile: UserProfile;
     isOpen: boolean;
-}> = ({ currentPage, onNavigate, onLogout, userProfile, isOpen }) => {
+}> = ({ currentPage, onNavigate, onLogout, onLock, userProfile, isOpen }) => {
     const navItems: { page: Page; label: string; icon: React.ReactNode, adminOnly?: boolean }[] = [
         { page: 'Dashboard', label: 'Painel', icon: <Icon name="home" className="h-6 w-6" /> },
         { page: 'Transactions', label: 'Transações', icon: <Icon name="credit_card" className="h-6 w-6" /> },
+        { page: 'Goals', label: 'Metas', icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" /></svg> },
         { page: 'Reports', label: 'Relatórios', icon: <Icon name="book_open" className="h-6 w-6" /> },
         { page: 'Settings', label: 'Configurações', icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg> },
         { page: 'Admin Panel', label: 'Painel Admin', icon: <Icon name="shield_check" className="h-6 w-6" />, adminOnly: true }
@@ -252,7 +377,7 @@ const Sidebar: React.FC<{
             </div>
             <nav className="flex-grow">
                 {navItems.map(({ page, label, icon, adminOnly }) => {
-                    if (adminOnly && userProfile.username !== 'admin') return null;
+                    if (adminOnly && !hasPermission(userProfile, 'viewAdminPanel')) return null;
                     return (
                         <button
                             key={page}
@@ -269,33 +394,247 @@ const Sidebar: React.FC<{
                     )
                 })}
             </nav>
-            <Button onClick={onLogout} variant="secondary" className="mt-auto">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" /></svg>
-                Sair
-            </Button>
+            <div className="mt-auto flex flex-col gap-2">
+                <Button onClick={onLock} variant="secondary">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+                    Bloquear
+                </Button>
+                <Button onClick={onLogout} variant="secondary">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" /></svg>
+                    Sair
+                </Button>
+            </div>
         </aside>
     );
 };
 
+// --- ATTACHMENTS ---
+// Reads and writes the logged-in user's attachment files, which are kept apart from UserData
+type AttachmentStore = {
+    save: (file: File, id: string) => Promise<Attachment>;
+    load: (attachment: Attachment, variant: AttachmentVariant) => Promise<Blob | null>;
+};
+
+// Object URL of an attachment's file or preview, released when it is no longer shown.
+// Undefined while loading and null when the file is not in this browser.
+const useAttachmentUrl = (store: AttachmentStore, attachment: Attachment, variant: AttachmentVariant) => {
+    const [url, setUrl] = useState<string | null | undefined>(undefined);
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setUrl(undefined);
+        store.load(attachment, variant)
+            .then(blob => {
+                if (cancelled) return;
+                objectUrl = blob ? URL.createObjectURL(blob) : null;
+                setUrl(objectUrl);
+            })
+            .catch(err => {
+                console.error('Failed to load attachment:', err);
+                if (!cancelled) setUrl(null);
+            });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [store, attachment.id, variant]);
+    return url;
+};
+
+const AttachmentThumbnail: React.FC<{ store: AttachmentStore; attachment: Attachment; onOpen: () => void; onRemove?: () => void }> = ({ store, attachment, onOpen, onRemove }) => {
+    const isImage = isImageAttachment(attachment);
+    const url = useAttachmentUrl(store, attachment, isImage ? 'thumbnail' : 'file');
+    return (
+        <div className="relative flex-shrink-0">
+            <button
+                type="button"
+                onClick={onOpen}
+                title={attachment.name}
+                aria-label={`Abrir ${attachment.name}`}
+                className="h-10 w-10 rounded-md overflow-hidden border border-[var(--color-border)] bg-[var(--color-bg-primary)] flex items-center justify-center text-[var(--color-text-secondary)] hover:ring-2 hover:ring-[var(--color-accent)] transition-all"
+            >
+                {isImage && url ? (
+                    <img src={url} alt={attachment.name} className="h-full w-full object-cover" />
+                ) : (
+                    <Icon name={isImage ? 'photo' : 'document_text'} className="h-5 w-5" />
+                )}
+            </button>
+            {onRemove && (
+                <button
+                    type="button"
+                    onClick={onRemove}
+                    className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-[var(--color-danger)] text-white flex items-center justify-center"
+                    aria-label={`Remover ${attachment.name}`}
+                >
+                    <Icon name="x_mark" className="h-3 w-3" />
+                </button>
+            )}
+        </div>
+    );
+};
+
+const AttachmentGallery: React.FC<{ store: AttachmentStore; attachments: Attachment[]; onOpen: (index: number) => void }> = ({ store, attachments, onOpen }) => (
+    <div className="flex flex-wrap gap-1.5 mt-1.5">
+        {attachments.map((attachment, index) => (
+            <AttachmentThumbnail key={attachment.id} store={store} attachment={attachment} onOpen={() => onOpen(index)} />
+        ))}
+    </div>
+);
+
+// Full-screen viewer for images and PDFs; the arrow keys move between the attachments of a transaction
+const AttachmentViewer: React.FC<{ store: AttachmentStore; attachments: Attachment[]; startIndex: number; onClose: () => void }> = ({ store, attachments, startIndex, onClose }) => {
+    const [index, setIndex] = useState(startIndex);
+    const attachment = attachments[Math.min(index, attachments.length - 1)];
+    const url = useAttachmentUrl(store, attachment, 'file');
+    const count = attachments.length;
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            else if (e.key === 'ArrowLeft') setIndex(i => (i - 1 + count) % count);
+            else if (e.key === 'ArrowRight') setIndex(i => (i + 1) % count);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [count, onClose]);
+
+    const navButtonClass = 'absolute top-1/2 -translate-y-1/2 p-3 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors';
+
+    return (
+        <div className="fixed inset-0 z-[90] bg-black/90 flex flex-col" role="dialog" aria-modal="true" aria-label={attachment.name}>
+            <div className="flex items-center justify-between gap-4 p-4 text-white">
+                <div className="min-w-0">
+                    <p className="font-medium truncate">{attachment.name}</p>
+                    <p className="text-sm text-white/60">{formatBytes(attachment.size)}{count > 1 && <> &middot; {Math.min(index, count - 1) + 1} de {count}</>}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    {url && (
+                        <a href={url} download={attachment.name} className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm transition-colors">Baixar</a>
+                    )}
+                    <button type="button" onClick={onClose} className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors" aria-label="Fechar">
+                        <Icon name="x_mark" className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+            <div className="relative flex-grow min-h-0 flex items-center justify-center p-4 pt-0">
+                {url === undefined ? (
+                    <Spinner />
+                ) : url === null ? (
+                    <p className="text-white/70 text-center max-w-sm">Arquivo não encontrado neste navegador. Os comprovantes ficam só no navegador em que foram anexados e não fazem parte do backup.</p>
+                ) : isImageAttachment(attachment) ? (
+                    <img src={url} alt={attachment.name} className="max-h-full max-w-full object-contain" />
+                ) : (
+                    <iframe src={url} title={attachment.name} className="w-full h-full max-w-4xl rounded-lg bg-white" />
+                )}
+                {count > 1 && (
+                    <>
+                        <button type="button" onClick={() => setIndex(i => (i - 1 + count) % count)} className={`${navButtonClass} left-4`} aria-label="Anterior">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
+                        </button>
+                        <button type="button" onClick={() => setIndex(i => (i + 1) % count)} className={`${navButtonClass} right-4`} aria-label="Próximo">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
 // --- TRANSACTION MODAL ---
+const TagChip: React.FC<{ tag: Tag; onRemove?: () => void }> = ({ tag, onRemove }) => (
+    <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-[var(--color-text-primary)] border"
+        style={{ backgroundColor: `${tag.color}33`, borderColor: tag.color }}
+    >
+        {tag.name}
+        {onRemove && (
+            <button type="button" onClick={onRemove} className="hover:text-[var(--color-danger)]" aria-label={`Remover tag ${tag.name}`}>
+                <Icon name="x_mark" className="h-3 w-3" />
+            </button>
+        )}
+    </span>
+);
+
+// Adds the tag named `name` to `selected`, reusing an existing tag with that name or creating a new one
+const appendTag = (selected: Tag[], name: string, tags: Tag[]): Tag[] => {
+    if (!cleanTagName(name) || findTagByName(selected, name)) return selected;
+    const newTagsCount = selected.filter(t => !tags.some(existing => existing.id === t.id)).length;
+    return [...selected, findTagByName(tags, name) ?? createTag(name, tags, newTagsCount)];
+};
+
+// Options for a category <Select>, with sub-categories grouped under their parent. Values are category ids.
+const CategoryOptions: React.FC<{ categories: Category[]; visible?: Category[] }> = ({ categories, visible = categories }) => (
+    <>
+        {groupCategories(categories).map(({ category, children }) => {
+            const options = [category, ...children].filter(c => visible.some(v => v.id === c.id));
+            if (options.length === 0) return null;
+            if (children.length === 0) return <option key={category.id} value={category.id}>{category.name}</option>;
+            return (
+                <optgroup key={category.id} label={category.name}>
+                    {options.map(c => <option key={c.id} value={c.id}>{c.id === category.id ? `${c.name} (geral)` : c.name}</option>)}
+                </optgroup>
+            );
+        })}
+    </>
+);
+
 const TransactionModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
-    onSave: (transaction: Omit<Transaction, 'id' | 'subItems'>, parentId?: string) => void;
+    onSave: (transaction: Omit<Transaction, 'id' | 'subItems'>, newTags: Tag[], installmentCount: number) => void;
     categories: Category[];
+    accounts: Account[];
+    tags: Tag[];
+    goals: Goal[];
     currency: string;
+    exchangeRates: ExchangeRate[];
+    parentCurrency?: string; // Currency of the parent, which a sub-item is always in
     editingTransaction?: Transaction | null;
     parentId?: string;
-}> = ({ isOpen, onClose, onSave, categories, currency, editingTransaction, parentId }) => {
+    formatMonthYear: (month: string) => string;
+    attachmentStore: AttachmentStore;
+}> = ({ isOpen, onClose, onSave, categories, accounts, tags, goals, currency, exchangeRates, parentCurrency, editingTransaction, parentId, formatMonthYear, attachmentStore }) => {
     const [description, setDescription] = useState('');
     const [amount, setAmount] = useState<number | ''>('');
     const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
     const [type, setType] = useState<TransactionType>(TransactionType.EXPENSE);
-    const [category, setCategory] = useState(categories[0]?.name || '');
+    const [categoryId, setCategoryId] = useState(categories[0]?.id || '');
     const [notes, setNotes] = useState('');
+    const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+    const [toAccountId, setToAccountId] = useState(accounts[1]?.id || '');
+    const [repeat, setRepeat] = useState<RecurrenceFrequency | 'none'>('none');
+    const [repeatInterval, setRepeatInterval] = useState<number | ''>(1);
+    const [repeatEndMode, setRepeatEndMode] = useState<'never' | 'date' | 'count'>('never');
+    const [repeatEndDate, setRepeatEndDate] = useState('');
+    const [repeatCount, setRepeatCount] = useState<number | ''>(12);
+    const [dayOfMonthPolicy, setDayOfMonthPolicy] = useState<RecurrenceRule['dayOfMonthPolicy']>('clamp');
+    const [selectedTags, setSelectedTags] = useState<Tag[]>([]);
+    const [tagInput, setTagInput] = useState('');
+    const [transactionCurrency, setTransactionCurrency] = useState(currency);
+    const [exchangeRate, setExchangeRate] = useState<number | ''>('');
+    const [installmentCount, setInstallmentCount] = useState<number | ''>(1);
+    const [goalId, setGoalId] = useState('');
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
+    const [isAttaching, setIsAttaching] = useState(false);
+    const [attachmentError, setAttachmentError] = useState('');
+    const [viewingAttachment, setViewingAttachment] = useState<number | null>(null);
+    const attachmentInputRef = useRef<HTMLInputElement>(null);
     
     const isSubItem = !!parentId || !!editingTransaction?.parentId;
     const hasSubItems = !!editingTransaction?.subItems?.length;
+    const isSeriesOccurrence = !!editingTransaction?.seriesId;
+    const canRepeat = !isSubItem && !isSeriesOccurrence;
+    // Occurrences are placed by their index from the origin's date, so the schedule of a series that has already
+    // been generated can't change without moving the occurrences to come out of step with the ones created
+    const isScheduleLocked = (editingTransaction?.recurrence?.nextIndex ?? 1) > 1;
+    const isTransferType = type === TransactionType.TRANSFER;
+    const amountCurrency = isSubItem ? parentCurrency ?? currency : transactionCurrency;
+    const isForeign = !isSubItem && transactionCurrency !== currency;
+    const selectedAccount = accounts.find(a => a.id === accountId);
+    // Only a new card purchase can be split; each installment is then edited on its own
+    const canSplit = !isSubItem && !editingTransaction && type === TransactionType.EXPENSE && isCreditCard(selectedAccount) && repeat === 'none';
+    const installments = canSplit ? Math.min(MAX_INSTALLMENTS, Math.max(1, Math.floor(+installmentCount || 1))) : 1;
 
     useEffect(() => {
         if (editingTransaction) {
@@ -303,68 +642,240 @@ const TransactionModal: React.FC<{
             setAmount(editingTransaction.amount);
             setDate(new Date(editingTransaction.date).toISOString().slice(0, 10));
             setType(editingTransaction.type);
-            setCategory(editingTransaction.category);
+            setCategoryId(editingTransaction.categoryId);
             setNotes(editingTransaction.notes || '');
+            setAccountId(editingTransaction.accountId || accounts[0]?.id || '');
+            setToAccountId(editingTransaction.toAccountId || accounts.find(a => a.id !== editingTransaction.accountId)?.id || '');
+            const rule = editingTransaction.recurrence;
+            setRepeat(rule?.frequency ?? 'none');
+            setRepeatInterval(rule?.interval ?? 1);
+            setRepeatEndMode(rule?.count !== undefined ? 'count' : rule?.endDate ? 'date' : 'never');
+            setRepeatEndDate(rule?.endDate ? new Date(rule.endDate).toISOString().slice(0, 10) : '');
+            setRepeatCount(rule?.count ?? 12);
+            setDayOfMonthPolicy(rule?.dayOfMonthPolicy ?? 'clamp');
+            setSelectedTags((editingTransaction.tagIds ?? []).map(id => tags.find(t => t.id === id)).filter((t): t is Tag => !!t));
+            setTransactionCurrency(editingTransaction.currency ?? currency);
+            setExchangeRate(editingTransaction.exchangeRate ?? '');
+            setGoalId(editingTransaction.goalId ?? '');
+            setAttachments(editingTransaction.attachments ?? []);
         } else {
             // Reset form for new transaction
             setDescription('');
             setAmount('');
             setDate(new Date().toISOString().slice(0, 10));
             setType(TransactionType.EXPENSE);
-            setCategory(categories[0]?.name || '');
+            setCategoryId(categories[0]?.id || '');
             setNotes('');
+            setAccountId(accounts[0]?.id || '');
+            setToAccountId(accounts[1]?.id || '');
+            setRepeat('none');
+            setRepeatInterval(1);
+            setRepeatEndMode('never');
+            setRepeatEndDate('');
+            setRepeatCount(12);
+            setDayOfMonthPolicy('clamp');
+            setSelectedTags([]);
+            setTransactionCurrency(currency);
+            setExchangeRate('');
+            setGoalId('');
+            setAttachments([]);
+        }
+        setInstallmentCount(1);
+        setTagInput('');
+        setAttachmentError('');
+        setViewingAttachment(null);
+    }, [editingTransaction, isOpen, categories, accounts, tags, currency]);
+
+    // Picking a currency or a date fills in the rate table's rate for that day, which can still be edited
+    const suggestRate = (newCurrency: string, newDate: string) => {
+        if (newCurrency === currency || !newDate) return;
+        setExchangeRate(findRate(exchangeRates, newCurrency, new Date(newDate).toISOString()) ?? '');
+    };
+
+    const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            setSelectedTags(prev => appendTag(prev, tagInput, tags));
+            setTagInput('');
+        } else if (e.key === 'Backspace' && !tagInput && selectedTags.length > 0) {
+            setSelectedTags(prev => prev.slice(0, -1));
+        }
+    };
+
+    const tagSuggestions = tags.filter(t => !selectedTags.some(selected => selected.id === t.id));
+
+    // Files are compressed and stored right away; only their descriptions are saved with the transaction
+    const handleAttachFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length === 0) return;
+        setIsAttaching(true);
+        setAttachmentError('');
+        const stamp = Date.now();
+        const errors: string[] = [];
+        for (const [index, file] of files.entries()) {
+            try {
+                const attachment = await attachmentStore.save(file, `att${stamp}_${index}`);
+                setAttachments(prev => [...prev, attachment]);
+            } catch (err) {
+                errors.push(err instanceof Error ? err.message : `Não foi possível anexar "${file.name}".`);
+            }
         }
-    }, [editingTransaction, isOpen, categories]);
+        setAttachmentError(errors.join(' '));
+        setIsAttaching(false);
+    };
+
+    const buildRecurrenceRule = (): RecurrenceRule | undefined => {
+        if (!canRepeat || repeat === 'none') return undefined;
+        const previousRule = editingTransaction?.recurrence;
+        const schedule = isScheduleLocked && previousRule
+            ? { frequency: previousRule.frequency, interval: previousRule.interval, dayOfMonthPolicy: previousRule.dayOfMonthPolicy }
+            : { frequency: repeat, interval: Math.max(1, Math.floor(+repeatInterval || 1)), dayOfMonthPolicy };
+        return {
+            ...schedule,
+            endDate: repeatEndMode === 'date' && repeatEndDate ? new Date(repeatEndDate).toISOString() : undefined,
+            count: repeatEndMode === 'count' ? Math.max(1, Math.floor(+repeatCount || 1)) : undefined,
+            generatedCount: previousRule?.generatedCount ?? 1,
+            nextIndex: previousRule?.nextIndex ?? 1,
+            template: previousRule?.template,
+        };
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (description && amount !== '' && date && category) {
+        if (isTransferType && (!accountId || !toAccountId || accountId === toAccountId)) return;
+        if (isForeign && !(+exchangeRate > 0)) return;
+        if (description && amount !== '' && date && (categoryId || isTransferType)) {
+            const finalTags = appendTag(selectedTags, tagInput, tags); // A tag typed but not confirmed with Enter still counts
             onSave({
                 description,
                 amount: hasSubItems ? editingTransaction!.amount : +amount,
-                date: new Date(date).toISOString(),
+                date: isScheduleLocked ? editingTransaction!.date : new Date(date).toISOString(),
                 type,
-                category,
+                categoryId: isTransferType ? '' : categoryId,
                 parentId: editingTransaction?.parentId || parentId,
                 notes: isSubItem ? notes : undefined,
-            });
+                accountId: isSubItem ? undefined : accountId,
+                toAccountId: isTransferType ? toAccountId : undefined,
+                recurrence: buildRecurrenceRule(),
+                seriesId: editingTransaction?.seriesId,
+                tagIds: finalTags.length > 0 ? finalTags.map(t => t.id) : undefined,
+                currency: isForeign ? transactionCurrency : undefined,
+                exchangeRate: isForeign ? +exchangeRate : undefined,
+                goalId: !isSubItem && goalId ? goalId : undefined,
+                attachments: attachments.length > 0 ? attachments : undefined,
+            }, finalTags.filter(t => !tags.some(existing => existing.id === t.id)), installments);
             onClose();
         }
     };
 
-    const incomeCategories = useMemo(() => categories.filter(c => c.name.toLowerCase().includes('salário') || c.name.toLowerCase().includes('freelance')), [categories]);
-    const expenseCategories = useMemo(() => categories.filter(c => !incomeCategories.map(ic => ic.name).includes(c.name)), [categories, incomeCategories]);
-    
-    const relevantCategories = type === TransactionType.INCOME ? incomeCategories : expenseCategories;
+    // The category being edited stays available even if its kind changed since, so opening the form never swaps it
+    const relevantCategories = useMemo(() => categories.filter(c =>
+        getCategoriesForType(categories, type).includes(c) || (editingTransaction?.type === type && c.id === editingTransaction.categoryId)
+    ), [categories, type, editingTransaction]);
     
     useEffect(() => {
-        if (!relevantCategories.find(c => c.name === category)) {
-            setCategory(relevantCategories[0]?.name || '');
+        if (isTransferType && (!toAccountId || toAccountId === accountId)) {
+            setToAccountId(accounts.find(a => a.id !== accountId)?.id || '');
+        }
+    }, [isTransferType, accountId, toAccountId, accounts]);
+
+    useEffect(() => {
+        if (!relevantCategories.find(c => c.id === categoryId)) {
+            setCategoryId(relevantCategories[0]?.id || '');
         }
-    }, [type, relevantCategories, category]);
+    }, [type, relevantCategories, categoryId]);
 
     return (
         <Modal isOpen={isOpen} onClose={onClose} title={editingTransaction ? 'Editar Transação' : (isSubItem ? 'Adicionar Subitem' : 'Adicionar Transação')}>
             <form onSubmit={handleSubmit} className="space-y-4">
                 <Input label="Descrição" value={description} onChange={e => setDescription(e.target.value)} required />
-                {!hasSubItems ? (
-                     <Input label={`Valor (${currency})`} type="number" step="0.01" value={amount} onChange={e => setAmount(parseFloat(e.target.value))} required />
-                ) : (
+                <div className={`grid grid-cols-1 gap-4 ${!isSubItem ? 'sm:grid-cols-[1fr_auto]' : ''}`}>
+                    {!hasSubItems ? (
+                         <Input label={`Valor (${amountCurrency})`} type="number" step="0.01" value={amount} onChange={e => setAmount(parseFloat(e.target.value))} required />
+                    ) : (
+                        <div>
+                            <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-1">Valor ({amountCurrency})</label>
+                            <p className="w-full bg-[var(--color-bg-primary)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[var(--color-text-secondary)]">
+                               {formatCurrency(editingTransaction!.amount, amountCurrency)} (Soma dos subitens)
+                            </p>
+                        </div>
+                    )}
+                    {!isSubItem && (
+                        <Select label="Moeda" value={transactionCurrency} onChange={e => { setTransactionCurrency(e.target.value); suggestRate(e.target.value, date); }}>
+                            {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                        </Select>
+                    )}
+                </div>
+                {isForeign && (
                     <div>
-                        <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-1">Valor ({currency})</label>
-                        <p className="w-full bg-[var(--color-bg-primary)] border border-[var(--color-border)] rounded-lg px-3 py-2 text-[var(--color-text-secondary)]">
-                           {formatCurrency(editingTransaction!.amount, currency)} (Soma dos subitens)
+                        <Input label={`Cotação (1 ${transactionCurrency} em ${currency})`} type="number" step="any" min="0" value={exchangeRate} onChange={e => setExchangeRate(e.target.value === '' ? '' : parseFloat(e.target.value))} required />
+                        <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                            {exchangeRate === ''
+                                ? `Nenhuma cotação de ${transactionCurrency} na tabela; informe a do dia.`
+                                : `≈ ${formatCurrency((+amount || 0) * +exchangeRate, currency)}`}
                         </p>
                     </div>
                 )}
-                <Input label="Data" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                <Input label="Data" type="date" value={date} onChange={e => { setDate(e.target.value); if (isForeign) suggestRate(transactionCurrency, e.target.value); }} disabled={isScheduleLocked} required />
                 <Select label="Tipo" value={type} onChange={e => setType(e.target.value as TransactionType)}>
                     <option value={TransactionType.EXPENSE}>Despesa</option>
                     <option value={TransactionType.INCOME}>Receita</option>
+                    {!isSubItem && !hasSubItems && accounts.length > 1 && <option value={TransactionType.TRANSFER}>Transferência</option>}
                 </Select>
-                 <Select label="Categoria" value={category} onChange={e => setCategory(e.target.value)} required>
-                    {relevantCategories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                {!isTransferType && (
+                 <Select label="Categoria" value={categoryId} onChange={e => setCategoryId(e.target.value)} required>
+                    <CategoryOptions categories={categories} visible={relevantCategories} />
                  </Select>
+                )}
+                {!isSubItem && (
+                    <div className={`grid grid-cols-1 gap-4 ${isTransferType ? 'sm:grid-cols-2' : ''}`}>
+                        <Select label={isTransferType ? 'Conta de origem' : 'Conta'} value={accountId} onChange={e => setAccountId(e.target.value)} required>
+                            {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </Select>
+                        {isTransferType && (
+                            <Select label="Conta de destino" value={toAccountId} onChange={e => setToAccountId(e.target.value)} required>
+                                {accounts.filter(a => a.id !== accountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </Select>
+                        )}
+                    </div>
+                )}
+                {!isSubItem && goals.length > 0 && (
+                    <Select label="Meta" value={goalId} onChange={e => setGoalId(e.target.value)}>
+                        <option value="">Nenhuma</option>
+                        {goals.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                    </Select>
+                )}
+                {canSplit && (
+                    <div>
+                        <Input label="Parcelas" type="number" min="1" max={MAX_INSTALLMENTS} step="1" value={installmentCount} onChange={e => setInstallmentCount(e.target.value === '' ? '' : parseInt(e.target.value))} />
+                        {installments > 1 && date && (
+                            <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+                                {installments}x de {formatCurrency((+amount || 0) / installments, amountCurrency)}; a primeira na fatura de {formatMonthYear(getInvoiceMonthForDate(new Date(date).toISOString(), selectedAccount!))}.
+                            </p>
+                        )}
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="transaction-tags" className="block text-sm font-medium text-[var(--color-text-secondary)] mb-1">Tags</label>
+                    <div className="flex flex-wrap items-center gap-2 w-full bg-[var(--color-bg-primary)] border border-[var(--color-border)] rounded-lg px-3 py-2 focus-within:ring-2 focus-within:ring-[var(--color-accent)] transition-all">
+                        {selectedTags.map(tag => (
+                            <TagChip key={tag.id} tag={tag} onRemove={() => setSelectedTags(prev => prev.filter(t => t.id !== tag.id))} />
+                        ))}
+                        <input
+                            id="transaction-tags"
+                            list="transaction-tag-options"
+                            value={tagInput}
+                            onChange={e => setTagInput(e.target.value)}
+                            onKeyDown={handleTagKeyDown}
+                            placeholder={selectedTags.length === 0 ? 'Ex: viagem-2026 (Enter para adicionar)' : ''}
+                            className="flex-grow min-w-[120px] bg-transparent text-[var(--color-text-primary)] placeholder-[var(--color-text-secondary)] focus:outline-none"
+                        />
+                        <datalist id="transaction-tag-options">
+                            {tagSuggestions.map(t => <option key={t.id} value={t.name} />)}
+                        </datalist>
+                    </div>
+                </div>
                  {isSubItem && (
                     <div>
                         <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-1">Anotação/Observação</label>
@@ -377,32 +888,436 @@ const TransactionModal: React.FC<{
                         />
                     </div>
                 )}
+                <div>
+                    <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-1">Comprovantes</label>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {attachments.map((attachment, index) => (
+                            <AttachmentThumbnail
+                                key={attachment.id}
+                                store={attachmentStore}
+                                attachment={attachment}
+                                onOpen={() => setViewingAttachment(index)}
+                                onRemove={() => setAttachments(prev => prev.filter(a => a.id !== attachment.id))}
+                            />
+                        ))}
+                        <input type="file" ref={attachmentInputRef} onChange={handleAttachFiles} accept={ATTACHMENT_ACCEPT} multiple className="hidden" />
+                        <Button type="button" variant="secondary" onClick={() => attachmentInputRef.current?.click()} disabled={isAttaching}>
+                            {isAttaching ? <Spinner /> : 'Anexar foto ou PDF'}
+                        </Button>
+                    </div>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">Fotos são reduzidas antes de serem guardadas neste navegador.</p>
+                    {attachmentError && <p className="text-sm text-[var(--color-danger)] mt-1">{attachmentError}</p>}
+                </div>
+                {canRepeat && (
+                    <div className="space-y-4 pt-4 border-t border-[var(--color-border)]">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <Select label="Repetir" value={repeat} onChange={e => setRepeat(e.target.value as RecurrenceFrequency | 'none')} disabled={isScheduleLocked}>
+                                <option value="none">Não repetir</option>
+                                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(freq => (
+                                    <option key={freq} value={freq}>{FREQUENCY_LABELS[freq].adjective}</option>
+                                ))}
+                            </Select>
+                            {repeat !== 'none' && (
+                                <Input label={`A cada quantos ${FREQUENCY_LABELS[repeat].plural}`} type="number" min="1" step="1" value={repeatInterval} onChange={e => setRepeatInterval(e.target.value === '' ? '' : parseInt(e.target.value))} disabled={isScheduleLocked} required />
+                            )}
+                        </div>
+                        {repeat !== 'none' && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <Select label="Termina" value={repeatEndMode} onChange={e => setRepeatEndMode(e.target.value as 'never' | 'date' | 'count')}>
+                                    <option value="never">Nunca</option>
+                                    <option value="date">Em uma data</option>
+                                    <option value="count">Após N ocorrências</option>
+                                </Select>
+                                {repeatEndMode === 'date' && (
+                                    <Input label="Data final" type="date" min={date} value={repeatEndDate} onChange={e => setRepeatEndDate(e.target.value)} required />
+                                )}
+                                {repeatEndMode === 'count' && (
+                                    <Input label="Ocorrências" type="number" min="1" step="1" value={repeatCount} onChange={e => setRepeatCount(e.target.value === '' ? '' : parseInt(e.target.value))} required />
+                                )}
+                            </div>
+                        )}
+                        {(repeat === 'monthly' || repeat === 'yearly') && parseInt(date.slice(8, 10)) > 28 && (
+                            <Select label="Meses sem este dia" value={dayOfMonthPolicy} onChange={e => setDayOfMonthPolicy(e.target.value as RecurrenceRule['dayOfMonthPolicy'])} disabled={isScheduleLocked}>
+                                <option value="clamp">Usar o último dia do mês</option>
+                                <option value="skip">Pular o mês</option>
+                            </Select>
+                        )}
+                        {isScheduleLocked && (
+                            <p className="text-sm text-[var(--color-text-secondary)]">
+                                A data e a frequência não podem mudar depois que a série gerou ocorrências. Para mudá-las, encerre a série em "Recorrências" e crie uma nova.
+                            </p>
+                        )}
+                    </div>
+                )}
+                {isSeriesOccurrence && (
+                    <p className="text-sm text-[var(--color-text-secondary)]">
+                        Esta transação faz parte de uma série recorrente. As alterações valem apenas para esta ocorrência; use "Recorrências" para alterar as próximas.
+                    </p>
+                )}
                 <div className="flex justify-end gap-3 pt-4">
                     <Button type="button" variant="secondary" onClick={onClose}>Cancelar</Button>
-                    <Button type="submit" variant="primary">Salvar</Button>
+                    <Button type="submit" variant="primary" disabled={isAttaching}>Salvar</Button>
                 </div>
             </form>
+            {viewingAttachment !== null && attachments.length > 0 && (
+                <AttachmentViewer store={attachmentStore} attachments={attachments} startIndex={viewingAttachment} onClose={() => setViewingAttachment(null)} />
+            )}
+        </Modal>
+    );
+};
+
+// --- RECURRING SERIES MODAL ---
+const RecurringSeriesModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    transactions: Transaction[];
+    categories: Category[];
+    currency: string;
+    onUpdateSeries: (originId: string, changes: NonNullable<RecurrenceRule['template']>) => void;
+    onStopSeries: (originId: string) => void;
+}> = ({ isOpen, onClose, transactions, categories, currency, onUpdateSeries, onStopSeries }) => {
+    const [editingSeriesId, setEditingSeriesId] = useState<string | null>(null);
+    const [editDescription, setEditDescription] = useState('');
+    const [editAmount, setEditAmount] = useState<number | ''>('');
+    const [editCategoryId, setEditCategoryId] = useState('');
+    const [seriesToStop, setSeriesToStop] = useState<Transaction | null>(null);
+
+    const series = useMemo(() => transactions
+        .filter(t => t.recurrence && !t.parentId)
+        .map(origin => ({ origin, current: { ...origin, ...origin.recurrence!.template }, nextDate: getNextOccurrenceDate(origin) }))
+        .sort((a, b) => (a.nextDate ? 0 : 1) - (b.nextDate ? 0 : 1) || a.current.description.localeCompare(b.current.description)),
+    [transactions]);
+
+    useEffect(() => {
+        if (!isOpen) setEditingSeriesId(null);
+    }, [isOpen]);
+
+    const startEditing = (current: Transaction) => {
+        setEditingSeriesId(current.id);
+        setEditDescription(current.description);
+        setEditAmount(current.amount);
+        setEditCategoryId(current.categoryId);
+    };
+
+    const handleSaveEdit = () => {
+        if (!editingSeriesId || !editDescription.trim() || editAmount === '') return;
+        onUpdateSeries(editingSeriesId, { description: editDescription.trim(), amount: +editAmount, categoryId: editCategoryId });
+        setEditingSeriesId(null);
+    };
+
+    const confirmStop = () => {
+        if (seriesToStop) {
+            onStopSeries(seriesToStop.id);
+            setSeriesToStop(null);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Transações Recorrentes">
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                {series.length === 0 && (
+                    <p className="text-center py-6 text-[var(--color-text-secondary)]">
+                        Nenhuma transação recorrente. Use o campo "Repetir" ao adicionar uma transação.
+                    </p>
+                )}
+                {series.map(({ origin, current, nextDate }) => (
+                    <div key={origin.id} className="bg-[var(--color-bg-secondary)] p-3 rounded-lg space-y-3">
+                        {editingSeriesId === origin.id ? (
+                            <div className="space-y-3">
+                                <Input label="Descrição" value={editDescription} onChange={e => setEditDescription(e.target.value)} />
+                                <Input label={`Valor (${origin.currency ?? currency})`} type="number" step="0.01" value={editAmount} onChange={e => setEditAmount(e.target.value === '' ? '' : parseFloat(e.target.value))} />
+                                <Select label="Categoria" value={editCategoryId} onChange={e => setEditCategoryId(e.target.value)}>
+                                    <CategoryOptions categories={categories} visible={categories.filter(c => getCategoriesForType(categories, current.type).includes(c) || c.id === current.categoryId)} />
+                                </Select>
+                                <p className="text-xs text-[var(--color-text-secondary)]">As alterações valem apenas para as próximas ocorrências. O histórico não é modificado.</p>
+                                <div className="flex justify-end gap-2">
+                                    <Button variant="secondary" onClick={() => setEditingSeriesId(null)}>Cancelar</Button>
+                                    <Button onClick={handleSaveEdit}>Salvar</Button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <span className="p-2 bg-[var(--color-border)] rounded-lg flex-shrink-0">
+                                        <Icon name={categories.find(c => c.id === current.categoryId)?.icon} className="h-5 w-5" />
+                                    </span>
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-[var(--color-text-primary)] truncate">{current.description}</p>
+                                        <p className="text-sm text-[var(--color-text-secondary)]">
+                                            {describeRecurrence(origin.recurrence!)} &middot; {nextDate ? `Próxima em ${nextDate.toLocaleDateString('pt-BR', { timeZone: 'UTC' })}` : 'Encerrada'}
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2 ml-auto">
+                                    <span className={`font-semibold ${current.type === TransactionType.INCOME ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]'}`}>
+                                        {formatCurrency(current.amount, origin.currency ?? currency)}
+                                    </span>
+                                    {nextDate && (
+                                        <>
+                                            <Button variant="secondary" className="p-2" onClick={() => startEditing({ ...current, id: origin.id })} title="Editar próximas ocorrências">
+                                                <Icon name="pencil" className="h-5 w-5" />
+                                            </Button>
+                                            <Button variant="danger" className="p-2" onClick={() => setSeriesToStop(current)} title="Encerrar série">
+                                                <Icon name="x_mark" className="h-5 w-5" />
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-end pt-6">
+                <Button variant="secondary" onClick={onClose}>Fechar</Button>
+            </div>
+
+            <ConfirmationModal
+                isOpen={seriesToStop !== null}
+                onClose={() => setSeriesToStop(null)}
+                onConfirm={confirmStop}
+                title="Encerrar Série"
+                confirmText="Encerrar"
+                confirmVariant="danger"
+            >
+                <p>
+                    Nenhuma nova ocorrência de <strong>{seriesToStop?.description}</strong> será criada a partir de hoje.
+                    As ocorrências passadas serão mantidas.
+                </p>
+            </ConfirmationModal>
+        </Modal>
+    );
+};
+
+// --- PERIOD PICKER ---
+const PeriodPicker: React.FC<{
+    period: Period;
+    onChange: (period: Period) => void;
+    availableMonths: string[];
+    formatMonthYear: (month: string) => string;
+}> = ({ period, onChange, availableMonths, formatMonthYear }) => {
+    const range = getPeriodRange(period);
+    const canStep = period.kind === 'week' || period.kind === 'month' || period.kind === 'quarter' || period.kind === 'year';
+    const selectedMonth = period.kind === 'month' ? period.start.slice(0, 7) : '';
+    // Months with transactions are listed, plus the one reached with the arrows when it has none
+    const monthOptions = selectedMonth && !availableMonths.includes(selectedMonth) ? [selectedMonth, ...availableMonths].sort().reverse() : availableMonths;
+
+    // A new kind of period starts around the one being shown; a custom one starts with its exact days
+    const handleKindChange = (kind: PeriodKind) => {
+        if (kind === 'custom' && range) {
+            onChange({ kind, ...range });
+            return;
+        }
+        const isRolling = period.kind === 'last30' || period.kind === 'last90';
+        onChange(createPeriod(kind, range && !isRolling ? range.start : undefined));
+    };
+
+    const stepButton = (steps: number, label: string, path: string) => (
+        <Button variant="secondary" className="p-2" onClick={() => onChange(shiftPeriod(period, steps))} title={label}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={path} /></svg>
+        </Button>
+    );
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Select value={period.kind} onChange={e => handleKindChange(e.target.value as PeriodKind)} aria-label="Tipo de período">
+                {(Object.keys(PERIOD_KIND_LABELS) as PeriodKind[]).map(kind => <option key={kind} value={kind}>{PERIOD_KIND_LABELS[kind]}</option>)}
+            </Select>
+            {canStep && stepButton(-1, 'Período anterior', 'M15 19l-7-7 7-7')}
+            {period.kind === 'month' ? (
+                <Select value={selectedMonth} onChange={e => onChange(createPeriod('month', `${e.target.value}-01`))} aria-label="Filtrar por mês">
+                    {monthOptions.map(month => <option key={month} value={month}>{formatMonthYear(month)}</option>)}
+                </Select>
+            ) : canStep && (
+                <span className="px-2 font-medium text-[var(--color-text-primary)] whitespace-nowrap">{formatPeriod(period)}</span>
+            )}
+            {canStep && stepButton(1, 'Próximo período', 'M9 5l7 7-7 7')}
+            {period.kind === 'custom' && (
+                <>
+                    <Input type="date" aria-label="Início do período" value={period.start} max={period.end} onChange={e => e.target.value && onChange({ ...period, start: e.target.value, end: e.target.value > period.end ? e.target.value : period.end })} />
+                    <Input type="date" aria-label="Fim do período" value={period.end} min={period.start} onChange={e => e.target.value && onChange({ ...period, end: e.target.value, start: e.target.value < period.start ? e.target.value : period.start })} />
+                </>
+            )}
+        </div>
+    );
+};
+
+// --- CREDIT CARD INVOICES MODAL ---
+const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+    open: 'bg-[var(--color-accent)]/20 text-[var(--color-accent)]',
+    closed: 'bg-yellow-500/20 text-yellow-500',
+    paid: 'bg-[var(--color-success)]/20 text-[var(--color-success)]',
+    overdue: 'bg-[var(--color-danger)]/20 text-[var(--color-danger)]',
+};
+
+const InvoiceModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    card: Account;
+    transactions: Transaction[];
+    accounts: Account[];
+    currency: string;
+    formatMonthYear: (month: string) => string;
+    onPay: (fromAccountId: string, amount: number, month: string) => void;
+}> = ({ isOpen, onClose, card, transactions, accounts, currency, formatMonthYear, onPay }) => {
+    const invoices = useMemo(() => getInvoices(card, transactions), [card, transactions]);
+    const openInstallments = useMemo(() => getOpenInstallments(invoices), [invoices]);
+    const payingAccounts = accounts.filter(a => a.id !== card.id && !isCreditCard(a));
+    const [selectedMonth, setSelectedMonth] = useState('');
+    const [fromAccountId, setFromAccountId] = useState('');
+    const [paymentAmount, setPaymentAmount] = useState<number | ''>('');
+
+    // Opens on the oldest invoice still to be paid, or else the latest one
+    const defaultMonth = (invoices.find(i => i.status !== 'paid') ?? invoices[invoices.length - 1])?.month ?? '';
+    const invoice: Invoice | undefined = invoices.find(i => i.month === selectedMonth) ?? invoices.find(i => i.month === defaultMonth);
+    const amountDue = invoice ? Math.max(0, Math.round((invoice.total - invoice.paid) * 100) / 100) : 0;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelectedMonth(defaultMonth);
+        setFromAccountId(payingAccounts[0]?.id ?? '');
+    }, [isOpen, card.id]);
+
+    useEffect(() => {
+        setPaymentAmount(amountDue || '');
+    }, [invoice?.month, amountDue]);
+
+    const handlePay = () => {
+        if (!invoice || !fromAccountId || !(+paymentAmount > 0)) return;
+        onPay(fromAccountId, +paymentAmount, invoice.month);
+    };
+
+    const formatDay = (iso: string) => new Date(iso).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={`Faturas · ${card.name}`}>
+            {invoices.length === 0 ? (
+                <p className="text-[var(--color-text-secondary)]">Nenhuma compra neste cartão ainda.</p>
+            ) : (
+                <div className="space-y-6">
+                    <div className="flex gap-2 overflow-x-auto pb-1">
+                        {invoices.map(i => (
+                            <button
+                                key={i.month}
+                                type="button"
+                                onClick={() => setSelectedMonth(i.month)}
+                                className={`flex-shrink-0 text-left px-3 py-2 rounded-lg border transition-colors ${i.month === invoice?.month ? 'border-[var(--color-accent)] bg-[var(--color-bg-secondary)]' : 'border-[var(--color-border)] hover:bg-[var(--color-bg-secondary)]'}`}
+                            >
+                                <p className="text-sm font-medium text-[var(--color-text-primary)]">{formatMonthYear(i.month)}</p>
+                                <p className="text-xs text-[var(--color-text-secondary)]">{formatCurrency(i.total, currency)}</p>
+                            </button>
+                        ))}
+                    </div>
+
+                    {invoice && (
+                        <div className="space-y-4">
+                            <div className="flex flex-wrap justify-between items-start gap-3">
+                                <div>
+                                    <p className="text-2xl font-bold text-[var(--color-text-primary)]">{formatCurrency(invoice.total, currency)}</p>
+                                    <p className="text-sm text-[var(--color-text-secondary)]">
+                                        Fecha em {formatDay(invoice.closingDate)} &middot; vence em {formatDay(invoice.dueDate)}
+                                    </p>
+                                    {invoice.paid > 0 && invoice.status !== 'paid' && (
+                                        <p className="text-sm text-[var(--color-text-secondary)]">Pago {formatCurrency(invoice.paid, currency)}, faltam {formatCurrency(amountDue, currency)}</p>
+                                    )}
+                                </div>
+                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${INVOICE_STATUS_COLORS[invoice.status]}`}>
+                                    {INVOICE_STATUS_LABELS[invoice.status]}
+                                </span>
+                            </div>
+
+                            <ul className="divide-y divide-[var(--color-border)] max-h-60 overflow-y-auto">
+                                {invoice.items.map(t => (
+                                    <li key={t.id} className="flex justify-between gap-3 py-2 text-sm">
+                                        <span className="min-w-0 truncate">
+                                            <span className="text-[var(--color-text-secondary)]">{formatDay(t.installment?.purchaseDate ?? t.date)}</span> {t.description}
+                                        </span>
+                                        <span className={`flex-shrink-0 font-medium ${t.type === TransactionType.INCOME ? 'text-[var(--color-success)]' : 'text-[var(--color-text-primary)]'}`}>
+                                            {t.type === TransactionType.INCOME ? '-' : ''}{formatCurrency(t.amount, currency)}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+
+                            {amountDue > 0 && (
+                                payingAccounts.length === 0 ? (
+                                    <p className="text-sm text-[var(--color-text-secondary)]">Cadastre uma conta para pagar a fatura.</p>
+                                ) : (
+                                    <div className="flex flex-wrap items-end gap-2 pt-4 border-t border-[var(--color-border)]">
+                                        <Select label="Pagar com" value={fromAccountId} onChange={e => setFromAccountId(e.target.value)}>
+                                            {payingAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                        </Select>
+                                        <Input label={`Valor (${currency})`} type="number" step="0.01" min="0" value={paymentAmount} onChange={e => setPaymentAmount(e.target.value === '' ? '' : parseFloat(e.target.value))} className="w-40" />
+                                        <Button onClick={handlePay} disabled={!fromAccountId || !(+paymentAmount > 0)}>Pagar fatura</Button>
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    )}
+
+                    {openInstallments.length > 0 && (
+                        <div>
+                            <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Parcelas em aberto</h3>
+                            <ul className="space-y-2">
+                                {openInstallments.map(p => (
+                                    <li key={p.purchaseId} className="flex justify-between gap-3 bg-[var(--color-bg-secondary)] p-3 rounded-lg text-sm">
+                                        <span className="min-w-0">
+                                            <span className="block truncate text-[var(--color-text-primary)]">{p.description}</span>
+                                            <span className="text-xs text-[var(--color-text-secondary)]">
+                                                {p.remaining.length} de {p.total} parcelas &middot; última em {formatMonthYear(p.lastMonth)}
+                                            </span>
+                                        </span>
+                                        <span className="flex-shrink-0 font-medium">{formatCurrency(p.remainingAmount, currency)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
         </Modal>
     );
 };
 
 // --- DASHBOARD ---
+const BUDGET_BAR_COLORS: Record<BudgetLevel, string> = {
+    ok: 'bg-[var(--color-success)]',
+    warning: 'bg-yellow-400',
+    exceeded: 'bg-[var(--color-danger)]',
+};
+
 const Dashboard: React.FC<{ 
     userData: UserData;
-    selectedMonth: string;
-    onMonthChange: (month: string) => void;
+    period: Period;
+    onPeriodChange: (period: Period) => void;
     availableMonths: string[];
     formatMonthYear: (month: string) => string;
-}> = ({ userData, selectedMonth, onMonthChange, availableMonths, formatMonthYear }) => {
-    const { transactions, currency, theme } = userData;
-    const { incomeVsExpenseData } = processChartData(transactions);
+    onPayInvoice: (cardId: string, fromAccountId: string, amount: number, month: string) => void;
+}> = ({ userData, period, onPeriodChange, availableMonths, formatMonthYear, onPayInvoice }) => {
+    const { transactions, categories, budgets, accounts, currency, theme } = userData;
+    const [invoiceCard, setInvoiceCard] = useState<Account | null>(null);
+    const [forecastHorizon, setForecastHorizon] = useState(6);
+    const forecast = useMemo(() => getCashFlowForecast(accounts, transactions, forecastHorizon), [accounts, transactions, forecastHorizon]);
+    const forecastData = forecast.months.map(m => ({ name: formatMonthYear(m.month), Saldo: m.balance, band: [m.low, m.high] }));
+    const { incomeVsExpenseData } = processChartData(withCategoryNames(excludeTransfers(transactions), categories));
 
-    const filteredTransactions = useMemo(() => {
-        if (selectedMonth === 'all') {
-            return transactions;
-        }
-        return transactions.filter(t => t.date.startsWith(selectedMonth));
-    }, [transactions, selectedMonth]);
+    const range = getPeriodRange(period);
+    const accountBalances = useMemo(() => {
+        if (!range) return getAccountBalances(accounts, transactions);
+        return getAccountBalances(accounts, transactions, `${range.end}T23:59:59.999Z`);
+    }, [accounts, transactions, range?.end]);
+
+    const budgetMonth = getBudgetMonth(getPeriodMonth(period));
+    const budgetStatuses = useMemo(
+        () => getBudgetStatuses(transactions, categories, budgets, budgetMonth),
+        [transactions, categories, budgets, budgetMonth]
+    );
+    const budgetAlerts = budgetStatuses.filter(b => b.level !== 'ok');
+
+    const filteredTransactions = useMemo(
+        () => transactions.filter(t => isInRange(t.date, range)),
+        [transactions, range?.start, range?.end]
+    );
 
     const totalIncome = filteredTransactions.filter(t => t.type === TransactionType.INCOME && !t.parentId).reduce((sum, t) => sum + t.amount, 0);
     const totalExpense = filteredTransactions.filter(t => t.type === TransactionType.EXPENSE && !t.parentId).reduce((sum, t) => sum + t.amount, 0);
@@ -412,6 +1327,7 @@ const Dashboard: React.FC<{
         barSuccess: theme === 'galaxy' ? '#4ade80' : '#16a34a',
         barDanger: theme === 'galaxy' ? '#f87171' : '#ef4444',
         text: theme === 'galaxy' ? '#94a3b8' : '#6b7280',
+        forecast: theme === 'galaxy' ? '#22d3ee' : '#0891b2',
     };
     
     const tooltipColors = {
@@ -433,23 +1349,22 @@ const Dashboard: React.FC<{
         <div className="p-4 md:p-8 space-y-6 md:space-y-8">
             <div className="flex flex-wrap justify-between items-center gap-4">
                 <h1 className="text-3xl md:text-4xl font-bold text-[var(--color-text-primary)]">Painel</h1>
-                {availableMonths.length > 0 && (
-                    <div className="w-full sm:w-auto sm:max-w-xs">
-                        <Select
-                            value={selectedMonth}
-                            onChange={(e) => onMonthChange(e.target.value)}
-                            aria-label="Filtrar por mês"
-                        >
-                            <option value="all">Todos os Meses</option>
-                            {availableMonths.map(month => (
-                                <option key={month} value={month}>
-                                    {formatMonthYear(month)}
-                                </option>
-                            ))}
-                        </Select>
-                    </div>
-                )}
+                <PeriodPicker period={period} onChange={onPeriodChange} availableMonths={availableMonths} formatMonthYear={formatMonthYear} />
             </div>
+            {budgetAlerts.length > 0 && (
+                <div className={`p-4 rounded-lg border ${budgetAlerts.some(b => b.level === 'exceeded') ? 'border-[var(--color-danger)] bg-red-500/10' : 'border-yellow-500 bg-yellow-500/10'}`}>
+                    <p className="font-semibold text-[var(--color-text-primary)] mb-1">Atenção aos orçamentos de {formatMonthYear(budgetMonth)}</p>
+                    <ul className="text-sm text-[var(--color-text-secondary)] space-y-0.5">
+                        {budgetAlerts.map(b => (
+                            <li key={b.category.id}>
+                                <strong className="text-[var(--color-text-primary)]">{b.category.name}</strong>: {b.level === 'exceeded'
+                                    ? `orçamento estourado em ${formatCurrency(b.spent - b.limit, currency)}`
+                                    : `${Math.round(b.ratio * 100)}% do orçamento utilizado`}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <Card className={`bg-gradient-to-br ${cardGradient.success}`}>
                     <h3 className="text-[var(--color-text-secondary)] text-lg">Receita Total</h3>
@@ -464,6 +1379,42 @@ const Dashboard: React.FC<{
                     <p className={`text-3xl md:text-4xl font-bold ${balance >= 0 ? 'text-cyan-400' : 'text-orange-400'}`}>{formatCurrency(balance, currency)}</p>
                 </Card>
             </div>
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">
+                    Contas {range && <span className="text-base font-normal text-[var(--color-text-secondary)]">&middot; saldo em {new Date(range.end).toLocaleDateString('pt-BR', { timeZone: 'UTC' })}</span>}
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {accountBalances.map(({ account, balance: accountBalance }) => (
+                        <div key={account.id} className="flex items-center gap-3 bg-[var(--color-bg-secondary)] p-4 rounded-lg">
+                            <span className="p-2 bg-[var(--color-border)] rounded-lg flex-shrink-0">
+                                <Icon name={ACCOUNT_TYPE_ICONS[account.type]} className="h-5 w-5" />
+                            </span>
+                            <div className="min-w-0">
+                                <p className="font-medium truncate">{account.name}</p>
+                                <p className="text-xs text-[var(--color-text-secondary)]">{ACCOUNT_TYPE_LABELS[account.type]}</p>
+                                <p className={`text-lg font-bold ${accountBalance >= 0 ? 'text-[var(--color-text-primary)]' : 'text-[var(--color-danger)]'}`}>{formatCurrency(accountBalance, currency)}</p>
+                                {isCreditCard(account) && (
+                                    <button type="button" onClick={() => setInvoiceCard(account)} className="text-xs font-medium text-[var(--color-accent)] hover:underline">
+                                        Ver faturas
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </Card>
+            {invoiceCard && (
+                <InvoiceModal
+                    isOpen={invoiceCard !== null}
+                    onClose={() => setInvoiceCard(null)}
+                    card={invoiceCard}
+                    transactions={transactions}
+                    accounts={accounts}
+                    currency={currency}
+                    formatMonthYear={formatMonthYear}
+                    onPay={(fromAccountId, amount, month) => onPayInvoice(invoiceCard.id, fromAccountId, amount, month)}
+                />
+            )}
             <Card>
                 <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Receitas vs Despesas Mensais</h2>
                 <div className="h-80 md:h-96">
@@ -489,73 +1440,304 @@ const Dashboard: React.FC<{
                     </ResponsiveContainer>
                 </div>
             </Card>
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)]">Previsão de Saldo</h2>
+                    <Select value={forecastHorizon} onChange={(e) => setForecastHorizon(Number(e.target.value))} aria-label="Período da previsão">
+                        {FORECAST_HORIZONS.map(months => <option key={months} value={months}>Próximos {months} meses</option>)}
+                    </Select>
+                </div>
+                {forecast.firstNegativeMonth && (
+                    <div className="p-3 mb-4 rounded-lg border border-[var(--color-danger)] bg-red-500/10 text-sm">
+                        <strong className="text-[var(--color-danger)]">Saldo negativo previsto em {formatMonthYear(forecast.firstNegativeMonth)}</strong>
+                        <span className="text-[var(--color-text-secondary)]">
+                            {' '}&middot; {formatCurrency(forecast.months.find(m => m.month === forecast.firstNegativeMonth)!.balance, currency)} ao fim do mês
+                        </span>
+                    </div>
+                )}
+                <div className="h-72 md:h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={forecastData} margin={{ top: 20, right: 30, left: 20, bottom: 25 }}>
+                            <XAxis dataKey="name" stroke={chartColors.text} angle={-30} textAnchor="end" height={60} tick={{ fontSize: 12 }} />
+                            <YAxis stroke={chartColors.text} tickFormatter={(value) => formatCurrency(value as number, currency)} />
+                            <Tooltip
+                                contentStyle={{
+                                    backgroundColor: tooltipColors.background,
+                                    borderColor: tooltipColors.border,
+                                    backdropFilter: 'blur(4px)',
+                                    borderRadius: '0.75rem',
+                                }}
+                                labelStyle={{ color: tooltipColors.label }}
+                                formatter={(value: number | number[], name: string) => Array.isArray(value)
+                                    ? [`${formatCurrency(value[0], currency)} a ${formatCurrency(value[1], currency)}`, 'Faixa provável']
+                                    : [formatCurrency(value, currency), name]}
+                            />
+                            <ReferenceLine y={0} stroke={chartColors.barDanger} strokeDasharray="4 4" />
+                            <Area dataKey="band" stroke="none" fill={chartColors.forecast} fillOpacity={0.2} animationDuration={800} />
+                            <Line dataKey="Saldo" stroke={chartColors.forecast} strokeWidth={2} dot={{ r: 3 }} animationDuration={800} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-[var(--color-text-secondary)] mt-2">
+                    Parte do saldo atual de {formatCurrency(forecast.startingBalance, currency)} e soma as recorrências, os lançamentos futuros e a média
+                    dos gastos e receitas variáveis {forecast.historyMonths > 0 ? `dos últimos ${forecast.historyMonths} ${forecast.historyMonths === 1 ? 'mês' : 'meses'}` : '(ainda sem histórico)'}, por categoria.
+                    A faixa sombreada mostra a variação provável.
+                </p>
+            </Card>
+            {budgetStatuses.length > 0 && (
+                <Card>
+                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Orçamentos &middot; {formatMonthYear(budgetMonth)}</h2>
+                    <div className="space-y-4">
+                        {budgetStatuses.map(b => (
+                            <div key={b.category.id}>
+                                <div className="flex justify-between items-center gap-3 mb-1">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <Icon name={b.category.icon} className="h-5 w-5 flex-shrink-0" />
+                                        <span className="font-medium truncate">{b.category.name}</span>
+                                    </div>
+                                    <span className="text-sm text-[var(--color-text-secondary)] flex-shrink-0">
+                                        {formatCurrency(b.spent, currency)} / {formatCurrency(b.limit, currency)}
+                                    </span>
+                                </div>
+                                <div className="w-full h-3 rounded-full bg-[var(--color-border)] overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full transition-all duration-500 ${BUDGET_BAR_COLORS[b.level]}`}
+                                        style={{ width: `${Math.min(b.ratio, 1) * 100}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
         </div>
     );
 };
 
 // --- TRANSACTIONS PAGE ---
+const BULK_ACTION_TITLES: Record<BulkAction, string> = {
+    category: 'Alterar Categoria',
+    date: 'Alterar Data',
+    duplicate: 'Duplicar para Outro Mês',
+    makeSubItems: 'Transformar em Subitens',
+    delete: 'Excluir Transações',
+};
+
 const TransactionsPage: React.FC<{
     transactions: Transaction[];
     categories: Category[];
+    accounts: Account[];
+    tags: Tag[];
     currency: string;
+    exchangeRates: ExchangeRate[];
     onAddTransaction: (parentId?: string) => void;
     onEditTransaction: (transaction: Transaction) => void;
     onDeleteTransaction: (transactionId: string) => void;
     onShowNote: (note: string) => void;
-    selectedMonth: string;
-    onMonthChange: (month: string) => void;
+    onManageRecurring: () => void;
+    period: Period;
+    onPeriodChange: (period: Period) => void;
     availableMonths: string[];
     formatMonthYear: (month: string) => string;
+    savedFilters: TransactionFilters;
+    onFiltersChange: (filters: TransactionFilters) => void;
+    onBulkAction: (action: BulkAction, ids: string[], value: string) => void;
+    attachmentStore: AttachmentStore;
 }> = ({
     transactions,
     categories,
+    accounts,
+    tags,
     currency,
+    exchangeRates,
     onAddTransaction,
     onEditTransaction,
     onDeleteTransaction,
     onShowNote,
-    selectedMonth,
-    onMonthChange,
+    onManageRecurring,
+    period,
+    onPeriodChange,
     availableMonths,
-    formatMonthYear
+    formatMonthYear,
+    savedFilters,
+    onFiltersChange,
+    onBulkAction,
+    attachmentStore
 }) => {
     
     const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+    const [viewingAttachments, setViewingAttachments] = useState<{ attachments: Attachment[]; index: number } | null>(null);
+    const closeAttachmentViewer = useCallback(() => setViewingAttachments(null), []);
+    const [filters, setFilters] = useState<TransactionFilters>(savedFilters);
+    const [showFilters, setShowFilters] = useState(hasActiveFilters(savedFilters));
 
-    const filteredTransactions = useMemo(() => {
-        if (selectedMonth === 'all') {
-            return transactions;
-        }
-        return transactions.filter(t => t.date.startsWith(selectedMonth));
-    }, [transactions, selectedMonth]);
+    // Saved with a short delay so typing in the search box doesn't write the user's data on every key
+    useEffect(() => {
+        if (filters === savedFilters) return;
+        const timeout = setTimeout(() => onFiltersChange(filters), 400);
+        return () => clearTimeout(timeout);
+    }, [filters]);
+
+    const updateFilter = <K extends keyof TransactionFilters>(key: K, value: TransactionFilters[K]) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+    };
+
+    const range = getPeriodRange(period);
+    const filteredTransactions = useMemo(
+        () => filterTransactions(transactions, filters, range),
+        [transactions, filters, range?.start, range?.end]
+    );
+    const totals = useMemo(
+        () => getFilteredTotals(convertToBaseCurrency(filteredTransactions, currency, exchangeRates), filters),
+        [filteredTransactions, filters, currency, exchangeRates]
+    );
+    const isFiltering = hasActiveFilters(filters);
+
+    // Split transactions whose sub-items match the search open by default, so the match is visible
+    const autoExpanded = useMemo(
+        () => new Set(filteredTransactions.filter(t => getMatchingSubItems(t, filters.query).length > 0).map(t => t.id)),
+        [filteredTransactions, filters.query]
+    );
+    const isExpanded = (id: string) => expanded[id] ?? autoExpanded.has(id);
+
+    const accountName = (id?: string) => accounts.find(a => a.id === id)?.name ?? 'Conta removida';
+
+    const renderTags = (t: Transaction) => {
+        const transactionTags = (t.tagIds ?? []).map(id => tags.find(tag => tag.id === id)).filter((tag): tag is Tag => !!tag);
+        if (transactionTags.length === 0) return null;
+        return (
+            <div className="flex flex-wrap gap-1 mt-1">
+                {transactionTags.map(tag => <TagChip key={tag.id} tag={tag} />)}
+            </div>
+        );
+    };
+
+    const amountClass = (t: Transaction) => isTransfer(t)
+        ? 'text-[var(--color-text-secondary)]'
+        : t.type === TransactionType.INCOME ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]';
+
+    const amountSign = (t: Transaction) => isTransfer(t) ? '' : t.type === TransactionType.INCOME ? '+ ' : '- ';
+
+    // Amounts show in the currency they were made in, with the value in the base currency under foreign ones
+    const renderAmount = (t: Transaction) => {
+        const transactionCurrency = getTransactionCurrency(t, currency);
+        const rate = getTransactionRate(t, currency, exchangeRates);
+        return (
+            <>
+                {amountSign(t)}{formatCurrency(t.amount, transactionCurrency)}
+                {transactionCurrency !== currency && (
+                    <span className="block text-xs font-normal text-[var(--color-text-secondary)]">
+                        {rate === undefined ? 'Sem cotação' : `≈ ${formatCurrency(t.amount * rate, currency)}`}
+                    </span>
+                )}
+            </>
+        );
+    };
+
+    // Selection covers top-level rows only; actions apply to the selected rows that are still visible
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const lastToggledRef = useRef<string | null>(null);
+    const [pendingBulkAction, setPendingBulkAction] = useState<BulkAction | null>(null);
+    const [bulkValue, setBulkValue] = useState('');
+
+    const visibleSelection = filteredTransactions.filter(t => selectedIds.has(t.id));
+    const allVisibleSelected = filteredTransactions.length > 0 && visibleSelection.length === filteredTransactions.length;
+    const parentCandidates = transactions.filter(t => !selectedIds.has(t.id) && !isTransfer(t));
+    // A new category is offered when it fits at least one selected row; rows it doesn't fit are left alone
+    const bulkCategories = categories.filter(c => visibleSelection.some(t => categoryAllowsType(c, t.type)));
+    const bulkCategory = categories.find(c => c.id === bulkValue);
+    const bulkCategorySkipped = bulkCategory ? visibleSelection.filter(t => !categoryAllowsType(bulkCategory, t.type)).length : 0;
+
+    // Shift-click selects (or clears) every row between the last toggled row and this one
+    const toggleSelection = (id: string, shiftKey: boolean) => {
+        const ids = filteredTransactions.map(t => t.id);
+        const anchor = lastToggledRef.current ? ids.indexOf(lastToggledRef.current) : -1;
+        const index = ids.indexOf(id);
+        const select = !selectedIds.has(id);
+        const range = shiftKey && anchor >= 0 ? ids.slice(Math.min(anchor, index), Math.max(anchor, index) + 1) : [id];
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            range.forEach(rangeId => select ? next.add(rangeId) : next.delete(rangeId));
+            return next;
+        });
+        lastToggledRef.current = id;
+    };
+
+    const toggleSelectAll = () => {
+        setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredTransactions.map(t => t.id)));
+    };
+
+    const openBulkAction = (action: BulkAction) => {
+        const nextMonth = new Date();
+        nextMonth.setMonth(nextMonth.getMonth() + 1);
+        const defaults: Record<BulkAction, string> = {
+            category: bulkCategories[0]?.id || '',
+            date: new Date().toISOString().slice(0, 10),
+            duplicate: nextMonth.toISOString().slice(0, 7),
+            makeSubItems: parentCandidates[0]?.id || '',
+            delete: '',
+        };
+        setBulkValue(defaults[action]);
+        setPendingBulkAction(action);
+    };
+
+    const confirmBulkAction = () => {
+        if (!pendingBulkAction || (pendingBulkAction !== 'delete' && !bulkValue)) return;
+        onBulkAction(pendingBulkAction, visibleSelection.map(t => t.id), bulkValue);
+        setPendingBulkAction(null);
+        setSelectedIds(new Set());
+    };
+
+    const selectionCheckbox = (t: Transaction) => (
+        <input
+            type="checkbox"
+            checked={selectedIds.has(t.id)}
+            onClick={e => toggleSelection(t.id, e.shiftKey)}
+            readOnly
+            className="h-4 w-4 flex-shrink-0 cursor-pointer accent-[var(--color-accent)]"
+            aria-label={`Selecionar ${t.description}`}
+        />
+    );
 
     const toggleExpand = (id: string) => {
-        setExpanded(prev => ({ ...prev, [id]: !prev[id] }));
+        setExpanded(prev => ({ ...prev, [id]: !isExpanded(id) }));
     };
 
+    const recurringBadge = (
+        <span title="Recorrente" className="text-[var(--color-text-secondary)] flex-shrink-0">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+        </span>
+    );
+
+    const renderAttachments = (t: Transaction) => t.attachments && t.attachments.length > 0 && (
+        <AttachmentGallery store={attachmentStore} attachments={t.attachments} onOpen={index => setViewingAttachments({ attachments: t.attachments!, index })} />
+    );
+
     const renderTransactionRow = (t: Transaction, isSubItem: boolean = false) => {
-        const category = categories.find(c => c.name === t.category);
+        const category = categories.find(c => c.id === t.categoryId);
         const hasSubItems = t.subItems && t.subItems.length > 0;
-        const isExpanded = expanded[t.id];
+        const isOpen = isExpanded(t.id);
 
         return (
             <React.Fragment key={t.id}>
                 <tr className={`border-b border-[var(--color-border)] ${!isSubItem ? 'bg-[var(--color-bg-secondary)]' : 'bg-[var(--color-bg-secondary)]/50'}`}>
+                    <td className="py-3 pl-4 w-8">{!isSubItem && selectionCheckbox(t)}</td>
                     <td className={`py-3 px-4 ${isSubItem ? 'pl-12' : ''}`}>
                         <div className="flex items-center gap-3">
                             {!isSubItem && hasSubItems && (
                                 <button onClick={() => toggleExpand(t.id)} className="p-1 rounded-full hover:bg-[var(--color-border)]">
-                                     <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform duration-200 ${isExpanded ? 'rotate-90' : 'rotate-0'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
+                                     <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform duration-200 ${isOpen ? 'rotate-90' : 'rotate-0'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
                                 </button>
                             )}
                              {!isSubItem && !hasSubItems && <div className="w-6"></div>}
                             <div className="flex items-center gap-3">
                                 <span className="p-2 bg-[var(--color-border)] rounded-lg">
-                                    <Icon name={category?.icon} className="h-5 w-5" />
+                                    <Icon name={isTransfer(t) ? 'credit_card' : category?.icon} className="h-5 w-5" />
                                 </span>
                                 <div>
                                     <div className="flex items-center gap-1.5">
                                         <p className="font-medium text-[var(--color-text-primary)]">{t.description}</p>
+                                        {(t.recurrence || t.seriesId) && recurringBadge}
                                         {isSubItem && t.notes && (
                                             <button 
                                                 onClick={() => onShowNote(t.notes!)} 
@@ -567,14 +1749,19 @@ const TransactionsPage: React.FC<{
                                             </button>
                                         )}
                                     </div>
-                                    <p className="text-sm text-[var(--color-text-secondary)]">{t.category}</p>
+                                    <p className="text-sm text-[var(--color-text-secondary)]">
+                                        {isTransfer(t) ? `${accountName(t.accountId)} → ${accountName(t.toAccountId)}` : category?.name}
+                                        {!isTransfer(t) && !isSubItem && accounts.length > 1 && <> &middot; {accountName(t.accountId)}</>}
+                                    </p>
+                                    {renderTags(t)}
+                                    {renderAttachments(t)}
                                 </div>
                             </div>
                         </div>
                     </td>
                     <td className="py-3 px-4 text-[var(--color-text-secondary)]">{new Date(t.date).toLocaleDateString('pt-BR')}</td>
-                    <td className={`py-3 px-4 text-right font-semibold ${t.type === TransactionType.INCOME ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]'}`}>
-                        {t.type === TransactionType.INCOME ? '+' : '-'} {formatCurrency(t.amount, currency)}
+                    <td className={`py-3 px-4 text-right font-semibold ${amountClass(t)}`}>
+                        {renderAmount(t)}
                     </td>
                     <td className="py-3 px-4">
                         <div className="flex items-center justify-end gap-2">
@@ -592,27 +1779,29 @@ const TransactionsPage: React.FC<{
                         </div>
                     </td>
                 </tr>
-                {hasSubItems && isExpanded && t.subItems!.map(sub => renderTransactionRow(sub, true))}
+                {hasSubItems && isOpen && t.subItems!.map(sub => renderTransactionRow(sub, true))}
             </React.Fragment>
         );
     };
 
     const renderTransactionCard = (t: Transaction, isSubItem: boolean = false) => {
-        const category = categories.find(c => c.name === t.category);
+        const category = categories.find(c => c.id === t.categoryId);
         const hasSubItems = t.subItems && t.subItems.length > 0;
-        const isExpanded = expanded[t.id];
+        const isOpen = isExpanded(t.id);
 
         return (
             <React.Fragment key={t.id}>
                 <div className={`p-4 rounded-lg ${!isSubItem ? 'bg-[var(--color-bg-secondary)]' : 'bg-[var(--color-bg-secondary)]/50 ml-4'}`}>
                     <div className="flex justify-between items-start gap-3">
                         <div className="flex items-center gap-3 flex-grow min-w-0">
+                            {!isSubItem && selectionCheckbox(t)}
                             <span className="p-2 bg-[var(--color-border)] rounded-lg flex-shrink-0">
-                                <Icon name={category?.icon} className="h-5 w-5" />
+                                <Icon name={isTransfer(t) ? 'credit_card' : category?.icon} className="h-5 w-5" />
                             </span>
                             <div className="min-w-0">
                                 <div className="flex items-center gap-2">
                                     <p className="font-medium text-[var(--color-text-primary)] truncate">{t.description}</p>
+                                    {(t.recurrence || t.seriesId) && recurringBadge}
                                     {isSubItem && t.notes && (
                                         <button 
                                             onClick={() => onShowNote(t.notes!)} 
@@ -624,19 +1813,24 @@ const TransactionsPage: React.FC<{
                                         </button>
                                     )}
                                 </div>
-                                <p className="text-sm text-[var(--color-text-secondary)]">{new Date(t.date).toLocaleDateString('pt-BR')}</p>
+                                <p className="text-sm text-[var(--color-text-secondary)]">
+                                    {new Date(t.date).toLocaleDateString('pt-BR')}
+                                    {isTransfer(t) && <> &middot; {accountName(t.accountId)} → {accountName(t.toAccountId)}</>}
+                                </p>
+                                {renderTags(t)}
+                                {renderAttachments(t)}
                             </div>
                         </div>
-                        <p className={`font-semibold text-right flex-shrink-0 ${t.type === TransactionType.INCOME ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]'}`}>
-                            {t.type === TransactionType.INCOME ? '+' : '-'} {formatCurrency(t.amount, currency)}
+                        <p className={`font-semibold text-right flex-shrink-0 ${amountClass(t)}`}>
+                            {renderAmount(t)}
                         </p>
                     </div>
                     
                     <div className="flex items-center justify-end gap-2 mt-3 pt-3 border-t border-[var(--color-border)]/50">
                         {hasSubItems && (
                             <button onClick={() => toggleExpand(t.id)} className="p-1 rounded-full hover:bg-[var(--color-border)] mr-auto flex items-center gap-1 text-[var(--color-text-secondary)] text-sm">
-                                <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform duration-200 ${isExpanded ? 'rotate-90' : 'rotate-0'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
-                                {isExpanded ? 'Ocultar' : 'Mostrar'} subitens ({t.subItems!.length})
+                                <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform duration-200 ${isOpen ? 'rotate-90' : 'rotate-0'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
+                                {isOpen ? 'Ocultar' : 'Mostrar'} subitens ({t.subItems!.length})
                             </button>
                         )}
                         {!isSubItem && (
@@ -652,7 +1846,7 @@ const TransactionsPage: React.FC<{
                         </Button>
                     </div>
                 </div>
-                {hasSubItems && isExpanded && (
+                {hasSubItems && isOpen && (
                     <div className="space-y-2 mt-2">
                         {t.subItems!.map(sub => renderTransactionCard(sub, true))}
                     </div>
@@ -665,23 +1859,16 @@ const TransactionsPage: React.FC<{
         <div className="p-4 md:p-8 space-y-6">
             <div className="flex flex-wrap justify-between items-center gap-4">
                 <h1 className="text-3xl md:text-4xl font-bold text-[var(--color-text-primary)]">Transações</h1>
-                <div className="flex flex-col sm:flex-row items-center gap-4">
-                     {availableMonths.length > 0 && (
-                        <div className="w-full sm:w-auto sm:max-w-xs">
-                            <Select
-                                value={selectedMonth}
-                                onChange={(e) => onMonthChange(e.target.value)}
-                                aria-label="Filtrar por mês"
-                            >
-                                <option value="all">Todos os Meses</option>
-                                {availableMonths.map(month => (
-                                    <option key={month} value={month}>
-                                        {formatMonthYear(month)}
-                                    </option>
-                                ))}
-                            </Select>
-                        </div>
-                    )}
+                <div className="flex flex-col sm:flex-row flex-wrap items-center gap-4">
+                    <PeriodPicker period={period} onChange={onPeriodChange} availableMonths={availableMonths} formatMonthYear={formatMonthYear} />
+                    <Button variant="secondary" onClick={() => setShowFilters(!showFilters)}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+                        Filtros{isFiltering && ' •'}
+                    </Button>
+                    <Button variant="secondary" onClick={onManageRecurring}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                        Recorrências
+                    </Button>
                     <Button onClick={() => onAddTransaction()}>
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" /></svg>
                         Adicionar Transação
@@ -689,6 +1876,86 @@ const TransactionsPage: React.FC<{
                 </div>
             </div>
 
+            <Input
+                type="search"
+                placeholder="Buscar na descrição, anotações e subitens..."
+                value={filters.query}
+                onChange={e => updateFilter('query', e.target.value)}
+                aria-label="Buscar transações"
+            />
+
+            {showFilters && (
+                <Card>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <Select label="Categoria" value={filters.categoryId} onChange={e => updateFilter('categoryId', e.target.value)}>
+                            <option value="all">Todas</option>
+                            <CategoryOptions categories={categories} visible={filters.type === 'all' ? categories : getCategoriesForType(categories, filters.type)} />
+                        </Select>
+                        <Select label="Tipo" value={filters.type} onChange={e => updateFilter('type', e.target.value as TransactionFilters['type'])}>
+                            <option value="all">Todos</option>
+                            <option value={TransactionType.EXPENSE}>Despesa</option>
+                            <option value={TransactionType.INCOME}>Receita</option>
+                            <option value={TransactionType.TRANSFER}>Transferência</option>
+                        </Select>
+                        {accounts.length > 1 ? (
+                            <Select label="Conta" value={filters.accountId} onChange={e => updateFilter('accountId', e.target.value)}>
+                                <option value="all">Todas as Contas</option>
+                                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </Select>
+                        ) : <div className="hidden lg:block" />}
+                        <Select label="Tag" value={filters.tagId} onChange={e => updateFilter('tagId', e.target.value)}>
+                            <option value="all">Todas as Tags</option>
+                            {tags.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </Select>
+                        <Input label={`Valor mínimo (${currency})`} type="number" step="0.01" min="0" value={filters.minAmount} onChange={e => updateFilter('minAmount', e.target.value)} />
+                        <Input label={`Valor máximo (${currency})`} type="number" step="0.01" min="0" value={filters.maxAmount} onChange={e => updateFilter('maxAmount', e.target.value)} />
+                        <Input label="De" type="date" value={filters.startDate} onChange={e => updateFilter('startDate', e.target.value)} />
+                        <Input label="Até" type="date" value={filters.endDate} onChange={e => updateFilter('endDate', e.target.value)} />
+                    </div>
+                    <div className="flex justify-end mt-4">
+                        <Button variant="secondary" onClick={() => setFilters(EMPTY_FILTERS)} disabled={!isFiltering}>Limpar filtros</Button>
+                    </div>
+                </Card>
+            )}
+
+            {visibleSelection.length > 0 && (
+                <Card className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-[var(--color-text-primary)] mr-2">
+                        {visibleSelection.length} {visibleSelection.length === 1 ? 'selecionada' : 'selecionadas'}
+                    </span>
+                    {!allVisibleSelected && (
+                        <Button variant="secondary" onClick={toggleSelectAll}>Selecionar todas ({filteredTransactions.length})</Button>
+                    )}
+                    <Button variant="secondary" onClick={() => openBulkAction('category')}>Alterar categoria</Button>
+                    <Button variant="secondary" onClick={() => openBulkAction('date')}>Alterar data</Button>
+                    <Button variant="secondary" onClick={() => openBulkAction('duplicate')}>Duplicar para outro mês</Button>
+                    <Button variant="secondary" onClick={() => openBulkAction('makeSubItems')} disabled={parentCandidates.length === 0}>Transformar em subitens</Button>
+                    <Button variant="danger" onClick={() => openBulkAction('delete')}>Excluir</Button>
+                    <Button variant="secondary" className="ml-auto" onClick={() => setSelectedIds(new Set())}>Limpar seleção</Button>
+                </Card>
+            )}
+
+            {(isFiltering || range) && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <Card>
+                        <p className="text-sm text-[var(--color-text-secondary)]">Transações</p>
+                        <p className="text-xl font-bold text-[var(--color-text-primary)]">{totals.count}</p>
+                    </Card>
+                    <Card>
+                        <p className="text-sm text-[var(--color-text-secondary)]">Receitas</p>
+                        <p className="text-xl font-bold text-[var(--color-success)]">{formatCurrency(totals.income, currency)}</p>
+                    </Card>
+                    <Card>
+                        <p className="text-sm text-[var(--color-text-secondary)]">Despesas</p>
+                        <p className="text-xl font-bold text-[var(--color-danger)]">{formatCurrency(totals.expense, currency)}</p>
+                    </Card>
+                    <Card>
+                        <p className="text-sm text-[var(--color-text-secondary)]">Saldo</p>
+                        <p className={`text-xl font-bold ${totals.balance >= 0 ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]'}`}>{formatCurrency(totals.balance, currency)}</p>
+                    </Card>
+                </div>
+            )}
+
             <Card>
                  {/* Mobile View: Cards */}
                 <div className="space-y-4 md:hidden">
@@ -696,7 +1963,7 @@ const TransactionsPage: React.FC<{
                         filteredTransactions.map(t => renderTransactionCard(t))
                     ) : (
                         <p className="text-center py-10 text-[var(--color-text-secondary)]">
-                            Nenhuma transação encontrada para este período.
+                            {isFiltering ? 'Nenhuma transação corresponde aos filtros.' : 'Nenhuma transação encontrada para este período.'}
                         </p>
                     )}
                 </div>
@@ -706,6 +1973,15 @@ const TransactionsPage: React.FC<{
                     <table className="w-full text-left">
                         <thead>
                             <tr className="border-b border-[var(--color-border)]">
+                                <th className="py-3 pl-4 w-8">
+                                    <input
+                                        type="checkbox"
+                                        checked={allVisibleSelected}
+                                        onChange={toggleSelectAll}
+                                        className="h-4 w-4 cursor-pointer accent-[var(--color-accent)]"
+                                        aria-label="Selecionar todas as transações do filtro"
+                                    />
+                                </th>
                                 <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)]">Descrição</th>
                                 <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)]">Data</th>
                                 <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)] text-right">Valor</th>
@@ -717,8 +1993,8 @@ const TransactionsPage: React.FC<{
                                 filteredTransactions.map(t => renderTransactionRow(t))
                             ) : (
                                 <tr>
-                                    <td colSpan={4} className="text-center py-10 text-[var(--color-text-secondary)]">
-                                        Nenhuma transação encontrada para este período.
+                                    <td colSpan={5} className="text-center py-10 text-[var(--color-text-secondary)]">
+                                        {isFiltering ? 'Nenhuma transação corresponde aos filtros.' : 'Nenhuma transação encontrada para este período.'}
                                     </td>
                                 </tr>
                             )}
@@ -726,28 +2002,421 @@ const TransactionsPage: React.FC<{
                     </table>
                 </div>
             </Card>
+
+            <ConfirmationModal
+                isOpen={pendingBulkAction !== null}
+                onClose={() => setPendingBulkAction(null)}
+                onConfirm={confirmBulkAction}
+                title={pendingBulkAction ? BULK_ACTION_TITLES[pendingBulkAction] : ''}
+                confirmText={pendingBulkAction === 'delete' ? 'Excluir' : 'Aplicar'}
+                confirmVariant={pendingBulkAction === 'delete' ? 'danger' : 'primary'}
+            >
+                <div className="space-y-4">
+                    <p>
+                        {pendingBulkAction === 'delete'
+                            ? <>Excluir <strong>{visibleSelection.length}</strong> {visibleSelection.length === 1 ? 'transação' : 'transações'} e seus subitens? Você poderá desfazer logo em seguida.</>
+                            : <>A ação será aplicada a <strong>{visibleSelection.length}</strong> {visibleSelection.length === 1 ? 'transação selecionada' : 'transações selecionadas'}.</>}
+                    </p>
+                    {pendingBulkAction === 'category' && (
+                        <Select label="Nova categoria" value={bulkValue} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBulkValue(e.target.value)}>
+                            <CategoryOptions categories={categories} visible={bulkCategories} />
+                        </Select>
+                    )}
+                    {pendingBulkAction === 'category' && bulkCategorySkipped > 0 && (
+                        <p className="text-sm text-[var(--color-text-secondary)]">
+                            {bulkCategorySkipped === 1 ? '1 transação não aceita' : `${bulkCategorySkipped} transações não aceitam`} esta categoria (transferências ou de outro tipo) e {bulkCategorySkipped === 1 ? 'será mantida como está' : 'serão mantidas como estão'}.
+                        </p>
+                    )}
+                    {pendingBulkAction === 'date' && (
+                        <Input label="Nova data" type="date" value={bulkValue} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBulkValue(e.target.value)} />
+                    )}
+                    {pendingBulkAction === 'duplicate' && (
+                        <Input label="Mês de destino" type="month" value={bulkValue} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBulkValue(e.target.value)} />
+                    )}
+                    {pendingBulkAction === 'makeSubItems' && (
+                        <>
+                            <Select label="Transação principal" value={bulkValue} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBulkValue(e.target.value)}>
+                                {parentCandidates.map(t => (
+                                    <option key={t.id} value={t.id}>
+                                        {new Date(t.date).toLocaleDateString('pt-BR', { timeZone: 'UTC' })} · {t.description}
+                                    </option>
+                                ))}
+                            </Select>
+                            <p className="text-sm text-[var(--color-text-secondary)]">
+                                O valor da transação principal passará a ser a soma dos subitens. Transferências e transações que já têm subitens serão ignoradas.
+                            </p>
+                        </>
+                    )}
+                </div>
+            </ConfirmationModal>
+            {viewingAttachments && (
+                <AttachmentViewer store={attachmentStore} attachments={viewingAttachments.attachments} startIndex={viewingAttachments.index} onClose={closeAttachmentViewer} />
+            )}
+        </div>
+    );
+};
+
+// --- GOALS PAGE ---
+const ProgressRing: React.FC<{ ratio: number; color: string; size?: number }> = ({ ratio, color, size = 96 }) => {
+    const stroke = 8;
+    const radius = (size - stroke) / 2;
+    const circumference = 2 * Math.PI * radius;
+    return (
+        <div className="relative flex-shrink-0" style={{ width: size, height: size }}>
+            <svg width={size} height={size} className="-rotate-90">
+                <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="var(--color-border)" strokeWidth={stroke} />
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={stroke}
+                    strokeLinecap="round"
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - ratio)}
+                    className="transition-all duration-500"
+                />
+            </svg>
+            <span className="absolute inset-0 flex items-center justify-center text-lg font-bold text-[var(--color-text-primary)]">{Math.floor(ratio * 100)}%</span>
+        </div>
+    );
+};
+
+const GoalModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (goal: Goal) => void;
+    editingGoal: Goal | null;
+    currency: string;
+}> = ({ isOpen, onClose, onSave, editingGoal, currency }) => {
+    const [name, setName] = useState('');
+    const [targetAmount, setTargetAmount] = useState<number | ''>('');
+    const [initialAmount, setInitialAmount] = useState<number | ''>('');
+    const [deadline, setDeadline] = useState('');
+
+    useEffect(() => {
+        setName(editingGoal?.name ?? '');
+        setTargetAmount(editingGoal?.targetAmount ?? '');
+        setInitialAmount(editingGoal?.initialAmount || '');
+        setDeadline(editingGoal?.deadline ? editingGoal.deadline.slice(0, 10) : '');
+    }, [editingGoal, isOpen]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || !(+targetAmount > 0)) return;
+        onSave({
+            id: editingGoal?.id ?? `goal${Date.now()}`,
+            name: name.trim(),
+            targetAmount: +targetAmount,
+            initialAmount: +initialAmount || 0,
+            deadline: deadline ? new Date(deadline).toISOString() : undefined,
+            createdAt: editingGoal?.createdAt ?? new Date(new Date().toISOString().slice(0, 10)).toISOString(),
+        });
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={editingGoal ? 'Editar Meta' : 'Nova Meta'}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <Input label="Nome" value={name} onChange={e => setName(e.target.value)} placeholder="Ex: Reserva de emergência" required />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Input label={`Valor da meta (${currency})`} type="number" step="0.01" min="0.01" value={targetAmount} onChange={e => setTargetAmount(e.target.value === '' ? '' : parseFloat(e.target.value))} required />
+                    <Input label={`Já guardado (${currency})`} type="number" step="0.01" value={initialAmount} onChange={e => setInitialAmount(e.target.value === '' ? '' : parseFloat(e.target.value))} />
+                </div>
+                <Input label="Prazo (opcional)" type="date" value={deadline} onChange={e => setDeadline(e.target.value)} />
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                    Para registrar um aporte, vincule a transação à meta no formulário da transação. Receitas vinculadas contam como resgates.
+                </p>
+                <div className="flex justify-end gap-3 pt-4">
+                    <Button type="button" variant="secondary" onClick={onClose}>Cancelar</Button>
+                    <Button type="submit" variant="primary">Salvar</Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+const GoalsPage: React.FC<{
+    goals: Goal[];
+    transactions: Transaction[];
+    currency: string;
+    onSaveGoal: (goal: Goal) => void;
+    onDeleteGoal: (goalId: string) => void;
+}> = ({ goals, transactions, currency, onSaveGoal, onDeleteGoal }) => {
+    const [isGoalModalOpen, setGoalModalOpen] = useState(false);
+    const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+    const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null);
+
+    const progressByGoal = useMemo(
+        () => new Map(goals.map(goal => [goal.id, getGoalProgress(goal, transactions)])),
+        [goals, transactions]
+    );
+
+    const formatDay = (iso: string) => new Date(iso).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+    const formatMonth = (iso: string) => new Date(iso).toLocaleDateString('pt-BR', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+    const openGoalModal = (goal: Goal | null) => {
+        setEditingGoal(goal);
+        setGoalModalOpen(true);
+    };
+
+    return (
+        <div className="p-4 md:p-8 space-y-6 md:space-y-8">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h1 className="text-3xl md:text-4xl font-bold text-[var(--color-text-primary)]">Metas</h1>
+                <Button onClick={() => openGoalModal(null)}>Nova meta</Button>
+            </div>
+            {goals.length === 0 ? (
+                <Card>
+                    <p className="text-[var(--color-text-secondary)]">
+                        Nenhuma meta ainda. Crie uma, como "Reserva de emergência: R$ 20.000 até dez/2027", e vincule a ela as transações em que você guarda dinheiro.
+                    </p>
+                </Card>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {goals.map(goal => {
+                        const progress = progressByGoal.get(goal.id)!;
+                        const ringColor = progress.completed ? 'var(--color-success)' : progress.onTrack === false ? 'var(--color-danger)' : 'var(--color-accent)';
+                        const isExpanded = expandedGoalId === goal.id;
+                        return (
+                            <Card key={goal.id}>
+                                <div className="flex items-start gap-4">
+                                    <ProgressRing ratio={progress.ratio} color={ringColor} />
+                                    <div className="flex-grow min-w-0 space-y-1">
+                                        <div className="flex items-start justify-between gap-2">
+                                            <h2 className="text-xl font-bold text-[var(--color-text-primary)] truncate">{goal.name}</h2>
+                                            <div className="flex gap-2 flex-shrink-0">
+                                                <Button variant="secondary" className="p-2" onClick={() => openGoalModal(goal)} title="Editar">
+                                                    <Icon name="pencil" className="h-4 w-4" />
+                                                </Button>
+                                                <Button variant="danger" className="p-2" onClick={() => onDeleteGoal(goal.id)} title="Excluir">
+                                                    <Icon name="x_mark" className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        </div>
+                                        <p className="text-[var(--color-text-primary)]">
+                                            <strong>{formatCurrency(progress.saved, currency)}</strong> de {formatCurrency(goal.targetAmount, currency)}
+                                        </p>
+                                        {goal.deadline && <p className="text-sm text-[var(--color-text-secondary)]">Prazo: {formatDay(goal.deadline)}</p>}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4 text-sm">
+                                    <div className="bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                                        <p className="text-[var(--color-text-secondary)]">Aporte mensal necessário</p>
+                                        <p className="font-semibold">{progress.monthlyRequired !== undefined ? formatCurrency(progress.monthlyRequired, currency) : '—'}</p>
+                                    </div>
+                                    <div className="bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                                        <p className="text-[var(--color-text-secondary)]">Ritmo atual</p>
+                                        <p className="font-semibold">{formatCurrency(progress.monthlyRate, currency)}/mês</p>
+                                    </div>
+                                    <div className="bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                                        <p className="text-[var(--color-text-secondary)]">Conclusão prevista</p>
+                                        <p className={`font-semibold ${progress.onTrack === false ? 'text-[var(--color-danger)]' : ''}`}>
+                                            {progress.completed ? 'Concluída' : progress.projectedDate ? formatMonth(progress.projectedDate) : 'Sem aportes'}
+                                        </p>
+                                    </div>
+                                </div>
+                                {progress.onTrack === false && (
+                                    <p className="text-sm text-[var(--color-danger)] mt-3">
+                                        No ritmo atual, a meta não será atingida no prazo. Faltam {formatCurrency(progress.remaining, currency)}.
+                                    </p>
+                                )}
+                                <div className="mt-4 pt-3 border-t border-[var(--color-border)]">
+                                    {progress.contributions.length === 0 ? (
+                                        <p className="text-sm text-[var(--color-text-secondary)]">Nenhuma transação vinculada</p>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            onClick={() => setExpandedGoalId(isExpanded ? null : goal.id)}
+                                            className="text-sm font-medium text-[var(--color-accent)] hover:underline"
+                                        >
+                                            {isExpanded ? 'Ocultar' : 'Ver'} aportes ({progress.contributions.length})
+                                        </button>
+                                    )}
+                                    {isExpanded && (
+                                        <ul className="mt-2 divide-y divide-[var(--color-border)] max-h-60 overflow-y-auto">
+                                            {progress.contributions.map(t => {
+                                                const amount = getContributionAmount(t);
+                                                return (
+                                                    <li key={t.id} className="flex justify-between gap-3 py-2 text-sm">
+                                                        <span className="min-w-0 truncate">
+                                                            <span className="text-[var(--color-text-secondary)]">{formatDay(t.date)}</span> {t.description}
+                                                        </span>
+                                                        <span className={`flex-shrink-0 font-medium ${amount < 0 ? 'text-[var(--color-danger)]' : 'text-[var(--color-success)]'}`}>
+                                                            {amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(amount), currency)}
+                                                        </span>
+                                                    </li>
+                                                );
+                                            })}
+                                        </ul>
+                                    )}
+                                </div>
+                            </Card>
+                        );
+                    })}
+                </div>
+            )}
+            <GoalModal
+                isOpen={isGoalModalOpen}
+                onClose={() => setGoalModalOpen(false)}
+                onSave={onSaveGoal}
+                editingGoal={editingGoal}
+                currency={currency}
+            />
         </div>
     );
 };
 
 // --- REPORTS PAGE ---
+// More spending is shown in red and more income in green; a category with nothing before has no percentage
+const ComparisonDelta: React.FC<{ delta: number; percent: number | null; type: TransactionType; currency: string }> = ({ delta, percent, type, currency }) => {
+    const rounded = Math.round(delta * 100) / 100;
+    const isGood = type === TransactionType.INCOME ? rounded > 0 : rounded < 0;
+    const color = rounded === 0 ? 'text-[var(--color-text-secondary)]' : isGood ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]';
+    const sign = rounded > 0 ? '+' : rounded < 0 ? '-' : '';
+    return (
+        <span className={`font-medium ${color}`}>
+            {sign}{formatCurrency(Math.abs(rounded), currency)}
+            {' '}({percent === null ? 'novo' : `${sign}${Math.abs(percent).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`})
+        </span>
+    );
+};
+
+// Builds the report for a whole month or year and opens it in a new window, where the browser prints it or saves it as PDF
+const PrintReportModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    userData: UserData;
+    period: Period;
+    availableMonths: string[];
+    formatMonthYear: (month: string) => string;
+}> = ({ isOpen, onClose, userData, period, availableMonths, formatMonthYear }) => {
+    const [kind, setKind] = useState<ReportKind>('month');
+    const [month, setMonth] = useState('');
+    const [year, setYear] = useState('');
+    const [includeAppendix, setIncludeAppendix] = useState(true);
+
+    const currentMonth = new Date().toISOString().slice(0, 7);
+    const months = availableMonths.length > 0 ? availableMonths : [currentMonth];
+    const years = Array.from(new Set(months.map(m => m.slice(0, 4))));
+
+    // Start from the period shown on the page when it is a month or a year
+    useEffect(() => {
+        if (!isOpen) return;
+        const shownMonth = period.kind === 'month' || period.kind === 'year' ? period.start.slice(0, 7) : months[0];
+        setKind(period.kind === 'year' ? 'year' : 'month');
+        setMonth(months.includes(shownMonth) ? shownMonth : months[0]);
+        setYear(shownMonth.slice(0, 4));
+    }, [isOpen]);
+
+    const handleGenerate = () => {
+        const reportPeriod = kind === 'year' ? createPeriod('year', `${year}-01-01`) : createPeriod('month', `${month}-01`);
+        const range = getPeriodRange(reportPeriod)!;
+        const report = buildFinancialReport(userData.transactions, userData.categories, kind, range);
+        const html = renderReportHtml(report, userData.categories, userData.accounts, {
+            title: `Relatório Financeiro ${REPORT_KIND_LABELS[kind]}`,
+            periodLabel: formatPeriod(reportPeriod),
+            formatMoney: value => formatCurrency(value, userData.currency),
+            includeAppendix,
+        });
+        const reportWindow = window.open('', '_blank');
+        if (!reportWindow) {
+            alert('Não foi possível abrir o relatório. Permita pop-ups para este site e tente novamente.');
+            return;
+        }
+        reportWindow.document.write(html);
+        reportWindow.document.close();
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Gerar Relatório">
+            <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Select label="Tipo" value={kind} onChange={e => setKind(e.target.value as ReportKind)}>
+                        {(Object.keys(REPORT_KIND_LABELS) as ReportKind[]).map(k => <option key={k} value={k}>{REPORT_KIND_LABELS[k]}</option>)}
+                    </Select>
+                    {kind === 'month' ? (
+                        <Select label="Mês" value={month} onChange={e => setMonth(e.target.value)}>
+                            {months.map(m => <option key={m} value={m}>{formatMonthYear(m)}</option>)}
+                        </Select>
+                    ) : (
+                        <Select label="Ano" value={year} onChange={e => setYear(e.target.value)}>
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </Select>
+                    )}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-[var(--color-text-primary)]">
+                    <input type="checkbox" checked={includeAppendix} onChange={e => setIncludeAppendix(e.target.checked)} />
+                    Incluir anexo com todas as transações, sub-itens e observações
+                </label>
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                    O relatório abre em uma nova janela com resumo, gráficos e maiores despesas. Na janela de impressão, escolha "Salvar como PDF" para guardar o arquivo.
+                </p>
+                <div className="flex justify-end gap-3 pt-4">
+                    <Button type="button" variant="secondary" onClick={onClose}>Cancelar</Button>
+                    <Button type="button" variant="primary" onClick={handleGenerate}>Gerar relatório</Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
 const ReportsPage: React.FC<{
     userData: UserData;
-    selectedMonth: string;
-    onMonthChange: (month: string) => void;
+    period: Period;
+    onPeriodChange: (period: Period) => void;
     availableMonths: string[];
     formatMonthYear: (month: string) => string;
-}> = ({ userData, selectedMonth, onMonthChange, availableMonths, formatMonthYear }) => {
+}> = ({ userData, period, onPeriodChange, availableMonths, formatMonthYear }) => {
     const { categories, theme, currency } = userData;
 
-    const filteredTransactions = useMemo(() => {
-        if (selectedMonth === 'all') {
-            return userData.transactions;
-        }
-        return userData.transactions.filter(t => t.date.startsWith(selectedMonth));
-    }, [userData.transactions, selectedMonth]);
+    const range = getPeriodRange(period);
+    const filteredTransactions = useMemo(
+        () => userData.transactions.filter(t => isInRange(t.date, range)),
+        [userData.transactions, range?.start, range?.end]
+    );
 
-    const { monthlyBalanceData, expenseByCategoryData } = processChartData(filteredTransactions);
+    const [isPrintModalOpen, setPrintModalOpen] = useState(false);
+
+    // Comparison with the period just before, e.g. this month against last month
+    const [isComparing, setComparing] = useState(false);
+    const previousRange = isComparing ? getPreviousRange(period) : null;
+    const comparison = useMemo(() => {
+        if (!previousRange) return null;
+        const previousTransactions = userData.transactions.filter(t => isInRange(t.date, previousRange));
+        const rows = compareByCategory(filteredTransactions, previousTransactions, categories);
+        const total = (type: TransactionType, key: 'current' | 'previous') => rows.filter(r => r.type === type).reduce((sum, r) => sum + r[key], 0);
+        const totals = [TransactionType.INCOME, TransactionType.EXPENSE].map(type => ({
+            type,
+            current: total(type, 'current'),
+            previous: total(type, 'previous'),
+        }));
+        return { rows, totals };
+    }, [filteredTransactions, userData.transactions, categories, previousRange?.start, previousRange?.end]);
+
+    const { monthlyBalanceData, expenseByCategoryData } = processChartData(withCategoryNames(excludeTransfers(filteredTransactions), categories));
+
+    // Sub-categories are rolled up into their parent; clicking a parent's slice opens its breakdown
+    const [drillCategory, setDrillCategory] = useState<string | null>(null);
+    const pieData = useMemo(
+        () => rollUpCategoryData(expenseByCategoryData, categories, drillCategory ?? undefined),
+        [expenseByCategoryData, categories, drillCategory]
+    );
+
+    const budgetMonth = getBudgetMonth(getPeriodMonth(period));
+    const budgetVsActualData = useMemo(
+        () => getBudgetStatuses(userData.transactions, categories, userData.budgets, budgetMonth)
+            .map(b => ({ name: b.category.name, 'Orçamento': b.limit, 'Realizado': b.spent, level: b.level })),
+        [userData.transactions, categories, userData.budgets, budgetMonth]
+    );
+
+    const spendingByTag = useMemo(
+        () => getSpendingByTag(userData.transactions, userData.tags, range),
+        [userData.transactions, userData.tags, range?.start, range?.end]
+    );
+    const maxTagSpending = spendingByTag[0]?.spent ?? 0;
     
     // FIX: The 'activeIndex' prop on recharts' Pie component is causing a TypeScript error,
     // likely due to outdated type definitions. To work around this without suppressing the error,
@@ -766,6 +2435,14 @@ const ReportsPage: React.FC<{
         setActiveSliceProps(null);
     }, []);
 
+    const openPieSlice = (index: number) => {
+        const entry = pieData[index];
+        if (!drillCategory && entry?.hasChildren) {
+            setDrillCategory(entry.name);
+            onPieLeave();
+        }
+    };
+
     const PIE_COLORS = theme === 'galaxy'
         ? ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#0088fe', '#00c49f', '#ffbb28']
         : ['#3b82f6', '#16a34a', '#f59e0b', '#ef4444', '#6366f1', '#10b981', '#f97316'];
@@ -773,6 +2450,7 @@ const ReportsPage: React.FC<{
     const chartColors = {
         barSuccess: theme === 'galaxy' ? '#4ade80' : '#16a34a',
         barDanger: theme === 'galaxy' ? '#f87171' : '#ef4444',
+        barWarning: theme === 'galaxy' ? '#facc15' : '#eab308',
         text: theme === 'galaxy' ? '#94a3b8' : '#6b7280',
     };
 
@@ -789,8 +2467,7 @@ const ReportsPage: React.FC<{
         const x = cx + radius * Math.cos(-midAngle * RADIAN);
         const y = cy + radius * Math.sin(-midAngle * RADIAN);
 
-        const category = expenseByCategoryData[index];
-        const categoryIcon = categories.find(c => c.name === category.name)?.icon;
+        const categoryIcon = pieData[index]?.icon;
         
         const percentage = (percent ?? 0) * 100;
         
@@ -814,34 +2491,87 @@ const ReportsPage: React.FC<{
         <div className="p-4 md:p-8 space-y-6 md:space-y-8">
             <div className="flex flex-wrap justify-between items-center gap-4">
                 <h1 className="text-3xl md:text-4xl font-bold text-[var(--color-text-primary)]">Relatórios</h1>
-                {availableMonths.length > 0 && (
-                    <div className="w-full sm:w-auto sm:max-w-xs">
-                        <Select
-                            value={selectedMonth}
-                            onChange={(e) => onMonthChange(e.target.value)}
-                            aria-label="Filtrar por mês"
-                        >
-                            <option value="all">Todos os Meses</option>
-                            {availableMonths.map(month => (
-                                <option key={month} value={month}>
-                                    {formatMonthYear(month)}
-                                </option>
-                            ))}
-                        </Select>
-                    </div>
-                )}
+                <div className="flex flex-wrap items-center gap-2">
+                    <PeriodPicker period={period} onChange={onPeriodChange} availableMonths={availableMonths} formatMonthYear={formatMonthYear} />
+                    <Button variant={isComparing ? 'primary' : 'secondary'} onClick={() => setComparing(!isComparing)} disabled={!range} title={range ? undefined : 'Escolha um período para comparar'}>
+                        Comparar com o período anterior
+                    </Button>
+                    <Button variant="secondary" onClick={() => setPrintModalOpen(true)}>Gerar PDF</Button>
+                </div>
             </div>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {comparison && previousRange && (
+                    <Card className="lg:col-span-2">
+                        <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-1">Comparação com o Período Anterior</h2>
+                        <p className="text-sm text-[var(--color-text-secondary)] mb-4">{formatPeriod(period)} comparado a {formatRange(previousRange)}</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+                            {comparison.totals.map(({ type, current, previous }) => (
+                                <div key={type} className="bg-[var(--color-bg-secondary)] p-4 rounded-lg">
+                                    <p className="text-sm text-[var(--color-text-secondary)]">{type === TransactionType.INCOME ? 'Receitas' : 'Despesas'}</p>
+                                    <p className="text-xl font-bold text-[var(--color-text-primary)]">{formatCurrency(current, currency)}</p>
+                                    <p className="text-sm text-[var(--color-text-secondary)]">
+                                        antes {formatCurrency(previous, currency)} &middot; <ComparisonDelta delta={current - previous} percent={previous !== 0 ? ((current - previous) / previous) * 100 : null} type={type} currency={currency} />
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+                        {comparison.rows.length > 0 ? (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-[var(--color-text-secondary)] border-b border-[var(--color-border)]">
+                                            <th className="py-2 px-3">Categoria</th>
+                                            <th className="py-2 px-3 text-right">Atual</th>
+                                            <th className="py-2 px-3 text-right">Anterior</th>
+                                            <th className="py-2 px-3 text-right">Variação</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.rows.map(row => (
+                                            <tr key={`${row.type}-${row.category.id}`} className="border-b border-[var(--color-border)] last:border-0">
+                                                <td className="py-2 px-3">
+                                                    <div className="flex items-center gap-2">
+                                                        <Icon name={row.category.icon} className="h-4 w-4 flex-shrink-0" />
+                                                        <span className="truncate">{row.category.name}</span>
+                                                        <span className="text-xs text-[var(--color-text-secondary)]">{row.type === TransactionType.INCOME ? 'Receita' : 'Despesa'}</span>
+                                                    </div>
+                                                </td>
+                                                <td className="py-2 px-3 text-right whitespace-nowrap">{formatCurrency(row.current, currency)}</td>
+                                                <td className="py-2 px-3 text-right whitespace-nowrap text-[var(--color-text-secondary)]">{formatCurrency(row.previous, currency)}</td>
+                                                <td className="py-2 px-3 text-right whitespace-nowrap">
+                                                    <ComparisonDelta delta={row.delta} percent={row.deltaPercent} type={row.type} currency={currency} />
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="text-center py-6 text-[var(--color-text-secondary)]">Nenhuma receita ou despesa nos dois períodos.</p>
+                        )}
+                    </Card>
+                )}
                 <Card>
-                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Despesas por Categoria</h2>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <h2 className="text-2xl font-bold text-[var(--color-text-primary)]">
+                            Despesas por Categoria{drillCategory && <> &middot; {drillCategory}</>}
+                        </h2>
+                        {drillCategory && (
+                            <Button variant="secondary" onClick={() => { setDrillCategory(null); onPieLeave(); }}>Voltar</Button>
+                        )}
+                    </div>
+                    {!drillCategory && pieData.some(entry => entry.hasChildren) && (
+                        <p className="text-sm text-[var(--color-text-secondary)] -mt-2 mb-2">Clique em uma categoria com subcategorias para ver o detalhamento.</p>
+                    )}
                      <div className="h-80 md:h-96">
-                        {expenseByCategoryData.length > 0 ? (
+                        {pieData.length > 0 ? (
                             <ResponsiveContainer width="100%" height="100%">
                                 <PieChart>
                                     <Pie
                                         onMouseEnter={onPieEnter}
                                         onMouseLeave={onPieLeave}
-                                        data={expenseByCategoryData}
+                                        onClick={(_: any, index: number) => openPieSlice(index)}
+                                        data={pieData}
                                         cx="50%"
                                         cy="50%"
                                         labelLine={false}
@@ -850,14 +2580,16 @@ const ReportsPage: React.FC<{
                                         fill="#8884d8"
                                         dataKey="value"
                                     >
-                                        {expenseByCategoryData.map((entry, index) => (
-                                            <Cell key={`cell-${index}`} fill={activeIndex === index ? 'transparent' : PIE_COLORS[index % PIE_COLORS.length]} />
+                                        {pieData.map((entry, index) => (
+                                            <Cell key={`cell-${index}`} fill={activeIndex === index ? 'transparent' : PIE_COLORS[index % PIE_COLORS.length]} className={entry.hasChildren ? 'cursor-pointer' : ''} />
                                         ))}
                                     </Pie>
                                     {activeSliceProps && (
                                         <Sector
                                             {...activeSliceProps}
                                             outerRadius={activeSliceProps.outerRadius + 8}
+                                            onClick={() => openPieSlice(activeIndex)}
+                                            className={pieData[activeIndex]?.hasChildren ? 'cursor-pointer' : ''}
                                         />
                                     )}
                                     <Tooltip
@@ -881,9 +2613,69 @@ const ReportsPage: React.FC<{
                     </div>
                 </Card>
                 <Card>
-                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Saldo Mensal</h2>
+                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Orçamento vs Realizado &middot; {formatMonthYear(budgetMonth)}</h2>
                      <div className="h-80 md:h-96">
-                        {monthlyBalanceData.length > 0 ? (
+                        {budgetVsActualData.length > 0 ? (
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={budgetVsActualData} margin={{ top: 20, right: 30, left: 20, bottom: 25 }}>
+                                    <XAxis dataKey="name" stroke={chartColors.text} angle={-30} textAnchor="end" height={60} tick={{ fontSize: 12 }} />
+                                    <YAxis stroke={chartColors.text} tickFormatter={(value) => formatCurrency(value as number, currency)}/>
+                                    <Tooltip
+                                        contentStyle={{
+                                            backgroundColor: tooltipColors.background,
+                                            borderColor: tooltipColors.border,
+                                            backdropFilter: 'blur(4px)',
+                                            borderRadius: '0.75rem',
+                                        }}
+                                        labelStyle={{ color: tooltipColors.label }}
+                                        formatter={(value: number) => formatCurrency(value, currency)}
+                                    />
+                                    <Legend wrapperStyle={{ color: tooltipColors.legend }} />
+                                    <Bar dataKey="Orçamento" fill={chartColors.text} radius={[4, 4, 0, 0]} animationDuration={800} />
+                                    <Bar dataKey="Realizado" radius={[4, 4, 0, 0]} animationDuration={800}>
+                                        {budgetVsActualData.map((entry, index) => (
+                                            <Cell key={`cell-${index}`} fill={entry.level === 'exceeded' ? chartColors.barDanger : entry.level === 'warning' ? chartColors.barWarning : chartColors.barSuccess} />
+                                        ))}
+                                    </Bar>
+                                </BarChart>
+                            </ResponsiveContainer>
+                        ) : (
+                            <div className="flex items-center justify-center h-full text-center text-[var(--color-text-secondary)]">
+                                Nenhum orçamento definido. Defina limites mensais por categoria em Configurações.
+                            </div>
+                        )}
+                    </div>
+                </Card>
+                <Card className="lg:col-span-2">
+                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Gastos por Tag</h2>
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-4">Uma despesa com várias tags conta em cada uma delas, então a soma pode passar do total gasto.</p>
+                    {spendingByTag.length > 0 ? (
+                        <div className="space-y-3">
+                            {spendingByTag.map(({ tag, spent, count }) => (
+                                <div key={tag.id}>
+                                    <div className="flex justify-between items-center gap-3 mb-1">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <TagChip tag={tag} />
+                                            <span className="text-xs text-[var(--color-text-secondary)]">{count} {count === 1 ? 'lançamento' : 'lançamentos'}</span>
+                                        </div>
+                                        <span className="font-semibold text-[var(--color-text-primary)]">{formatCurrency(spent, currency)}</span>
+                                    </div>
+                                    <div className="w-full h-2 rounded-full bg-[var(--color-border)] overflow-hidden">
+                                        <div className="h-full rounded-full" style={{ width: `${maxTagSpending > 0 ? (spent / maxTagSpending) * 100 : 0}%`, backgroundColor: tag.color }} />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-center py-6 text-[var(--color-text-secondary)]">
+                            {userData.tags.length > 0 ? 'Nenhuma despesa com tags neste período.' : 'Nenhuma tag criada. Adicione tags às transações para acompanhar gastos que atravessam categorias, como uma viagem.'}
+                        </p>
+                    )}
+                </Card>
+                <Card className="lg:col-span-2">
+                    <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Saldo Mensal</h2>
+                     <div className="h-80 md:h-96">
+                        {monthlyBalanceData.length > 0 ? (
                             <ResponsiveContainer width="100%" height="100%">
                                 <BarChart data={monthlyBalanceData} margin={{ top: 20, right: 30, left: 20, bottom: 25 }}>
                                     <XAxis dataKey="name" stroke={chartColors.text} angle={-30} textAnchor="end" height={60} tick={{ fontSize: 12 }} />
@@ -914,6 +2706,14 @@ const ReportsPage: React.FC<{
                     </div>
                 </Card>
             </div>
+            <PrintReportModal
+                isOpen={isPrintModalOpen}
+                onClose={() => setPrintModalOpen(false)}
+                userData={userData}
+                period={period}
+                availableMonths={availableMonths}
+                formatMonthYear={formatMonthYear}
+            />
         </div>
     );
 };
@@ -923,15 +2723,56 @@ const SettingsPage: React.FC<{
     userData: UserData;
     userProfile: UserProfile;
     onUpdateCategories: (categories: Category[]) => void;
+    onUpdateBudgets: (budgets: UserData['budgets']) => void;
+    onUpdateAccounts: (accounts: Account[]) => void;
+    onDeleteAccount: (accountId: string) => void;
     onUpdateCurrency: (currency: string) => void;
+    onUpdateExchangeRates: (rates: ExchangeRate[]) => void;
     onDeleteCategory: (categoryId: string) => void;
+    onMergeCategory: (categoryId: string) => void;
+    onUpdateTags: (tags: Tag[]) => void;
+    onDeleteTag: (tagId: string) => void;
     onUpdateTheme: (theme: 'galaxy' | 'minimalist') => void;
     onUpdateProfile: (profile: Partial<UserProfile>) => void;
-}> = ({ userData, userProfile, onUpdateCategories, onUpdateCurrency, onDeleteCategory, onUpdateTheme, onUpdateProfile }) => {
-    const { categories, currency, theme } = userData;
+    onImportTransactions: (transactions: Transaction[]) => void;
+    onRestoreBackup: (backup: BackupFile, mode: RestoreMode) => void;
+    onSetPin: (pin: string | null) => Promise<void>;
+    onLoadActivity: () => Promise<ActivityEntry[]>;
+    onLoadAttachmentUsage: () => Promise<AttachmentUsage>;
+}> = ({ userData, userProfile, onUpdateCategories, onUpdateBudgets, onUpdateAccounts, onDeleteAccount, onUpdateCurrency, onUpdateExchangeRates, onDeleteCategory, onMergeCategory, onUpdateTags, onDeleteTag, onUpdateTheme, onUpdateProfile, onImportTransactions, onRestoreBackup, onSetPin, onLoadActivity, onLoadAttachmentUsage }) => {
+    const { categories, budgets, accounts, tags, currency, theme, exchangeRates } = userData;
     const [newCategoryName, setNewCategoryName] = useState('');
+    const [newCategoryParentId, setNewCategoryParentId] = useState('');
+    const [newCategoryKind, setNewCategoryKind] = useState<CategoryKind>('expense');
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
 
+    const [newTagName, setNewTagName] = useState('');
+    const [editingTag, setEditingTag] = useState<Tag | null>(null);
+    const tagUsage = useMemo(() => countTagUsage(userData.transactions), [userData.transactions]);
+
+    const [newAccountName, setNewAccountName] = useState('');
+    const [newAccountType, setNewAccountType] = useState<AccountType>('checking');
+    const [newAccountBalance, setNewAccountBalance] = useState<number | ''>('');
+    const [newAccountClosingDay, setNewAccountClosingDay] = useState<number | ''>(DEFAULT_CLOSING_DAY);
+    const [newAccountDueDay, setNewAccountDueDay] = useState<number | ''>(DEFAULT_DUE_DAY);
+    const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+
+    const foreignCurrencies = CURRENCIES.filter(c => c.code !== currency);
+    const [newRateCurrency, setNewRateCurrency] = useState(foreignCurrencies[0]?.code ?? '');
+    const [newRateDate, setNewRateDate] = useState(new Date().toISOString().slice(0, 10));
+    const [newRateValue, setNewRateValue] = useState<number | ''>('');
+    const [rateImportMessage, setRateImportMessage] = useState('');
+    const rateInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (newRateCurrency === currency) setNewRateCurrency(foreignCurrencies[0]?.code ?? '');
+    }, [currency]);
+
+    const [isImportWizardOpen, setImportWizardOpen] = useState(false);
+    const [isExportModalOpen, setExportModalOpen] = useState(false);
+    const [backupToRestore, setBackupToRestore] = useState<BackupFile | null>(null);
+    const [backupError, setBackupError] = useState('');
+    const backupInputRef = useRef<HTMLInputElement>(null);
     const [isIconPickerOpen, setIconPickerOpen] = useState(false);
     const [categoryForIconChange, setCategoryForIconChange] = useState<Category | null>(null);
 
@@ -939,12 +2780,40 @@ const SettingsPage: React.FC<{
     const [editingDisplayName, setEditingDisplayName] = useState(userProfile.displayName);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const [newPin, setNewPin] = useState('');
+    const [pinError, setPinError] = useState('');
+    const [activityLog, setActivityLog] = useState<ActivityEntry[]>([]);
+
+    useEffect(() => {
+        onLoadActivity().then(setActivityLog).catch(err => console.error('Failed to load activity:', err));
+    }, [userProfile.username]);
+
+    const [attachmentUsage, setAttachmentUsage] = useState<AttachmentUsage | null>(null);
+    const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+    useEffect(() => {
+        onLoadAttachmentUsage().then(setAttachmentUsage).catch(err => console.error('Failed to load attachment usage:', err));
+        navigator.storage?.estimate?.().then(setStorageEstimate).catch(err => console.error('Failed to estimate storage:', err));
+    }, [userProfile.username]);
+
+    const handleSavePin = async () => {
+        if (!/^\d{4,6}$/.test(newPin)) {
+            setPinError('O PIN deve ter de 4 a 6 dígitos.');
+            return;
+        }
+        setPinError('');
+        await onSetPin(newPin);
+        setNewPin('');
+    };
+
     const handleAddCategory = () => {
         if (newCategoryName.trim() && !categories.some(c => c.name.toLowerCase() === newCategoryName.trim().toLowerCase())) {
             const newCategory: Category = {
                 id: `cat${Date.now()}`,
                 name: newCategoryName.trim(),
                 icon: 'question_mark_circle', // Default icon
+                kind: newCategoryKind,
+                parentId: getParentOptions(null, categories).some(p => p.id === newCategoryParentId) ? newCategoryParentId : undefined,
             };
             onUpdateCategories([...categories, newCategory]);
             setNewCategoryName('');
@@ -952,6 +2821,11 @@ const SettingsPage: React.FC<{
     };
 
     const handleUpdateCategory = (categoryToUpdate: Category) => {
+        const name = categoryToUpdate.name.trim().toLowerCase();
+        if (categories.some(c => c.id !== categoryToUpdate.id && c.name.toLowerCase() === name)) {
+            alert('Já existe uma categoria com esse nome. Use "Mesclar" para juntar as duas.');
+            return;
+        }
         if(categoryToUpdate.name.trim()){
             const updatedCategories = categories.map(c =>
                 c.id === categoryToUpdate.id ? categoryToUpdate : c
@@ -961,6 +2835,21 @@ const SettingsPage: React.FC<{
         }
     };
 
+    const handleAddTag = () => {
+        if (cleanTagName(newTagName) && !findTagByName(tags, newTagName)) {
+            onUpdateTags([...tags, createTag(newTagName, tags)]);
+            setNewTagName('');
+        }
+    };
+
+    const handleUpdateTag = (tagToUpdate: Tag) => {
+        const duplicate = findTagByName(tags, tagToUpdate.name);
+        if (cleanTagName(tagToUpdate.name) && (!duplicate || duplicate.id === tagToUpdate.id)) {
+            onUpdateTags(tags.map(t => t.id === tagToUpdate.id ? { ...tagToUpdate, name: cleanTagName(tagToUpdate.name) } : t));
+            setEditingTag(null);
+        }
+    };
+
     const openIconPicker = (category: Category) => {
         setCategoryForIconChange(category);
         setIconPickerOpen(true);
@@ -989,6 +2878,90 @@ const SettingsPage: React.FC<{
         reader.readAsDataURL(file);
     };
 
+    const handleAddAccount = () => {
+        if (newAccountName.trim() && !accounts.some(a => a.name.toLowerCase() === newAccountName.trim().toLowerCase())) {
+            const newAccount: Account = {
+                id: `acc${Date.now()}`,
+                name: newAccountName.trim(),
+                type: newAccountType,
+                openingBalance: +newAccountBalance || 0,
+                closingDay: newAccountType === 'credit_card' ? toBillingDay(newAccountClosingDay, DEFAULT_CLOSING_DAY) : undefined,
+                dueDay: newAccountType === 'credit_card' ? toBillingDay(newAccountDueDay, DEFAULT_DUE_DAY) : undefined,
+            };
+            onUpdateAccounts([...accounts, newAccount]);
+            setNewAccountName('');
+            setNewAccountBalance('');
+            setNewAccountClosingDay(DEFAULT_CLOSING_DAY);
+            setNewAccountDueDay(DEFAULT_DUE_DAY);
+        }
+    };
+
+    const handleUpdateAccount = (accountToUpdate: Account) => {
+        if (accountToUpdate.name.trim()) {
+            const isCard = accountToUpdate.type === 'credit_card';
+            const updated: Account = {
+                ...accountToUpdate,
+                name: accountToUpdate.name.trim(),
+                closingDay: isCard ? toBillingDay(accountToUpdate.closingDay ?? '', DEFAULT_CLOSING_DAY) : undefined,
+                dueDay: isCard ? toBillingDay(accountToUpdate.dueDay ?? '', DEFAULT_DUE_DAY) : undefined,
+            };
+            onUpdateAccounts(accounts.map(a => a.id === updated.id ? updated : a));
+            setEditingAccount(null);
+        }
+    };
+
+    // What is typed is kept apart from the saved limit until the field loses focus, so clearing it to type a new
+    // limit doesn't remove the budget on the way
+    const [budgetDrafts, setBudgetDrafts] = useState<{ [categoryId: string]: string }>({});
+
+    const handleBudgetCommit = (categoryId: string) => {
+        const value = budgetDrafts[categoryId];
+        setBudgetDrafts(({ [categoryId]: _, ...rest }) => rest);
+        if (value === undefined) return;
+        const updatedBudgets = { ...budgets };
+        const limit = parseFloat(value);
+        if (value.trim() === '') {
+            delete updatedBudgets[categoryId];
+        } else if (!isNaN(limit) && limit > 0) {
+            updatedBudgets[categoryId] = limit;
+        } else {
+            return; // An invalid limit leaves the saved one as it was
+        }
+        if (updatedBudgets[categoryId] !== budgets[categoryId]) onUpdateBudgets(updatedBudgets);
+    };
+
+    const handleAddRate = () => {
+        if (!newRateCurrency || newRateCurrency === currency || !newRateDate || !(+newRateValue > 0)) return;
+        onUpdateExchangeRates(mergeRates(exchangeRates, [{ currency: newRateCurrency, date: new Date(newRateDate).toISOString(), rate: +newRateValue }]));
+        setNewRateValue('');
+    };
+
+    const handleRatesFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const { rates, skipped } = parseRatesCsv(await readStatementFile(file), currency);
+        if (rates.length > 0) onUpdateExchangeRates(mergeRates(exchangeRates, rates));
+        setRateImportMessage(`${rates.length} ${rates.length === 1 ? 'cotação importada' : 'cotações importadas'}${skipped > 0 ? `, ${skipped} ${skipped === 1 ? 'linha ignorada' : 'linhas ignoradas'}` : ''}.`);
+    };
+
+    const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setBackupToRestore(parseBackup(await file.text()));
+            setBackupError('');
+        } catch (err) {
+            setBackupError(err instanceof Error ? err.message : 'Não foi possível ler o backup.');
+        }
+    };
+
+    const handleRestore = (backup: BackupFile, mode: RestoreMode) => {
+        onRestoreBackup(backup, mode);
+        setBackupToRestore(null);
+    };
+
     const handleSaveDisplayName = () => {
         if (editingDisplayName.trim()) {
             onUpdateProfile({ displayName: editingDisplayName.trim() });
@@ -1077,10 +3050,11 @@ const SettingsPage: React.FC<{
             </Card>
 
             <Card>
-                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Gerenciar Categorias</h2>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Gerenciar Categorias</h2>
+                <p className="text-sm text-[var(--color-text-secondary)] mb-4">Agrupe categorias relacionadas em subcategorias, como "Casa &gt; Energia". Os relatórios somam as subcategorias na categoria principal.</p>
                 <div className="space-y-3">
-                    {categories.map(cat => (
-                        <div key={cat.id} className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2 bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                    {sortCategoriesAsTree(categories).map(cat => (
+                        <div key={cat.id} className={`flex flex-wrap items-center justify-between gap-x-4 gap-y-2 bg-[var(--color-bg-secondary)] p-3 rounded-lg ${isRootCategory(cat, categories) ? '' : 'ml-6 md:ml-10'}`}>
                            {editingCategory?.id === cat.id ? (
                                 <div className="flex flex-wrap items-center gap-2 flex-grow w-full">
                                     <button onClick={() => openIconPicker(cat)} className="p-2 rounded-md bg-[var(--color-border)] hover:bg-[var(--color-accent)] transition-colors">
@@ -1093,6 +3067,15 @@ const SettingsPage: React.FC<{
                                         className="flex-grow min-w-[120px]"
                                         autoFocus
                                     />
+                                    <Select value={editingCategory.kind} onChange={(e) => setEditingCategory({ ...editingCategory, kind: e.target.value as CategoryKind })} aria-label="Tipo da categoria">
+                                        {(Object.keys(CATEGORY_KIND_LABELS) as CategoryKind[]).map(kind => <option key={kind} value={kind}>{CATEGORY_KIND_LABELS[kind]}</option>)}
+                                    </Select>
+                                    {getSubcategories(categories, cat.id).length === 0 && (
+                                        <Select value={editingCategory.parentId ?? ''} onChange={(e) => setEditingCategory({ ...editingCategory, parentId: e.target.value || undefined })} aria-label="Categoria principal">
+                                            <option value="">Categoria principal</option>
+                                            {getParentOptions(cat, categories).map(p => <option key={p.id} value={p.id}>Subcategoria de {p.name}</option>)}
+                                        </Select>
+                                    )}
                                      <div className='flex gap-2 ml-auto'>
                                         <Button onClick={() => handleUpdateCategory(editingCategory)}>Salvar</Button>
                                         <Button variant="secondary" onClick={() => setEditingCategory(null)}>Cancelar</Button>
@@ -1104,12 +3087,18 @@ const SettingsPage: React.FC<{
                                      <button onClick={() => openIconPicker(cat)} className="p-2 rounded-md bg-[var(--color-border)] hover:bg-[var(--color-accent)] transition-colors">
                                         <Icon name={cat.icon} className="h-6 w-6" />
                                      </button>
-                                    <span className="text-[var(--color-text-primary)]">{cat.name}</span>
+                                    <div>
+                                        <p className="text-[var(--color-text-primary)]">{cat.name}</p>
+                                        <p className="text-xs text-[var(--color-text-secondary)]">{CATEGORY_KIND_LABELS[cat.kind]}</p>
+                                    </div>
                                 </div>
                                 <div className="flex items-center gap-2 flex-shrink-0">
                                     <Button variant="secondary" className="p-2" onClick={() => setEditingCategory(cat)} title="Editar">
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" /></svg>
                                     </Button>
+                                    <Button variant="secondary" className="p-2" onClick={() => onMergeCategory(cat.id)} title="Mesclar com outra categoria">
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+                                    </Button>
                                     <Button variant="danger" className="p-2" onClick={() => onDeleteCategory(cat.id)} title="Excluir">
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
                                     </Button>
@@ -1119,51 +3108,804 @@ const SettingsPage: React.FC<{
                         </div>
                     ))}
                 </div>
-                <div className="flex gap-2 mt-4 pt-4 border-t border-[var(--color-border)]">
-                    <Input
-                        type="text"
-                        placeholder="Nova categoria..."
-                        value={newCategoryName}
-                        onChange={(e) => setNewCategoryName(e.target.value)}
-                        className="flex-grow"
-                    />
-                    <Button onClick={handleAddCategory}>Adicionar</Button>
+                <div className="flex flex-wrap gap-2 mt-4 pt-4 border-t border-[var(--color-border)]">
+                    <Input
+                        type="text"
+                        placeholder="Nova categoria..."
+                        value={newCategoryName}
+                        onChange={(e) => setNewCategoryName(e.target.value)}
+                        className="flex-grow"
+                    />
+                    <Select value={newCategoryKind} onChange={(e) => setNewCategoryKind(e.target.value as CategoryKind)} aria-label="Tipo da nova categoria">
+                        {(Object.keys(CATEGORY_KIND_LABELS) as CategoryKind[]).map(kind => <option key={kind} value={kind}>{CATEGORY_KIND_LABELS[kind]}</option>)}
+                    </Select>
+                    <Select value={newCategoryParentId} onChange={(e) => setNewCategoryParentId(e.target.value)} aria-label="Categoria principal da nova categoria">
+                        <option value="">Categoria principal</option>
+                        {getParentOptions(null, categories).map(p => <option key={p.id} value={p.id}>Subcategoria de {p.name}</option>)}
+                    </Select>
+                    <Button onClick={handleAddCategory}>Adicionar</Button>
+                </div>
+            </Card>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Tags</h2>
+                <p className="text-sm text-[var(--color-text-secondary)] mb-4">Tags marcam transações de categorias diferentes que pertencem ao mesmo assunto, como uma viagem ou uma reforma. Uma transação pode ter várias tags.</p>
+                <div className="space-y-3">
+                    {tags.length === 0 && <p className="text-[var(--color-text-secondary)]">Nenhuma tag criada ainda.</p>}
+                    {tags.map(tag => (
+                        <div key={tag.id} className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2 bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                            {editingTag?.id === tag.id ? (
+                                <div className="flex flex-wrap items-center gap-2 flex-grow w-full">
+                                    <input
+                                        type="color"
+                                        value={editingTag.color}
+                                        onChange={(e) => setEditingTag({ ...editingTag, color: e.target.value })}
+                                        className="h-10 w-10 rounded-md bg-transparent cursor-pointer"
+                                        aria-label="Cor da tag"
+                                    />
+                                    <Input
+                                        type="text"
+                                        value={editingTag.name}
+                                        onChange={(e) => setEditingTag({ ...editingTag, name: e.target.value })}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleUpdateTag(editingTag)}
+                                        className="flex-grow min-w-[120px]"
+                                        autoFocus
+                                    />
+                                    <div className="flex gap-2 ml-auto">
+                                        <Button onClick={() => handleUpdateTag(editingTag)}>Salvar</Button>
+                                        <Button variant="secondary" onClick={() => setEditingTag(null)}>Cancelar</Button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="flex items-center gap-3">
+                                        <TagChip tag={tag} />
+                                        <span className="text-sm text-[var(--color-text-secondary)]">{tagUsage[tag.id] || 0} {tagUsage[tag.id] === 1 ? 'transação' : 'transações'}</span>
+                                    </div>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        <Button variant="secondary" className="p-2" onClick={() => setEditingTag(tag)} title="Editar">
+                                            <Icon name="pencil" className="h-5 w-5" />
+                                        </Button>
+                                        <Button variant="danger" className="p-2" onClick={() => onDeleteTag(tag.id)} title="Excluir">
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2 mt-4 pt-4 border-t border-[var(--color-border)]">
+                    <Input
+                        type="text"
+                        placeholder="Nova tag..."
+                        value={newTagName}
+                        onChange={(e) => setNewTagName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                        className="flex-grow"
+                    />
+                    <Button onClick={handleAddTag}>Adicionar</Button>
+                </div>
+            </Card>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Contas e Carteiras</h2>
+                <div className="space-y-3">
+                    {accounts.map(acc => (
+                        <div key={acc.id} className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2 bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                            {editingAccount?.id === acc.id ? (
+                                <div className="flex flex-wrap items-end gap-2 flex-grow w-full">
+                                    <Input label="Nome" value={editingAccount.name} onChange={(e) => setEditingAccount({ ...editingAccount, name: e.target.value })} className="flex-grow min-w-[140px]" autoFocus />
+                                    <Select label="Tipo" value={editingAccount.type} onChange={(e) => setEditingAccount({ ...editingAccount, type: e.target.value as AccountType })}>
+                                        {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+                                    </Select>
+                                    <Input label={`Saldo inicial (${currency})`} type="number" step="0.01" value={editingAccount.openingBalance} onChange={(e) => setEditingAccount({ ...editingAccount, openingBalance: parseFloat(e.target.value) || 0 })} className="w-40" />
+                                    {editingAccount.type === 'credit_card' && (
+                                        <>
+                                            <Input label="Fechamento (dia)" type="number" min="1" max="31" step="1" value={editingAccount.closingDay ?? DEFAULT_CLOSING_DAY} onChange={(e) => setEditingAccount({ ...editingAccount, closingDay: parseInt(e.target.value) || undefined })} className="w-32" />
+                                            <Input label="Vencimento (dia)" type="number" min="1" max="31" step="1" value={editingAccount.dueDay ?? DEFAULT_DUE_DAY} onChange={(e) => setEditingAccount({ ...editingAccount, dueDay: parseInt(e.target.value) || undefined })} className="w-32" />
+                                        </>
+                                    )}
+                                    <div className="flex gap-2 ml-auto">
+                                        <Button onClick={() => handleUpdateAccount(editingAccount)}>Salvar</Button>
+                                        <Button variant="secondary" onClick={() => setEditingAccount(null)}>Cancelar</Button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="flex items-center gap-3">
+                                        <span className="p-2 rounded-md bg-[var(--color-border)]">
+                                            <Icon name={ACCOUNT_TYPE_ICONS[acc.type]} className="h-6 w-6" />
+                                        </span>
+                                        <div>
+                                            <p className="text-[var(--color-text-primary)]">{acc.name}</p>
+                                            <p className="text-sm text-[var(--color-text-secondary)]">
+                                                {ACCOUNT_TYPE_LABELS[acc.type]} &middot; saldo inicial {formatCurrency(acc.openingBalance, currency)}
+                                                {isCreditCard(acc) && <> &middot; fecha dia {acc.closingDay ?? DEFAULT_CLOSING_DAY}, vence dia {acc.dueDay ?? DEFAULT_DUE_DAY}</>}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        <Button variant="secondary" className="p-2" onClick={() => setEditingAccount(acc)} title="Editar">
+                                            <Icon name="pencil" className="h-5 w-5" />
+                                        </Button>
+                                        <Button variant="danger" className="p-2" onClick={() => onDeleteAccount(acc.id)} title="Excluir" disabled={accounts.length <= 1}>
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4 pt-4 border-t border-[var(--color-border)]">
+                    <Input type="text" placeholder="Nova conta..." value={newAccountName} onChange={(e) => setNewAccountName(e.target.value)} className="flex-grow min-w-[140px]" />
+                    <Select value={newAccountType} onChange={(e) => setNewAccountType(e.target.value as AccountType)} aria-label="Tipo da conta">
+                        {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+                    </Select>
+                    <Input type="number" step="0.01" placeholder={`Saldo inicial (${currency})`} value={newAccountBalance} onChange={(e) => setNewAccountBalance(e.target.value === '' ? '' : parseFloat(e.target.value))} className="w-44" />
+                    {newAccountType === 'credit_card' && (
+                        <>
+                            <Input type="number" min="1" max="31" step="1" placeholder="Fechamento (dia)" aria-label="Dia de fechamento" value={newAccountClosingDay} onChange={(e) => setNewAccountClosingDay(e.target.value === '' ? '' : parseInt(e.target.value))} className="w-40" />
+                            <Input type="number" min="1" max="31" step="1" placeholder="Vencimento (dia)" aria-label="Dia de vencimento" value={newAccountDueDay} onChange={(e) => setNewAccountDueDay(e.target.value === '' ? '' : parseInt(e.target.value))} className="w-40" />
+                        </>
+                    )}
+                    <Button onClick={handleAddAccount}>Adicionar</Button>
+                </div>
+            </Card>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Orçamentos Mensais</h2>
+                <p className="text-sm text-[var(--color-text-secondary)] mb-4">Defina um limite de gastos por mês para cada categoria. Você será avisado ao atingir 80% e 100% do limite. Deixe em branco para não acompanhar.</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {getCategoriesForType(categories, TransactionType.EXPENSE).map(cat => (
+                        <div key={cat.id} className="flex items-center gap-3 bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                            <Icon name={cat.icon} className="h-6 w-6 flex-shrink-0" />
+                            <span className="flex-grow min-w-0 truncate text-[var(--color-text-primary)]">{cat.name}</span>
+                            <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                placeholder={`Limite (${currency})`}
+                                value={budgetDrafts[cat.id] ?? budgets[cat.id] ?? ''}
+                                onChange={(e) => setBudgetDrafts(prev => ({ ...prev, [cat.id]: e.target.value }))}
+                                onBlur={() => handleBudgetCommit(cat.id)}
+                                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                className="w-36"
+                                aria-label={`Orçamento mensal de ${cat.name}`}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </Card>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Cotações</h2>
+                <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                    Quanto vale 1 unidade de cada moeda em {currency}. Uma transação em outra moeda usa a cotação do dia em que foi feita, que fica salva com ela.
+                </p>
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {exchangeRates.length === 0 && <p className="text-[var(--color-text-secondary)]">Nenhuma cotação cadastrada ainda.</p>}
+                    {exchangeRates.map(rate => (
+                        <div key={`${rate.currency}|${rate.date}`} className="flex items-center justify-between gap-4 bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                            <div className="flex items-center gap-4">
+                                <span className="font-semibold text-[var(--color-text-primary)] w-12">{rate.currency}</span>
+                                <span className="text-sm text-[var(--color-text-secondary)]">{new Date(rate.date).toLocaleDateString('pt-BR', { timeZone: 'UTC' })}</span>
+                                <span className="text-[var(--color-text-primary)]">{formatCurrency(rate.rate, currency)}</span>
+                            </div>
+                            <Button variant="danger" className="p-2" onClick={() => onUpdateExchangeRates(exchangeRates.filter(r => r !== rate))} title="Excluir">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-end gap-2 mt-4 pt-4 border-t border-[var(--color-border)]">
+                    <Select label="Moeda" value={newRateCurrency} onChange={e => setNewRateCurrency(e.target.value)}>
+                        {foreignCurrencies.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                    </Select>
+                    <Input label="Data" type="date" value={newRateDate} onChange={e => setNewRateDate(e.target.value)} />
+                    <Input label={`Valor em ${currency}`} type="number" step="any" min="0" value={newRateValue} onChange={e => setNewRateValue(e.target.value === '' ? '' : parseFloat(e.target.value))} onKeyDown={e => e.key === 'Enter' && handleAddRate()} />
+                    <Button onClick={handleAddRate}>Adicionar</Button>
+                </div>
+                <div className="mt-4">
+                    <input type="file" ref={rateInputRef} onChange={handleRatesFileChange} accept=".csv,text/csv" className="hidden" />
+                    <Button variant="secondary" onClick={() => rateInputRef.current?.click()}>Importar CSV</Button>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-2">Uma cotação por linha, com a moeda, a data e o valor em {currency}, por exemplo: <code>USD;15/01/2026;5,12</code></p>
+                    {rateImportMessage && <p className="text-sm text-[var(--color-text-secondary)] mt-1">{rateImportMessage}</p>}
+                </div>
+            </Card>
+
+            <Card>
+                 <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Configurações Gerais</h2>
+                 <div className="max-w-xs">
+                    <Select label="Moeda base" value={currency} onChange={e => onUpdateCurrency(e.target.value)}>
+                        {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.name} ({c.code})</option>)}
+                    </Select>
+                    <p className="text-xs text-[var(--color-text-secondary)] mt-1">Totais, gráficos e exportações são convertidos para a moeda base.</p>
+                 </div>
+                 <div className="mt-6">
+                    <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Exportar Dados</h3>
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-3">Baixe suas transações em Excel, CSV, OFX ou JSON, com os sub-itens ligados à transação principal.</p>
+                    <Button variant="secondary" onClick={() => setExportModalOpen(true)}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                       Exportar transações
+                    </Button>
+                </div>
+                 <div className="mt-6">
+                    <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Importar Extrato</h3>
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-3">Traga transações de arquivos OFX, QFX, QIF ou CSV exportados pelo seu banco.</p>
+                    <Button variant="secondary" onClick={() => setImportWizardOpen(true)}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                       Importar Arquivo
+                    </Button>
+                </div>
+            </Card>
+            
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Backup e Restauração</h2>
+                <p className="text-sm text-[var(--color-text-secondary)] mb-4">Seus dados ficam somente neste navegador. Baixe um backup completo (transações, categorias, contas, orçamentos, configurações e histórico do FinAssist) para não perdê-los.</p>
+                {backupError && <p className="text-red-400 text-sm p-3 bg-red-900/50 rounded-lg mb-4">{backupError}</p>}
+                <div className="flex flex-wrap gap-3">
+                    <Button variant="secondary" onClick={() => downloadBackup(createBackup(userProfile, userData))}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                        Baixar Backup (JSON)
+                    </Button>
+                    <input type="file" ref={backupInputRef} onChange={handleBackupFileChange} accept=".json,application/json" className="hidden" />
+                    <Button variant="secondary" onClick={() => backupInputRef.current?.click()}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                        Restaurar Backup
+                    </Button>
+                </div>
+                <p className="text-xs text-[var(--color-text-secondary)] mt-3">Os comprovantes anexados às transações não entram no backup.</p>
+            </Card>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">Armazenamento</h2>
+                <p className="text-sm text-[var(--color-text-secondary)] mb-4">Os comprovantes ficam criptografados neste navegador, separados dos demais dados. Arquivos de transações excluídas são apagados na próxima vez que você entrar.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 bg-[var(--color-bg-secondary)] rounded-lg">
+                        <p className="text-sm text-[var(--color-text-secondary)]">Comprovantes</p>
+                        <p className="text-xl font-semibold text-[var(--color-text-primary)]">
+                            {attachmentUsage
+                                ? `${attachmentUsage.count} ${attachmentUsage.count === 1 ? 'arquivo' : 'arquivos'} · ${formatBytes(attachmentUsage.bytes)}`
+                                : '—'}
+                        </p>
+                    </div>
+                    <div className="p-4 bg-[var(--color-bg-secondary)] rounded-lg">
+                        <p className="text-sm text-[var(--color-text-secondary)]">Uso total do navegador</p>
+                        <p className="text-xl font-semibold text-[var(--color-text-primary)]">
+                            {storageEstimate?.usage !== undefined
+                                ? `${formatBytes(storageEstimate.usage)}${storageEstimate.quota ? ` de ${formatBytes(storageEstimate.quota)}` : ''}`
+                                : 'Indisponível'}
+                        </p>
+                    </div>
+                </div>
+            </Card>
+
+            <Card>
+                <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Segurança</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                        <Select
+                            label="Bloqueio automático por inatividade"
+                            value={userProfile.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES}
+                            onChange={e => onUpdateProfile({ autoLockMinutes: Number(e.target.value) })}
+                        >
+                            {AUTO_LOCK_OPTIONS.map(minutes => (
+                                <option key={minutes} value={minutes}>{minutes === 0 ? 'Nunca' : `${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}`}</option>
+                            ))}
+                        </Select>
+                        <div>
+                            <p className="font-semibold text-[var(--color-text-primary)]">PIN de desbloqueio</p>
+                            <p className="text-sm text-[var(--color-text-secondary)] mb-2">
+                                {userProfile.pinHash
+                                    ? 'Um PIN está definido. Ele desbloqueia a sessão enquanto o app estiver aberto; após recarregar a página, a senha é necessária.'
+                                    : 'Defina um PIN curto para desbloquear a sessão sem digitar a senha.'}
+                            </p>
+                            {pinError && <p className="text-red-400 text-sm mb-2">{pinError}</p>}
+                            <div className="flex gap-2">
+                                <Input type="password" inputMode="numeric" placeholder="4 a 6 dígitos" value={newPin} onChange={e => setNewPin(e.target.value.replace(/\D/g, ''))} maxLength={6} />
+                                <Button variant="primary" onClick={handleSavePin}>{userProfile.pinHash ? 'Alterar' : 'Definir'}</Button>
+                                {userProfile.pinHash && <Button variant="danger" onClick={() => onSetPin(null)}>Remover</Button>}
+                            </div>
+                        </div>
+                    </div>
+                    <div>
+                        <p className="font-semibold text-[var(--color-text-primary)] mb-2">Atividade recente</p>
+                        <ul className="max-h-64 overflow-y-auto divide-y divide-[var(--color-border)] text-sm">
+                            {activityLog.length > 0 ? activityLog.map(entry => (
+                                <li key={entry.id} className="py-2 flex justify-between gap-4">
+                                    <span className="text-[var(--color-text-primary)]">
+                                        {ACTIVITY_LABELS[entry.type]}
+                                        {entry.detail && <span className="text-[var(--color-text-secondary)]"> ({entry.detail})</span>}
+                                    </span>
+                                    <span className="text-[var(--color-text-secondary)] whitespace-nowrap">{new Date(entry.timestamp).toLocaleString('pt-BR')}</span>
+                                </li>
+                            )) : (
+                                <li className="py-2 text-[var(--color-text-secondary)]">Nenhuma atividade registrada.</li>
+                            )}
+                        </ul>
+                    </div>
+                </div>
+            </Card>
+
+            <RestoreBackupModal
+                backup={backupToRestore}
+                onClose={() => setBackupToRestore(null)}
+                currentData={userData}
+                currentUsername={userProfile.username}
+                onRestore={handleRestore}
+            />
+
+            <ExportModal
+                isOpen={isExportModalOpen}
+                onClose={() => setExportModalOpen(false)}
+                userData={userData}
+            />
+
+            <ImportWizardModal
+                isOpen={isImportWizardOpen}
+                onClose={() => setImportWizardOpen(false)}
+                transactions={userData.transactions}
+                categories={categories}
+                accounts={accounts}
+                currency={currency}
+                onImport={onImportTransactions}
+            />
+
+            <IconPickerModal
+                isOpen={isIconPickerOpen}
+                onClose={() => setIconPickerOpen(false)}
+                onSelectIcon={handleSelectIcon}
+            />
+
+        </div>
+    );
+};
+
+// --- EXPORT MODAL ---
+const ExportModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    userData: UserData;
+}> = ({ isOpen, onClose, userData }) => {
+    const { categories, accounts, tags, currency, exchangeRates } = userData;
+    const [format, setFormat] = useState<ExportFormat>('xlsx');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [categoryId, setCategoryId] = useState('all');
+    const [delimiter, setDelimiter] = useState(';');
+    const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(',');
+
+    const transactions = useMemo(
+        () => (isOpen ? convertToBaseCurrency(userData.transactions, currency, exchangeRates) : []),
+        [isOpen, userData.transactions, currency, exchangeRates]
+    );
+    const filters = { startDate, endDate, categoryId };
+    const count = useMemo(() => selectForExport(transactions, filters).length, [transactions, startDate, endDate, categoryId]);
+
+    const handleExport = () => {
+        downloadExportFile(buildExportFile(format, transactions, { categories, accounts, tags, currency }, filters, { delimiter, decimalSeparator }));
+        onClose();
+    };
+
+    const descriptions: Record<ExportFormat, string> = {
+        xlsx: 'Uma planilha de resumo com receitas, despesas e saldo por mês, seguida de uma planilha para cada mês.',
+        csv: 'Uma linha por transação e por sub-item; cada sub-item traz o ID da transação principal.',
+        ofx: 'Um extrato por conta, para importar em outros aplicativos de finanças. Transações divididas vão com o valor total.',
+        json: 'Os dados completos, com os sub-itens dentro da transação principal, além de contas, categorias e tags.',
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Exportar Transações">
+            <div className="space-y-4">
+                <Select label="Formato" value={format} onChange={e => setFormat(e.target.value as ExportFormat)}>
+                    {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMAT_LABELS[f]}</option>)}
+                </Select>
+                <p className="text-sm text-[var(--color-text-secondary)]">{descriptions[format]}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Input label="De" type="date" value={startDate} max={endDate || undefined} onChange={e => setStartDate(e.target.value)} />
+                    <Input label="Até" type="date" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} />
+                </div>
+                <Select label="Categoria" value={categoryId} onChange={e => setCategoryId(e.target.value)}>
+                    <option value="all">Todas as categorias</option>
+                    <CategoryOptions categories={categories} />
+                </Select>
+                {format === 'csv' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <Select label="Delimitador" value={delimiter} onChange={e => setDelimiter(e.target.value)}>
+                            <option value=";">Ponto e vírgula (;)</option>
+                            <option value=",">Vírgula (,)</option>
+                            <option value={'\t'}>Tabulação</option>
+                            <option value="|">Barra vertical (|)</option>
+                        </Select>
+                        <Select label="Separador decimal" value={decimalSeparator} onChange={e => setDecimalSeparator(e.target.value as DecimalSeparator)}>
+                            <option value=",">Vírgula (1234,56)</option>
+                            <option value=".">Ponto (1234.56)</option>
+                        </Select>
+                    </div>
+                )}
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                    {count} {count === 1 ? 'transação será exportada' : 'transações serão exportadas'}, com valores em {currency}.
+                </p>
+                <div className="flex justify-end gap-3 pt-4">
+                    <Button type="button" variant="secondary" onClick={onClose}>Cancelar</Button>
+                    <Button type="button" variant="primary" onClick={handleExport} disabled={count === 0}>Exportar</Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+// --- IMPORT WIZARD ---
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+const ImportWizardModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    transactions: Transaction[];
+    categories: Category[];
+    accounts: Account[];
+    currency: string;
+    onImport: (transactions: Transaction[]) => void;
+}> = ({ isOpen, onClose, transactions, categories, accounts, currency, onImport }) => {
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [content, setContent] = useState('');
+    const [format, setFormat] = useState<ImportFormat>('csv');
+    const [mapping, setMapping] = useState<CsvMapping | null>(null);
+    const [qifDateFormat, setQifDateFormat] = useState<DateFormat>('DD/MM/YYYY');
+    const [qifDecimalSeparator, setQifDecimalSeparator] = useState<DecimalSeparator>('.');
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [accountId, setAccountId] = useState('');
+    const [expenseCategoryId, setExpenseCategoryId] = useState('');
+    const [incomeCategoryId, setIncomeCategoryId] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setStep('upload');
+            setFileName('');
+            setContent('');
+            setMapping(null);
+            setError('');
+            setAccountId(accounts[0]?.id || '');
+            setExpenseCategoryId(getCategoriesForType(categories, TransactionType.EXPENSE)[0]?.id || categories[0]?.id || '');
+            setIncomeCategoryId(getCategoriesForType(categories, TransactionType.INCOME)[0]?.id || categories[0]?.id || '');
+        }
+    }, [isOpen]);
+
+    const csvRows = useMemo(() => (format === 'csv' && mapping ? parseCsvRows(content, mapping.delimiter) : []), [format, content, mapping?.delimiter]);
+
+    const parsed = useMemo(() => {
+        if (!content) return { rows: [], skipped: 0 };
+        if (format === 'ofx') return parseOfx(content);
+        if (format === 'qif') return parseQif(content, qifDateFormat, qifDecimalSeparator);
+        return mapping ? mapCsvRows(csvRows, mapping) : { rows: [], skipped: 0 };
+    }, [content, format, csvRows, mapping, qifDateFormat, qifDecimalSeparator]);
+
+    const duplicates = useMemo(() => findDuplicateRows(parsed.rows, transactions), [parsed.rows, transactions]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError('');
+        try {
+            const text = await readStatementFile(file);
+            const detectedFormat = detectFormat(file.name, text);
+            setFileName(file.name);
+            setContent(text);
+            setFormat(detectedFormat);
+            if (detectedFormat === 'csv') {
+                const delimiter = detectDelimiter(text);
+                setMapping(guessCsvMapping(parseCsvRows(text, delimiter), delimiter));
+            }
+            if (detectedFormat === 'ofx') {
+                goToPreview(parseOfx(text).rows.length);
+            } else {
+                setStep('mapping');
+            }
+        } catch {
+            setError('Não foi possível ler o arquivo.');
+        }
+    };
+
+    const goToPreview = (rowCount = parsed.rows.length) => {
+        if (rowCount === 0) {
+            setError('Nenhuma transação foi encontrada. Verifique o arquivo e as configurações de leitura.');
+            return;
+        }
+        setError('');
+        setStep('preview');
+    };
+
+    // Duplicates start unchecked; everything else is imported by default
+    useEffect(() => {
+        if (step === 'preview') {
+            setSelected(new Set(parsed.rows.map((_, index) => index).filter(index => !duplicates.has(index))));
+        }
+    }, [step, parsed.rows, duplicates]);
+
+    const toggleRow = (index: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index); else next.add(index);
+            return next;
+        });
+    };
+
+    const handleImport = () => {
+        const options = { accountId, incomeCategoryId, expenseCategoryId };
+        const imported = parsed.rows
+            .filter((_, index) => selected.has(index))
+            .map((row, index) => importedRowToTransaction(row, index, options));
+        onImport(imported);
+        onClose();
+    };
+
+    const updateMapping = (changes: Partial<CsvMapping>) => setMapping(prev => (prev ? { ...prev, ...changes } : prev));
+
+    const headerRow = csvRows[0] || [];
+    const columnOptions = headerRow.map((header, index) => (
+        <option key={index} value={index}>{mapping?.hasHeader && header.trim() ? header.trim() : `Coluna ${index + 1}`}</option>
+    ));
+
+    const renderMapping = () => {
+        if (format === 'qif') {
+            return (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Select label="Formato da data" value={qifDateFormat} onChange={e => setQifDateFormat(e.target.value as DateFormat)}>
+                        {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </Select>
+                    <Select label="Separador decimal" value={qifDecimalSeparator} onChange={e => setQifDecimalSeparator(e.target.value as DecimalSeparator)}>
+                        <option value=",">Vírgula (1.234,56)</option>
+                        <option value=".">Ponto (1,234.56)</option>
+                    </Select>
+                </div>
+            );
+        }
+        if (!mapping) return null;
+        return (
+            <div className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Select label="Delimitador" value={mapping.delimiter} onChange={e => updateMapping({ delimiter: e.target.value })}>
+                        <option value=";">Ponto e vírgula (;)</option>
+                        <option value=",">Vírgula (,)</option>
+                        <option value={'\t'}>Tabulação</option>
+                        <option value="|">Barra vertical (|)</option>
+                    </Select>
+                    <label className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)] sm:mt-7">
+                        <input type="checkbox" checked={mapping.hasHeader} onChange={e => updateMapping({ hasHeader: e.target.checked })} />
+                        A primeira linha é um cabeçalho
+                    </label>
+                    <Select label="Coluna da data" value={mapping.dateColumn} onChange={e => updateMapping({ dateColumn: +e.target.value })}>{columnOptions}</Select>
+                    <Select label="Coluna da descrição" value={mapping.descriptionColumn} onChange={e => updateMapping({ descriptionColumn: +e.target.value })}>{columnOptions}</Select>
+                    <Select label="Formato da data" value={mapping.dateFormat} onChange={e => updateMapping({ dateFormat: e.target.value as DateFormat })}>
+                        {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </Select>
+                    <Select label="Separador decimal" value={mapping.decimalSeparator} onChange={e => updateMapping({ decimalSeparator: e.target.value as DecimalSeparator })}>
+                        <option value=",">Vírgula (1.234,56)</option>
+                        <option value=".">Ponto (1,234.56)</option>
+                    </Select>
+                    <Select label="Valores negativos" value={mapping.negativeConvention} onChange={e => updateMapping({ negativeConvention: e.target.value as NegativeAmountConvention })}>
+                        <option value="minus">Negativos são despesas</option>
+                        <option value="inverted">Positivos são despesas (fatura de cartão)</option>
+                        <option value="debitCredit">Colunas separadas de débito e crédito</option>
+                    </Select>
+                    {mapping.negativeConvention === 'debitCredit' ? (
+                        <>
+                            <Select label="Coluna de débito" value={mapping.debitColumn} onChange={e => updateMapping({ debitColumn: +e.target.value })}>{columnOptions}</Select>
+                            <Select label="Coluna de crédito" value={mapping.creditColumn} onChange={e => updateMapping({ creditColumn: +e.target.value })}>{columnOptions}</Select>
+                        </>
+                    ) : (
+                        <Select label="Coluna do valor" value={mapping.amountColumn} onChange={e => updateMapping({ amountColumn: +e.target.value })}>{columnOptions}</Select>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Importar Extrato">
+            <div className="space-y-4">
+                {error && <p className="text-red-400 text-sm p-3 bg-red-900/50 rounded-lg">{error}</p>}
+
+                {step === 'upload' && (
+                    <div className="text-center space-y-4 py-6">
+                        <p className="text-[var(--color-text-secondary)]">Selecione um extrato bancário nos formatos OFX, QFX, QIF ou CSV.</p>
+                        <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] text-white font-semibold cursor-pointer transition-colors">
+                            <input type="file" accept=".ofx,.qfx,.qif,.csv,.txt" onChange={handleFileChange} className="hidden" />
+                            Escolher arquivo
+                        </label>
+                    </div>
+                )}
+
+                {step === 'mapping' && (
+                    <>
+                        <p className="text-sm text-[var(--color-text-secondary)]">
+                            <strong className="text-[var(--color-text-primary)]">{fileName}</strong> &middot; Ajuste como o arquivo deve ser lido.
+                        </p>
+                        {renderMapping()}
+                        <p className="text-sm text-[var(--color-text-secondary)]">
+                            {parsed.rows.length} transações reconhecidas{parsed.skipped > 0 && `, ${parsed.skipped} linhas ignoradas`}.
+                        </p>
+                        <div className="flex justify-between gap-3 pt-2">
+                            <Button variant="secondary" onClick={() => setStep('upload')}>Voltar</Button>
+                            <Button onClick={() => goToPreview()}>Pré-visualizar</Button>
+                        </div>
+                    </>
+                )}
+
+                {step === 'preview' && (
+                    <>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <Select label="Conta" value={accountId} onChange={e => setAccountId(e.target.value)}>
+                                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </Select>
+                            <Select label="Categoria das despesas" value={expenseCategoryId} onChange={e => setExpenseCategoryId(e.target.value)}>
+                                <CategoryOptions categories={categories} visible={getCategoriesForType(categories, TransactionType.EXPENSE)} />
+                            </Select>
+                            <Select label="Categoria das receitas" value={incomeCategoryId} onChange={e => setIncomeCategoryId(e.target.value)}>
+                                <CategoryOptions categories={categories} visible={getCategoriesForType(categories, TransactionType.INCOME)} />
+                            </Select>
+                        </div>
+                        {duplicates.size > 0 && (
+                            <p className="text-sm text-yellow-400">{duplicates.size} transações já existem (mesma data, valor e descrição) e foram desmarcadas.</p>
+                        )}
+                        <div className="max-h-[40vh] overflow-y-auto border border-[var(--color-border)] rounded-lg">
+                            <table className="w-full text-left text-sm">
+                                <thead className="sticky top-0 bg-[var(--color-bg-secondary)]">
+                                    <tr className="border-b border-[var(--color-border)]">
+                                        <th className="py-2 px-3"></th>
+                                        <th className="py-2 px-3 font-semibold text-[var(--color-text-secondary)]">Data</th>
+                                        <th className="py-2 px-3 font-semibold text-[var(--color-text-secondary)]">Descrição</th>
+                                        <th className="py-2 px-3 font-semibold text-[var(--color-text-secondary)] text-right">Valor</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {parsed.rows.map((row, index) => (
+                                        <tr key={index} className={`border-b border-[var(--color-border)] ${duplicates.has(index) ? 'opacity-60' : ''}`}>
+                                            <td className="py-2 px-3"><input type="checkbox" checked={selected.has(index)} onChange={() => toggleRow(index)} aria-label="Importar esta linha" /></td>
+                                            <td className="py-2 px-3 whitespace-nowrap">{new Date(row.date).toLocaleDateString('pt-BR', { timeZone: 'UTC' })}</td>
+                                            <td className="py-2 px-3">
+                                                {row.description}
+                                                {duplicates.has(index) && <span className="ml-2 px-2 py-0.5 text-xs font-semibold text-yellow-200 bg-yellow-800 rounded-full">Duplicada</span>}
+                                            </td>
+                                            <td className={`py-2 px-3 text-right font-semibold whitespace-nowrap ${row.amount > 0 ? 'text-[var(--color-success)]' : 'text-[var(--color-danger)]'}`}>
+                                                {row.amount > 0 ? '+' : '-'} {formatCurrency(Math.abs(row.amount), currency)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex justify-between gap-3 pt-2">
+                            <Button variant="secondary" onClick={() => setStep(format === 'ofx' ? 'upload' : 'mapping')}>Voltar</Button>
+                            <Button onClick={handleImport} disabled={selected.size === 0}>Importar {selected.size} transações</Button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </Modal>
+    );
+};
+
+// --- RESTORE BACKUP MODAL ---
+const RestoreBackupModal: React.FC<{
+    backup: BackupFile | null;
+    onClose: () => void;
+    currentData: UserData;
+    currentUsername: string;
+    onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+}> = ({ backup, onClose, currentData, currentUsername, onRestore }) => {
+    const diff = useMemo(() => (backup ? diffBackup(currentData, backup.data) : null), [backup, currentData]);
+    if (!backup || !diff) return null;
+
+    const summaryItems = [
+        { label: 'Transações novas', value: diff.transactions.added },
+        { label: 'Transações alteradas', value: diff.transactions.changed },
+        { label: 'Transações iguais', value: diff.transactions.unchanged },
+        { label: 'Transações só neste dispositivo', value: diff.transactions.missing },
+        { label: 'Categorias novas', value: diff.categories.added },
+        { label: 'Contas novas', value: diff.accounts.added },
+        { label: 'Tags novas', value: diff.tags.added },
+        { label: 'Metas novas', value: diff.goals.added },
+    ];
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Restaurar Backup">
+            <div className="space-y-4">
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                    Backup de <strong className="text-[var(--color-text-primary)]">@{backup.profile.username}</strong> criado em {new Date(backup.exportedAt).toLocaleString('pt-BR')}.
+                </p>
+                {backup.profile.username !== currentUsername && (
+                    <p className="text-sm text-yellow-400">Este backup pertence a outro usuário. Os dados serão restaurados na sua conta (@{currentUsername}).</p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                    {summaryItems.map(item => (
+                        <div key={item.label} className="bg-[var(--color-bg-secondary)] p-3 rounded-lg">
+                            <p className="text-xs text-[var(--color-text-secondary)]">{item.label}</p>
+                            <p className="text-xl font-bold">{item.value}</p>
+                        </div>
+                    ))}
+                </div>
+                <ul className="text-sm text-[var(--color-text-secondary)] list-disc pl-5 space-y-1">
+                    {diff.currencyChanged && <li>Moeda do backup: {backup.data.currency} (atual: {currentData.currency})</li>}
+                    {diff.themeChanged && <li>O tema do backup é diferente do atual.</li>}
+                    {diff.budgetsChanged && <li>Os orçamentos do backup são diferentes dos atuais.</li>}
+                    <li>Mensagens do FinAssist: {diff.chatMessages.incoming} no backup, {diff.chatMessages.current} atuais.</li>
+                </ul>
+                <div className="text-sm text-[var(--color-text-secondary)] space-y-1 pt-2 border-t border-[var(--color-border)]">
+                    <p><strong className="text-[var(--color-text-primary)]">Mesclar</strong> adiciona o que falta e mantém seus dados e configurações atuais.</p>
+                    <p><strong className="text-[var(--color-text-primary)]">Substituir</strong> apaga os dados atuais e usa somente o conteúdo do backup. Você poderá desfazer logo em seguida.</p>
                 </div>
-            </Card>
+                <div className="flex flex-wrap justify-end gap-3 pt-2">
+                    <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+                    <Button variant="secondary" onClick={() => onRestore(backup, 'merge')}>Mesclar</Button>
+                    <Button variant="danger" onClick={() => onRestore(backup, 'replace')}>Substituir</Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
 
-            <Card>
-                 <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Configurações Gerais</h2>
-                 <div className="max-w-xs">
-                    <Select label="Moeda" value={currency} onChange={e => onUpdateCurrency(e.target.value)}>
-                        <option value="BRL">Real Brasileiro (BRL)</option>
-                        <option value="USD">Dólar Americano (USD)</option>
-                        <option value="EUR">Euro (EUR)</option>
+// --- CATEGORY REASSIGN MODAL ---
+// Used both to merge a category into another and to delete a category that is still in use
+type CategoryReassignRequest = { categoryId: string; mode: 'merge' | 'delete' };
+
+const CategoryReassignModal: React.FC<{
+    request: CategoryReassignRequest | null;
+    categories: Category[];
+    transactions: Transaction[];
+    onClose: () => void;
+    onConfirm: (sourceId: string, targetId: string) => void;
+}> = ({ request, categories, transactions, onClose, onConfirm }) => {
+    const source = categories.find(c => c.id === request?.categoryId);
+    const targets = source ? getReassignTargets(source, categories, transactions) : [];
+    const [targetId, setTargetId] = useState('');
+
+    useEffect(() => {
+        setTargetId(targets.find(c => c.kind === source?.kind)?.id ?? targets[0]?.id ?? '');
+    }, [request]);
+
+    if (!request || !source) return null;
+    const usage = transactions.filter(t => t.categoryId === source.id).length;
+    const isMerge = request.mode === 'merge';
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={isMerge ? 'Mesclar Categoria' : 'Excluir Categoria'}>
+            <div className="space-y-4">
+                <p className="text-[var(--color-text-secondary)]">
+                    {isMerge
+                        ? <>As {usage} transações de <strong className="text-[var(--color-text-primary)]">{source.name}</strong> serão movidas para a categoria escolhida, e {source.name} será excluída.</>
+                        : <>A categoria <strong className="text-[var(--color-text-primary)]">{source.name}</strong> é usada em {usage} transações. Escolha para qual categoria elas serão movidas antes da exclusão.</>}
+                </p>
+                {targets.length > 0 ? (
+                    <Select label="Mover transações para" value={targetId} onChange={e => setTargetId(e.target.value)}>
+                        <CategoryOptions categories={categories} visible={targets} />
                     </Select>
-                 </div>
-                 <div className="mt-6">
-                    <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">Exportar Dados</h3>
-                    <Button variant="secondary" onClick={() => exportToCSV(userData.transactions, currency)}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                       Exportar para CSV
-                    </Button>
+                ) : (
+                    <p className="text-sm text-[var(--color-danger)]">Nenhuma outra categoria aceita as transações de {source.name}. Crie uma categoria compatível primeiro.</p>
+                )}
+                <p className="text-sm text-[var(--color-text-secondary)]">Subitens e recorrências também são atualizados. Você poderá desfazer logo em seguida.</p>
+                <div className="flex justify-end gap-3 pt-2">
+                    <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+                    <Button variant="danger" onClick={() => onConfirm(source.id, targetId)} disabled={!targetId}>{isMerge ? 'Mesclar' : 'Mover e excluir'}</Button>
                 </div>
-            </Card>
-            
-            <IconPickerModal
-                isOpen={isIconPickerOpen}
-                onClose={() => setIconPickerOpen(false)}
-                onSelectIcon={handleSelectIcon}
-            />
-
-        </div>
+            </div>
+        </Modal>
     );
 };
 
 // --- ADMIN PAGE ---
 const AdminPage: React.FC<{
+    currentUser: UserProfile;
     userProfiles: { [username: string]: UserProfile };
     onDeleteUser: (username: string) => void;
-}> = ({ userProfiles, onDeleteUser }) => {
+    onChangeUserRole: (username: string, role: UserRole) => void;
+}> = ({ currentUser, userProfiles, onDeleteUser, onChangeUserRole }) => {
+    const canManageUsers = hasPermission(currentUser, 'manageUsers');
     const [userToDelete, setUserToDelete] = useState<string | null>(null);
 
     const handleDeleteRequest = (username: string) => {
@@ -1177,11 +3919,14 @@ const AdminPage: React.FC<{
         }
     };
     
-    const users = Object.values(userProfiles).filter(p => p.username !== 'admin');
+    const users = Object.values(userProfiles).sort((a, b) => a.username.localeCompare(b.username));
 
     return (
         <div className="p-4 md:p-8 space-y-6">
             <h1 className="text-3xl md:text-4xl font-bold text-[var(--color-text-primary)]">Painel do Administrador</h1>
+            {!canManageUsers && (
+                <p className="text-sm text-[var(--color-text-secondary)]">Você tem acesso somente leitura como {ROLE_LABELS[currentUser.role]}.</p>
+            )}
 
             <Card>
                 <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-4">Gerenciar Usuários</h2>
@@ -1193,6 +3938,7 @@ const AdminPage: React.FC<{
                                 <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)]">E-mail</th>
                                 <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)]">Registrado em</th>
                                 <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)]">Status</th>
+                                <th className="py-3 px-4 font-semibold text-[var(--color-text-secondary)]">Função</th>
                                 <th className="py-3 px-4"></th>
                             </tr>
                         </thead>
@@ -1201,7 +3947,7 @@ const AdminPage: React.FC<{
                                 users.map(user => (
                                     <tr key={user.username} className="border-b border-[var(--color-border)]">
                                         <td className="py-3 px-4">
-                                            <div className="font-medium">@{user.username}</div>
+                                            <div className="font-medium">@{user.username}{user.username === currentUser.username && ' (você)'}</div>
                                             <div className="text-sm text-[var(--color-text-secondary)]">{user.displayName}</div>
                                         </td>
                                         <td className="py-3 px-4">{user.email}</td>
@@ -1212,14 +3958,21 @@ const AdminPage: React.FC<{
                                                 <span className="px-2 py-1 text-xs font-semibold text-yellow-200 bg-yellow-800 rounded-full">Não Verificado</span>
                                             }
                                         </td>
+                                        <td className="py-3 px-4">
+                                            {canManageUsers ? (
+                                                <Select value={user.role} onChange={e => onChangeUserRole(user.username, e.target.value as UserRole)} aria-label={`Função de @${user.username}`}>
+                                                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                                </Select>
+                                            ) : ROLE_LABELS[user.role]}
+                                        </td>
                                         <td className="py-3 px-4 text-right">
-                                            <Button variant="danger" onClick={() => handleDeleteRequest(user.username)}>Excluir</Button>
+                                            {canManageUsers && <Button variant="danger" onClick={() => handleDeleteRequest(user.username)}>Excluir</Button>}
                                         </td>
                                     </tr>
                                 ))
                             ) : (
                                 <tr>
-                                    <td colSpan={5} className="text-center py-10 text-[var(--color-text-secondary)]">
+                                    <td colSpan={6} className="text-center py-10 text-[var(--color-text-secondary)]">
                                         Nenhum usuário encontrado.
                                     </td>
                                 </tr>
@@ -1336,30 +4089,73 @@ const FinAssist: React.FC<{
     );
 };
 
-// --- DB KEYS ---
-const PROFILES_DB_KEY = 'controlFin_profiles_db';
-const PASSWORDS_DB_KEY = 'controlFin_passwords_db';
-const USER_DATA_PREFIX = 'controlFinData_';
+// Password of the seeded admin account; logging in with it always asks for a new one
+const DEFAULT_ADMIN_PASSWORD = 'admin';
+
+const DELETE_ITEM_LABELS = {
+    transaction: { title: 'Transação', noun: 'esta transação' },
+    category: { title: 'Categoria', noun: 'esta categoria' },
+    account: { title: 'Conta', noun: 'esta conta' },
+    tag: { title: 'Tag', noun: 'esta tag e removê-la de todas as transações' },
+    goal: { title: 'Meta', noun: 'esta meta (as transações vinculadas a ela serão mantidas)' },
+};
+
+const BULK_ACTION_MESSAGES: Record<BulkAction, (count: number) => string> = {
+    category: count => `Categoria alterada em ${count} ${count === 1 ? 'transação' : 'transações'}`,
+    date: count => `Data alterada em ${count} ${count === 1 ? 'transação' : 'transações'}`,
+    duplicate: count => `${count} ${count === 1 ? 'transação duplicada' : 'transações duplicadas'}`,
+    makeSubItems: count => `${count} ${count === 1 ? 'transação transformada' : 'transações transformadas'} em subitens`,
+    delete: count => `${count} ${count === 1 ? 'transação excluída' : 'transações excluídas'}`,
+};
 
 // --- MAIN APP COMPONENT ---
 const App: React.FC = () => {
     const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
     const [userProfiles, setUserProfiles] = useState<{ [key: string]: UserProfile }>({});
-    const [userPasswords, setUserPasswords] = useState<{ [key: string]: string }>({});
+    const [userPasswords, setUserPasswords] = useState<{ [key: string]: StoredPassword }>({});
     const [userData, setUserData] = useState<UserData>(DEFAULT_USER_DATA);
     const [isDataLoaded, setIsDataLoaded] = useState(false);
+    const [loadedDataUser, setLoadedDataUser] = useState<string | null>(null);
+    const persistedDataRef = useRef<UserData | null>(null); // userData as last written, to save only what changed
+    // Key that encrypts the logged-in user's data; it only exists in memory, unlocked by their password
+    const [dataKey, setDataKey] = useState<CryptoKey | null>(null);
+    // Key unlocked by a login that still has to finish (email verification or a required password change)
+    const pendingLoginRef = useRef<{ username: string; dataKey: CryptoKey; recoveryKey?: string; replacesRecoveryKey?: boolean; rememberMe: boolean } | null>(null);
+    const [recoveryKeyToShow, setRecoveryKeyToShow] = useState<{ key: string; replaces: boolean } | null>(null);
+    const [session, setSession] = useState<Session | null>(null);
+    const [isLocked, setIsLocked] = useState(false);
+    const [pinAttempts, setPinAttempts] = useState(0);
+    const lastActivityRef = useRef(Date.now());
     
     const [currentPage, setCurrentPage] = useState<Page>('Dashboard');
     const [isSidebarOpen, setSidebarOpen] = useState(false);
-    const [selectedMonth, setSelectedMonth] = useState('all');
+    const [selectedPeriod, setSelectedPeriod] = useState<Period>(ALL_TIME);
 
     const [isTransactionModalOpen, setTransactionModalOpen] = useState(false);
     const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
     const [subItemParentId, setSubItemParentId] = useState<string | undefined>(undefined);
     
     const [isDeleteConfirmModalOpen, setDeleteConfirmModalOpen] = useState(false);
-    const [itemToDelete, setItemToDelete] = useState<{ type: 'transaction' | 'category', id: string } | null>(null);
+    const [categoryToReassign, setCategoryToReassign] = useState<CategoryReassignRequest | null>(null);
+    const [itemToDelete, setItemToDelete] = useState<{ type: keyof typeof DELETE_ITEM_LABELS, id: string } | null>(null);
     const [noteToShow, setNoteToShow] = useState<string | null>(null);
+    const [isRecurringModalOpen, setRecurringModalOpen] = useState(false);
+    const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+    const persistedHistoryRef = useRef<UndoHistory | null>(null);
+    // The latest data and history, updated as soon as they change rather than on the next render, so changes made
+    // in the same tick or after an await build on each other instead of on the state of an old render
+    const userDataRef = useRef(userData);
+    const historyRef = useRef(history);
+    const commitUserData = (data: UserData) => {
+        userDataRef.current = data;
+        setUserData(data);
+    };
+    const commitHistory = (updated: UndoHistory) => {
+        historyRef.current = updated;
+        setHistory(updated);
+    };
+    // Offers to undo the change just made, or to redo the one just undone
+    const [undoToast, setUndoToast] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
 
 
     // PWA Service Worker Registration
@@ -1373,60 +4169,123 @@ const App: React.FC = () => {
         }
       }, []);
 
-    // Load all user profiles and passwords from localStorage on initial render
+    // Load all user profiles and passwords from storage on initial render
     useEffect(() => {
-        const savedProfiles = JSON.parse(localStorage.getItem(PROFILES_DB_KEY) || '{}');
-        const savedPasswords = JSON.parse(localStorage.getItem(PASSWORDS_DB_KEY) || '{}');
-
-        // Ensure admin user exists
-        if (!savedProfiles['admin']) {
-            savedProfiles['admin'] = { 
-                username: 'admin', 
-                displayName: 'Admin',
-                email: 'admin@controlfin.app',
-                isVerified: true,
-                registeredAt: new Date().toISOString() 
-            };
-            savedPasswords['admin'] = 'admin'; // In a real app, this would be hashed
-            localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(savedProfiles));
-            localStorage.setItem(PASSWORDS_DB_KEY, JSON.stringify(savedPasswords));
-        }
+        const loadAuthData = async () => {
+            const [savedProfiles, savedPasswords] = await Promise.all([loadProfiles(), loadPasswords()]);
+
+            // Seed the default admin only while there is no admin, so deleting it doesn't bring it back with the default password
+            const hasAdmin = Object.values(savedProfiles).some(p => p.role === 'admin');
+            if (!hasAdmin && !savedProfiles['admin']) {
+                savedProfiles['admin'] = { 
+                    username: 'admin', 
+                    role: 'admin',
+                    displayName: 'Admin',
+                    email: 'admin@controlfin.app',
+                    isVerified: true,
+                    registeredAt: new Date().toISOString(),
+                    mustChangePassword: true,
+                };
+                savedPasswords['admin'] = await hashPassword(DEFAULT_ADMIN_PASSWORD);
+                await saveProfile(savedProfiles['admin']);
+                await savePassword('admin', savedPasswords['admin']);
+            }
+
+            // A saved session identifies the user, but the data key is gone after a reload: the lock screen asks for the password
+            const restoredSession = await restoreSession();
+            const restoredProfile = restoredSession && savedProfiles[restoredSession.username];
+            if (restoredSession && restoredProfile?.isVerified) {
+                setSession(restoredSession);
+                setCurrentUser(restoredProfile);
+                logActivity(restoredSession.username, 'sessionRestored');
+            } else if (restoredSession) {
+                await endSession(restoredSession);
+            }
 
-        setUserProfiles(savedProfiles);
-        setUserPasswords(savedPasswords);
-        setIsDataLoaded(true);
+            setUserProfiles(savedProfiles);
+            setUserPasswords(savedPasswords);
+            setIsDataLoaded(true);
+        };
+        loadAuthData().catch(err => console.error('Failed to open storage:', err));
     }, []);
     
-    // Load specific user financial data when currentUser changes
+    // Load specific user financial data when the logged-in user changes
+    const currentUsername = currentUser?.username;
     useEffect(() => {
-        if (currentUser) {
-            const savedData = localStorage.getItem(`${USER_DATA_PREFIX}${currentUser.username}`);
-            if (savedData) {
-                const parsedData = JSON.parse(savedData);
-                const categoriesWithIcons = parsedData.categories.map((c: Category) => ({
-                    ...c,
-                    icon: c.icon ?? INITIAL_CATEGORIES.find(ic => ic.name === c.name)?.icon ?? 'question_mark_circle'
-                }));
-                const mergedCategories = [...categoriesWithIcons];
-                INITIAL_CATEGORIES.forEach(initialCat => {
-                    if (!mergedCategories.some(userCat => userCat.name === initialCat.name)) {
-                        mergedCategories.push(initialCat);
-                    }
-                });
-                const theme = parsedData.theme || 'galaxy';
-                setUserData({ ...DEFAULT_USER_DATA, ...parsedData, categories: mergedCategories, theme });
-            } else {
-                setUserData(DEFAULT_USER_DATA);
-            }
-        }
-    }, [currentUser]);
+        setLoadedDataUser(null);
+        if (!currentUsername) return;
+
+        if (!dataKey) return;
 
-    // Save user's financial data to localStorage when it changes
+        let cancelled = false;
+        Promise.all([loadUserData(currentUsername, dataKey), loadHistory(currentUsername, dataKey)]).then(([savedData, savedHistory]) => {
+            if (cancelled) return;
+            persistedDataRef.current = savedData;
+            persistedHistoryRef.current = savedHistory;
+            commitUserData(prepareUserData(savedData ?? DEFAULT_USER_DATA));
+            commitHistory(savedHistory);
+            setLoadedDataUser(currentUsername);
+            // Files whose transactions are gone, and can't come back with an undo, are no longer needed
+            pruneAttachments(currentUsername, getReferencedAttachmentIds(savedData, savedHistory))
+                .catch(err => console.error('Failed to prune attachments:', err));
+        }).catch(err => console.error('Failed to load user data:', err));
+        return () => { cancelled = true; };
+    }, [currentUsername, dataKey]);
+
+    // Save user's financial data when it changes, once it has been loaded for the current user
     useEffect(() => {
-        if (currentUser) {
-            localStorage.setItem(`${USER_DATA_PREFIX}${currentUser.username}`, JSON.stringify(userData));
-        }
-    }, [userData, currentUser]);
+        if (!currentUsername || !dataKey || loadedDataUser !== currentUsername || persistedDataRef.current === userData) return;
+        const previous = persistedDataRef.current;
+        persistedDataRef.current = userData;
+        saveUserData(currentUsername, userData, dataKey, previous ?? undefined).catch(err => console.error('Failed to save user data:', err));
+    }, [userData, currentUsername, dataKey, loadedDataUser]);
+
+    // The undo history is kept with the data, so it survives a page refresh
+    useEffect(() => {
+        if (!currentUsername || !dataKey || loadedDataUser !== currentUsername || persistedHistoryRef.current === history) return;
+        persistedHistoryRef.current = history;
+        saveHistory(currentUsername, history, dataKey).catch(err => console.error('Failed to save undo history:', err));
+    }, [history, currentUsername, dataKey, loadedDataUser]);
+
+    // Receipts are kept encrypted outside the user data, so saving the data doesn't rewrite them every time
+    const attachmentStore = useMemo<AttachmentStore>(() => ({
+        save: async (file, id) => {
+            if (!currentUsername || !dataKey) throw new Error('Sessão bloqueada. Desbloqueie para anexar arquivos.');
+            const prepared = await prepareAttachment(file, id);
+            await saveAttachment(currentUsername, id, prepared.file, prepared.thumbnail, dataKey);
+            return prepared.attachment;
+        },
+        load: async (attachment, variant) => {
+            if (!currentUsername || !dataKey) return null;
+            const bytes = await loadAttachment(currentUsername, attachment.id, variant, dataKey);
+            return bytes && new Blob([bytes], { type: variant === 'thumbnail' ? 'image/jpeg' : attachment.type });
+        },
+    }), [currentUsername, dataKey]);
+
+    // Lock after a period without input, and end the session once it expires
+    const autoLockMinutes = currentUser?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+    useEffect(() => {
+        if (!currentUsername || !dataKey || isLocked) return;
+
+        lastActivityRef.current = Date.now();
+        const markActivity = () => { lastActivityRef.current = Date.now(); };
+        const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+        activityEvents.forEach(event => window.addEventListener(event, markActivity, { passive: true }));
+
+        const interval = setInterval(() => {
+            if (session && isSessionExpired(session)) {
+                endCurrentSession('sessionExpired');
+            } else if (autoLockMinutes > 0 && Date.now() - lastActivityRef.current >= autoLockMinutes * 60000) {
+                setIsLocked(true);
+                logActivity(currentUsername, 'locked', 'Inatividade');
+            }
+        }, 15000);
+
+        return () => {
+            activityEvents.forEach(event => window.removeEventListener(event, markActivity));
+            clearInterval(interval);
+        };
+    }, [currentUsername, dataKey, isLocked, autoLockMinutes, session]);
 
     // Set theme on body
     useEffect(() => {
@@ -1434,16 +4293,126 @@ const App: React.FC = () => {
     }, [userData.theme]);
 
     const generateCode = () => Math.floor(100000 + Math.random() * 900000).toString();
+
+    // Creates a user's data key and stores it wrapped with their password and with a new recovery key
+    const createKeyRing = async (username: string, password: string) => {
+        const dataKey = await generateDataKey();
+        const recoveryKey = generateRecoveryKey();
+        await saveKeyRing({
+            username,
+            password: await wrapDataKey(dataKey, password),
+            recovery: await wrapDataKey(dataKey, recoveryKey),
+            recoveryPending: true,
+        });
+        return { dataKey, recoveryKey };
+    };
+
+    // Unlocks the data key with the password. Accounts from before encryption get one now, with a recovery key to show.
+    // A recovery key the user never confirmed (e.g. the page was reloaded before it was shown) is replaced and shown again.
+    const openKeyRing = async (username: string, password: string): Promise<{ dataKey: CryptoKey; recoveryKey?: string; replacesRecoveryKey?: boolean }> => {
+        const keyRing = await loadKeyRing(username);
+        if (!keyRing) return createKeyRing(username, password);
+        let dataKey: CryptoKey;
+        try {
+            dataKey = await unwrapDataKey(keyRing.password, password);
+        } catch {
+            throw new Error("Não foi possível descriptografar seus dados.");
+        }
+        if (!keyRing.recoveryPending) return { dataKey };
+        const recoveryKey = generateRecoveryKey();
+        await saveKeyRing({ ...keyRing, recovery: await wrapDataKey(dataKey, recoveryKey), recoveryShown: undefined });
+        return { dataKey, recoveryKey, replacesRecoveryKey: keyRing.recoveryShown };
+    };
+
+    // The key ring records that the key was seen before it appears, so a key that gets replaced later is announced
+    const showRecoveryKey = async (username: string, keys: { recoveryKey?: string; replacesRecoveryKey?: boolean }) => {
+        if (!keys.recoveryKey) return;
+        const keyRing = await loadKeyRing(username);
+        if (keyRing?.recoveryPending) await saveKeyRing({ ...keyRing, recoveryShown: true });
+        setRecoveryKeyToShow({ key: keys.recoveryKey, replaces: !!keys.replacesRecoveryKey });
+    };
+
+    // Closing the dialog counts as a confirmation: a key the user has seen is never replaced silently
+    const handleConfirmRecoveryKey = () => {
+        setRecoveryKeyToShow(null);
+        if (!currentUser) return;
+        loadKeyRing(currentUser.username)
+            .then(keyRing => keyRing?.recoveryPending && saveKeyRing({ ...keyRing, recoveryPending: undefined, recoveryShown: undefined }))
+            .catch(err => console.error('Failed to confirm recovery key:', err));
+    };
+
+    const startSession = async (profile: UserProfile, keys: { dataKey: CryptoKey; recoveryKey?: string; replacesRecoveryKey?: boolean }, rememberMe: boolean) => {
+        pendingLoginRef.current = null;
+        setSession(await createSession(profile.username, rememberMe));
+        logActivity(profile.username, 'login', rememberMe ? 'Manter conectado' : undefined);
+        setDataKey(keys.dataKey);
+        setIsLocked(false);
+        setPinAttempts(0);
+        await showRecoveryKey(profile.username, keys);
+        setCurrentUser(profile);
+    };
+
+    const endCurrentSession = (activity: ActivityType) => {
+        if (currentUser) logActivity(currentUser.username, activity);
+        endSession(session).catch(err => console.error('Failed to end session:', err));
+        setSession(null);
+        setDataKey(null);
+        setIsLocked(false);
+        persistedDataRef.current = null;
+        persistedHistoryRef.current = null;
+        commitHistory(EMPTY_HISTORY);
+        setUndoToast(null);
+        setCurrentUser(null);
+        setCurrentPage('Dashboard');
+        setSelectedPeriod(ALL_TIME);
+    };
     
-    const handleLogin = async (username: string, password: string) => {
+    const handleLogin = async (username: string, password: string, rememberMe: boolean): Promise<boolean> => {
       const profile = userProfiles[username];
-      if (!profile || userPasswords[username] !== password) {
+      const storedPassword = userPasswords[username];
+      if (!profile || storedPassword === undefined || !(await verifyPassword(password, storedPassword))) {
+        if (profile) logActivity(username, 'loginFailed');
         throw new Error("Usuário ou senha inválidos.");
       }
       if (!profile.isVerified) {
           throw new Error("Sua conta não foi verificada. Por favor, cadastre-se novamente para receber um novo código.");
       }
-      setCurrentUser(profile);
+      // Plaintext entries from older versions are replaced by a hash now that the password is known
+      if (needsRehash(storedPassword)) {
+          const hashedPassword = await hashPassword(password);
+          setUserPasswords(prev => ({ ...prev, [username]: hashedPassword }));
+          await savePassword(username, hashedPassword);
+      }
+      const keys = await openKeyRing(username, password);
+      if (profile.mustChangePassword || (username === 'admin' && password === DEFAULT_ADMIN_PASSWORD)) {
+          pendingLoginRef.current = { username, ...keys, rememberMe };
+          return true;
+      }
+      await startSession(profile, keys, rememberMe);
+      return false;
+    };
+
+    const handleChangeRequiredPassword = async (username: string, currentPassword: string, newPassword: string) => {
+        const profile = userProfiles[username];
+        const storedPassword = userPasswords[username];
+        const pendingLogin = pendingLoginRef.current;
+        if (!profile || !pendingLogin || pendingLogin.username !== username || storedPassword === undefined || !(await verifyPassword(currentPassword, storedPassword))) {
+            throw new Error("Sessão inválida. Faça o login novamente.");
+        }
+        if (newPassword === currentPassword) {
+            throw new Error("A nova senha deve ser diferente da atual.");
+        }
+
+        const keyRing = await loadKeyRing(username);
+        if (keyRing) await saveKeyRing({ ...keyRing, password: await wrapDataKey(pendingLogin.dataKey, newPassword) });
+        const hashedPassword = await hashPassword(newPassword);
+        const updatedProfile: UserProfile = { ...profile, mustChangePassword: undefined };
+        setUserProfiles(prev => ({ ...prev, [username]: updatedProfile }));
+        setUserPasswords(prev => ({ ...prev, [username]: hashedPassword }));
+        await savePassword(username, hashedPassword);
+        await saveProfile(updatedProfile);
+
+        await startSession(updatedProfile, pendingLogin, pendingLogin.rememberMe);
     };
 
     const handleRegister = async (username: string, password: string, email: string): Promise<string> => {
@@ -1458,6 +4427,7 @@ const App: React.FC = () => {
 
         const newUserProfile: UserProfile = {
             username,
+            role: 'user',
             displayName: username,
             email,
             registeredAt: new Date().toISOString(),
@@ -1465,20 +4435,23 @@ const App: React.FC = () => {
             verificationCode,
         };
 
+        const hashedPassword = await hashPassword(password);
         const updatedProfiles = { ...userProfiles, [username]: newUserProfile };
-        const updatedPasswords = { ...userPasswords, [username]: password };
+        const updatedPasswords = { ...userPasswords, [username]: hashedPassword };
         
         setUserProfiles(updatedProfiles);
         setUserPasswords(updatedPasswords);
 
-        localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(updatedProfiles));
-        localStorage.setItem(PASSWORDS_DB_KEY, JSON.stringify(updatedPasswords));
-        localStorage.setItem(`${USER_DATA_PREFIX}${username}`, JSON.stringify(DEFAULT_USER_DATA));
+        await saveProfile(newUserProfile);
+        await savePassword(username, hashedPassword);
+        const keys = await createKeyRing(username, password);
+        await saveUserData(username, DEFAULT_USER_DATA, keys.dataKey);
+        pendingLoginRef.current = { username, ...keys, rememberMe: false };
         
         return verificationCode;
     };
 
-    const handleVerifyEmail = async (username: string, code: string) => {
+    const handleVerifyEmail = async (username: string, code: string): Promise<boolean> => {
         const profile = userProfiles[username];
         if (!profile || profile.verificationCode !== code) {
             throw new Error("Código de verificação inválido.");
@@ -1487,9 +4460,13 @@ const App: React.FC = () => {
         const verifiedProfile: UserProfile = { ...profile, isVerified: true, verificationCode: undefined };
         const updatedProfiles = { ...userProfiles, [username]: verifiedProfile };
         setUserProfiles(updatedProfiles);
-        localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(updatedProfiles));
+        await saveProfile(verifiedProfile);
         
-        setCurrentUser(verifiedProfile);
+        // The data key from registration is gone if the page was reloaded in between; the password unlocks it again
+        const pendingLogin = pendingLoginRef.current;
+        if (pendingLogin?.username !== username) return false;
+        await startSession(verifiedProfile, pendingLogin, pendingLogin.rememberMe);
+        return true;
     };
 
     const handleForgotPassword = async (email: string): Promise<string | null> => {
@@ -1505,12 +4482,12 @@ const App: React.FC = () => {
         const updatedProfiles = { ...userProfiles, [username]: updatedProfile };
         
         setUserProfiles(updatedProfiles);
-        localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(updatedProfiles));
+        await saveProfile(updatedProfile);
 
         return resetCode;
     };
     
-    const handleResetPassword = async (email: string, code: string, newPassword: string) => {
+    const handleResetPassword = async (email: string, code: string, newPassword: string, recoveryKey: string, discardData: boolean) => {
         const userEntry = Object.entries(userProfiles).find(([_, profile]) => profile.email.toLowerCase() === email.toLowerCase());
         if (!userEntry) throw new Error("Usuário não encontrado.");
 
@@ -1521,37 +4498,149 @@ const App: React.FC = () => {
             throw new Error("Código de recuperação inválido.");
         }
 
-        const updatedProfile = { ...profile, verificationCode: undefined };
+        // The data key is wrapped with the old password, so only the recovery key can move it to the new one
+        const keyRing = await loadKeyRing(username);
+        if (keyRing && recoveryKey.trim()) {
+            let dataKey: CryptoKey;
+            try {
+                dataKey = await unwrapDataKey(keyRing.recovery, normalizeRecoveryKey(recoveryKey));
+            } catch {
+                throw new Error("Chave de recuperação inválida.");
+            }
+            await saveKeyRing({ ...keyRing, password: await wrapDataKey(dataKey, newPassword), recoveryPending: undefined });
+        } else if (keyRing && discardData) {
+            await deleteUserData(username); // A new key ring and recovery key are created on the next login
+        } else if (keyRing) {
+            throw new Error("Informe a chave de recuperação ou confirme que seus dados financeiros serão apagados.");
+        }
+
+        const hashedPassword = await hashPassword(newPassword);
+        const updatedProfile = { ...profile, verificationCode: undefined, mustChangePassword: undefined };
         const updatedProfiles = { ...userProfiles, [username]: updatedProfile };
-        const updatedPasswords = { ...userPasswords, [username]: newPassword };
+        const updatedPasswords = { ...userPasswords, [username]: hashedPassword };
 
         setUserProfiles(updatedProfiles);
         setUserPasswords(updatedPasswords);
-        localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(updatedProfiles));
-        localStorage.setItem(PASSWORDS_DB_KEY, JSON.stringify(updatedPasswords));
+        await saveProfile(updatedProfile);
+        await savePassword(username, hashedPassword);
     };
 
-    const handleLogout = () => {
-        setCurrentUser(null);
-        setCurrentPage('Dashboard');
-        setSelectedMonth('all');
+    const handleLogout = () => endCurrentSession('logout');
+
+    const handleLock = () => {
+        if (!currentUser || isLocked) return;
+        setIsLocked(true);
+        logActivity(currentUser.username, 'locked', 'Manual');
+    };
+
+    const unlock = (method: string) => {
+        setIsLocked(false);
+        setPinAttempts(0);
+        lastActivityRef.current = Date.now();
+        if (currentUser) logActivity(currentUser.username, 'unlocked', method);
+    };
+
+    const assertSessionActive = () => {
+        if (session && isSessionExpired(session)) {
+            endCurrentSession('sessionExpired');
+            throw new Error("Sua sessão expirou. Faça o login novamente.");
+        }
     };
 
+    const handleUnlockWithPassword = async (password: string) => {
+        if (!currentUser) return;
+        assertSessionActive();
+        const storedPassword = userPasswords[currentUser.username];
+        if (storedPassword === undefined || !(await verifyPassword(password, storedPassword))) {
+            logActivity(currentUser.username, 'unlockFailed', 'Senha');
+            throw new Error("Senha incorreta.");
+        }
+        if (!dataKey) {
+            const keys = await openKeyRing(currentUser.username, password);
+            setDataKey(keys.dataKey);
+            await showRecoveryKey(currentUser.username, keys);
+        }
+        unlock('Senha');
+    };
+
+    // The PIN cannot decrypt anything, so it only unlocks while the data key is still in memory
+    const canUnlockWithPin = !!currentUser?.pinHash && !!dataKey && pinAttempts < MAX_PIN_ATTEMPTS;
+
+    const handleUnlockWithPin = async (pin: string) => {
+        if (!currentUser?.pinHash || !canUnlockWithPin) throw new Error("Use sua senha para desbloquear.");
+        assertSessionActive();
+        if (!(await verifyPassword(pin, currentUser.pinHash))) {
+            const attempts = pinAttempts + 1;
+            setPinAttempts(attempts);
+            logActivity(currentUser.username, 'unlockFailed', 'PIN');
+            throw new Error(attempts >= MAX_PIN_ATTEMPTS ? "Muitas tentativas. Use sua senha para desbloquear." : "PIN incorreto.");
+        }
+        unlock('PIN');
+    };
+
+    const handleSetPin = async (pin: string | null) => {
+        handleUpdateProfile({ pinHash: pin ? await hashPassword(pin) : undefined });
+    };
+
+    const handleLoadActivity = (): Promise<ActivityEntry[]> => (currentUser ? loadActivity(currentUser.username) : Promise.resolve([]));
+
+    const handleLoadAttachmentUsage = (): Promise<AttachmentUsage> => (currentUser ? getAttachmentUsage(currentUser.username) : Promise.resolve({ count: 0, bytes: 0 }));
+
     const handleNavigate = (page: Page) => {
         setCurrentPage(page);
         setSidebarOpen(false);
     };
 
+    // --- Undo History ---
+    // Changes the user makes to their data go through here, so each one becomes a step that can be undone.
+    // `showUndo` offers to undo it right away, for changes that remove or overwrite data.
+    const changeUserData = (label: string, update: (prev: UserData) => UserData, showUndo = false) => {
+        const current = userDataRef.current;
+        const updated = update(current);
+        if (updated === current) return;
+        commitHistory(recordChange(historyRef.current, label, current, updated));
+        commitUserData(updated);
+        setUndoToast(showUndo ? { message: label, action: 'undo' } : null);
+    };
+
+    const handleUndo = () => {
+        const result = undoChange(historyRef.current, userDataRef.current);
+        if (!result) return;
+        commitHistory(result.history);
+        commitUserData(result.data);
+        setUndoToast({ message: `Desfeito: ${result.entry.label}`, action: 'redo' });
+    };
+
+    const handleRedo = () => {
+        const result = redoChange(historyRef.current, userDataRef.current);
+        if (!result) return;
+        commitHistory(result.history);
+        commitUserData(result.data);
+        setUndoToast({ message: `Refeito: ${result.entry.label}`, action: 'undo' });
+    };
+
     // --- Transaction Handlers ---
-    const handleSaveTransaction = (transactionData: Omit<Transaction, 'id' | 'subItems'>) => {
-        setUserData(prev => {
+    const handleSaveTransaction = (transactionData: Omit<Transaction, 'id' | 'subItems'>, newTags: Tag[], installmentCount = 1) => {
+        const label = editingTransaction ? 'Transação editada' : installmentCount > 1 ? 'Compra parcelada adicionada' : 'Transação adicionada';
+        changeUserData(label, prev => {
             let updatedTransactions: Transaction[];
             const parentIdToUpdate = transactionData.parentId;
+
+            // Sub-items are always in their parent's currency, so the parent's amount stays their sum
+            if (parentIdToUpdate) {
+                const parent = prev.transactions.find(t => t.id === parentIdToUpdate);
+                transactionData = { ...transactionData, currency: parent?.currency, exchangeRate: parent?.exchangeRate };
+            }
     
             if (editingTransaction) { // --- UPDATE ---
-                updatedTransactions = prev.transactions.map(t =>
-                    t.id === editingTransaction.id ? { ...t, ...transactionData } : t
-                );
+                updatedTransactions = prev.transactions.map(t => {
+                    if (t.id === editingTransaction.id) return { ...t, ...transactionData };
+                    const currencyChanged = t.currency !== transactionData.currency || t.exchangeRate !== transactionData.exchangeRate;
+                    if (t.parentId === editingTransaction.id && currencyChanged) return { ...t, currency: transactionData.currency, exchangeRate: transactionData.exchangeRate };
+                    return t;
+                });
+            } else if (installmentCount > 1) { // --- ADD NEW, IN INSTALLMENTS ---
+                updatedTransactions = [...prev.transactions, ...splitIntoInstallments(transactionData, installmentCount, `inst${Date.now()}`)];
             } else { // --- ADD NEW ---
                 const newTransaction: Transaction = {
                     ...transactionData,
@@ -1569,8 +4658,12 @@ const App: React.FC = () => {
                     t.id === parentIdToUpdate ? { ...t, amount: newParentAmount } : t
                 );
             }
+
+            if (transactionData.recurrence) {
+                updatedTransactions = materializeRecurringTransactions(updatedTransactions).transactions;
+            }
             
-            return { ...prev, transactions: updatedTransactions };
+            return { ...prev, transactions: updatedTransactions, tags: newTags.length > 0 ? [...prev.tags, ...newTags] : prev.tags };
         });
         setEditingTransaction(null);
         setSubItemParentId(undefined);
@@ -1603,35 +4696,155 @@ const App: React.FC = () => {
                 t.id === parentId ? { ...t, amount: newAmount } : t
             );
         }
-        setUserData(prev => ({ ...prev, transactions: updatedTransactions }));
+        changeUserData('Transação excluída', prev => ({ ...prev, transactions: updatedTransactions }), true);
+    };
+
+    // --- Bulk Action Handlers ---
+    const handleBulkAction = (action: BulkAction, ids: string[], value: string) => {
+        const { transactions, categories } = userDataRef.current;
+        const category = categories.find(c => c.id === value);
+        if (action === 'category' && !category) return;
+        const result =
+            action === 'category' ? bulkSetCategory(transactions, ids, category!)
+            : action === 'date' ? bulkSetDate(transactions, ids, new Date(value).toISOString())
+            : action === 'duplicate' ? bulkDuplicateToMonth(transactions, ids, value)
+            : action === 'makeSubItems' ? bulkConvertToSubItems(transactions, ids, value)
+            : bulkDelete(transactions, ids);
+        if (result.affected === 0) {
+            alert("Nenhuma das transações selecionadas pode receber esta ação.");
+            return;
+        }
+        changeUserData(BULK_ACTION_MESSAGES[action](result.affected), prev => ({ ...prev, transactions: result.transactions }), true);
+    };
+
+    // A payment is a transfer into the card, dated today
+    const handlePayInvoice = (cardId: string, fromAccountId: string, amount: number, month: string) => {
+        const card = userData.accounts.find(a => a.id === cardId);
+        if (!card) return;
+        const payment: Transaction = {
+            id: `trans${Date.now()}`,
+            description: `Pagamento da fatura ${card.name} (${formatMonthYear(month)})`,
+            amount,
+            date: new Date(new Date().toISOString().slice(0, 10)).toISOString(),
+            type: TransactionType.TRANSFER,
+            categoryId: '',
+            accountId: fromAccountId,
+            toAccountId: cardId,
+        };
+        changeUserData('Fatura paga', prev => ({ ...prev, transactions: [...prev.transactions, payment] }), true);
+    };
+
+    // --- Recurring Series Handlers ---
+    const handleUpdateSeries = (originId: string, changes: NonNullable<RecurrenceRule['template']>) => {
+        changeUserData('Série recorrente editada', prev => ({ ...prev, transactions: updateSeriesFutureOccurrences(prev.transactions, originId, changes) }));
+    };
+
+    const handleStopSeries = (originId: string) => {
+        changeUserData('Série recorrente encerrada', prev => ({ ...prev, transactions: stopSeries(prev.transactions, originId) }), true);
     };
 
     // --- Category Handlers ---
     const handleUpdateCategories = (categories: Category[]) => {
-        setUserData(prev => ({...prev, categories}));
+        changeUserData('Categorias alteradas', prev => ({...prev, categories}));
     };
     
     const handleDeleteCategoryRequest = (categoryId: string) => {
         const categoryToDelete = userData.categories.find(c => c.id === categoryId);
         if (!categoryToDelete) return;
 
-        const isInUse = userData.transactions.some(t => t.category === categoryToDelete.name || t.subItems?.some(sub => sub.category === categoryToDelete.name));
-        if (isInUse) {
-            alert("Não é possível excluir a categoria, pois ela está sendo usada em transações.");
+        if (getSubcategories(userData.categories, categoryId).length > 0) {
+            alert("Não é possível excluir a categoria, pois ela possui subcategorias. Mova ou exclua as subcategorias primeiro.");
+            return;
+        }
+        if (isCategoryInUse(categoryId, userData.transactions)) {
+            setCategoryToReassign({ categoryId, mode: 'delete' });
             return;
         }
         setItemToDelete({ type: 'category', id: categoryId });
         setDeleteConfirmModalOpen(true);
     };
+
+    const handleMergeCategoryRequest = (categoryId: string) => {
+        if (getSubcategories(userData.categories, categoryId).length > 0) {
+            alert("Não é possível mesclar a categoria, pois ela possui subcategorias. Mova ou exclua as subcategorias primeiro.");
+            return;
+        }
+        setCategoryToReassign({ categoryId, mode: 'merge' });
+    };
+
+    // The source's budget is dropped: the target keeps its own limit
+    const handleMergeCategory = (sourceId: string, targetId: string) => {
+        changeUserData(categoryToReassign?.mode === 'delete' ? 'Categoria excluída' : 'Categorias mescladas', prev => {
+            const { [sourceId]: _, ...budgets } = prev.budgets;
+            return {
+                ...prev,
+                transactions: reassignCategory(prev.transactions, sourceId, targetId),
+                categories: prev.categories.filter(c => c.id !== sourceId),
+                budgets,
+                transactionFilters: prev.transactionFilters.categoryId === sourceId ? { ...prev.transactionFilters, categoryId: targetId } : prev.transactionFilters,
+            };
+        }, true);
+        setCategoryToReassign(null);
+    };
     
     const confirmDeleteCategory = (categoryId: string) => {
-        handleUpdateCategories(userData.categories.filter(c => c.id !== categoryId));
+        changeUserData('Categoria excluída', prev => {
+            const { [categoryId]: _, ...budgets } = prev.budgets;
+            return { ...prev, categories: prev.categories.filter(c => c.id !== categoryId), budgets };
+        }, true);
+    };
+
+    // --- Tag Handlers ---
+    const handleUpdateTags = (tags: Tag[]) => {
+        changeUserData('Tags alteradas', prev => ({ ...prev, tags }));
+    };
+
+    const handleDeleteTagRequest = (tagId: string) => {
+        setItemToDelete({ type: 'tag', id: tagId });
+        setDeleteConfirmModalOpen(true);
+    };
+
+    const confirmDeleteTag = (tagId: string) => {
+        changeUserData('Tag excluída', prev => ({
+            ...prev,
+            tags: prev.tags.filter(t => t.id !== tagId),
+            transactions: removeTagFromTransactions(prev.transactions, tagId),
+            transactionFilters: prev.transactionFilters.tagId === tagId ? { ...prev.transactionFilters, tagId: 'all' } : prev.transactionFilters,
+        }), true);
+    };
+
+    // --- Goal Handlers ---
+    const handleSaveGoal = (goal: Goal) => {
+        const exists = userData.goals.some(g => g.id === goal.id);
+        changeUserData(exists ? 'Meta editada' : 'Meta criada', prev => ({
+            ...prev,
+            goals: exists ? prev.goals.map(g => (g.id === goal.id ? goal : g)) : [...prev.goals, goal],
+        }));
+    };
+
+    const handleDeleteGoalRequest = (goalId: string) => {
+        setItemToDelete({ type: 'goal', id: goalId });
+        setDeleteConfirmModalOpen(true);
+    };
+
+    const confirmDeleteGoal = (goalId: string) => {
+        changeUserData('Meta excluída', prev => ({
+            ...prev,
+            goals: prev.goals.filter(g => g.id !== goalId),
+            transactions: unlinkGoalFromTransactions(prev.transactions, goalId),
+        }), true);
     };
 
     const confirmDelete = () => {
         if (!itemToDelete) return;
         if(itemToDelete.type === 'transaction') {
             confirmDeleteTransaction(itemToDelete.id);
+        } else if (itemToDelete.type === 'account') {
+            confirmDeleteAccount(itemToDelete.id);
+        } else if (itemToDelete.type === 'tag') {
+            confirmDeleteTag(itemToDelete.id);
+        } else if (itemToDelete.type === 'goal') {
+            confirmDeleteGoal(itemToDelete.id);
         } else {
             confirmDeleteCategory(itemToDelete.id);
         }
@@ -1639,6 +4852,25 @@ const App: React.FC = () => {
         setItemToDelete(null);
     };
     
+    // --- Account Handlers ---
+    const handleUpdateAccounts = (accounts: Account[]) => {
+        changeUserData('Contas alteradas', prev => ({ ...prev, accounts }));
+    };
+
+    const handleDeleteAccountRequest = (accountId: string) => {
+        if (userData.accounts.length <= 1) return;
+        if (isAccountInUse(accountId, userData.transactions)) {
+            alert("Não é possível excluir a conta, pois ela está sendo usada em transações.");
+            return;
+        }
+        setItemToDelete({ type: 'account', id: accountId });
+        setDeleteConfirmModalOpen(true);
+    };
+
+    const confirmDeleteAccount = (accountId: string) => {
+        changeUserData('Conta excluída', prev => ({ ...prev, accounts: prev.accounts.filter(a => a.id !== accountId) }), true);
+    };
+
     // --- Profile & Other Handlers ---
     const handleUpdateProfile = (profileUpdate: Partial<UserProfile>) => {
         if (!currentUser) return;
@@ -1647,10 +4879,19 @@ const App: React.FC = () => {
         const updatedProfiles = { ...userProfiles, [currentUser.username]: updatedProfile };
         setUserProfiles(updatedProfiles);
         setCurrentUser(updatedProfile);
-        localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(updatedProfiles));
+        saveProfile(updatedProfile).catch(err => console.error('Failed to save profile:', err));
     };
     
     const handleDeleteUser = (usernameToDelete: string) => {
+        const actor = currentUser && userProfiles[currentUser.username];
+        const target = userProfiles[usernameToDelete];
+        if (!actor || !target) return;
+        const error = getDeleteUserError(actor, target, userProfiles);
+        if (error) {
+            alert(error);
+            return;
+        }
+
         const updatedProfiles = { ...userProfiles };
         delete updatedProfiles[usernameToDelete];
 
@@ -1660,14 +4901,57 @@ const App: React.FC = () => {
         setUserProfiles(updatedProfiles);
         setUserPasswords(updatedPasswords);
         
-        localStorage.setItem(PROFILES_DB_KEY, JSON.stringify(updatedProfiles));
-        localStorage.setItem(PASSWORDS_DB_KEY, JSON.stringify(updatedPasswords));
-        localStorage.removeItem(`${USER_DATA_PREFIX}${usernameToDelete}`);
+        deleteUser(usernameToDelete).catch(err => console.error('Failed to delete user:', err));
+        if (usernameToDelete === actor.username) handleLogout();
+    };
+
+    const handleChangeUserRole = (username: string, role: UserRole) => {
+        const actor = currentUser && userProfiles[currentUser.username];
+        const target = userProfiles[username];
+        if (!actor || !target || target.role === role) return;
+        const error = getRoleChangeError(actor, target, role, userProfiles);
+        if (error) {
+            alert(error);
+            return;
+        }
+
+        const updatedProfile: UserProfile = { ...target, role };
+        setUserProfiles(prev => ({ ...prev, [username]: updatedProfile }));
+        saveProfile(updatedProfile).catch(err => console.error('Failed to save profile:', err));
+        if (username === actor.username) {
+            setCurrentUser(updatedProfile);
+            if (!hasPermission(updatedProfile, 'viewAdminPanel')) setCurrentPage('Dashboard');
+        }
+    };
+
+    const handleImportTransactions = (imported: Transaction[]) => {
+        changeUserData('Transações importadas', prev => ({ ...prev, transactions: [...prev.transactions, ...imported] }));
     };
 
-    const handleUpdateCurrency = (currency: string) => setUserData(prev => ({ ...prev, currency }));
-    const handleUpdateTheme = (theme: 'galaxy' | 'minimalist') => setUserData(prev => ({ ...prev, theme }));
-    const handleNewChatMessage = (message: ChatMessage) => setUserData(prev => ({ ...prev, chatHistory: [...prev.chatHistory, message]}));
+    const handleRestoreBackup = (backup: BackupFile, mode: RestoreMode) => {
+        if (mode === 'replace') {
+            changeUserData('Backup restaurado', () => prepareUserData(runMigrations(backup.data, 0)), true);
+            handleUpdateProfile({ displayName: backup.profile.displayName, profilePicture: backup.profile.profilePicture });
+        } else {
+            changeUserData('Backup mesclado', prev => prepareUserData(mergeUserData(prev, runMigrations(backup.data, 0))), true);
+        }
+    };
+
+    const handleUpdateBudgets = (budgets: UserData['budgets']) => changeUserData('Orçamentos alterados', prev => ({ ...prev, budgets }));
+    const handleUpdateTransactionFilters = (transactionFilters: TransactionFilters) => commitUserData({ ...userDataRef.current, transactionFilters });
+    const handleUpdateCurrency = (currency: string) => {
+        try {
+            changeUserData('Moeda base alterada', prev => changeBaseCurrency(prev, currency));
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Não foi possível mudar a moeda base.');
+        }
+    };
+    const handleUpdateExchangeRates = (exchangeRates: ExchangeRate[]) => changeUserData('Cotações alteradas', prev => ({ ...prev, exchangeRates }));
+    const handleUpdateTheme = (theme: 'galaxy' | 'minimalist') => changeUserData('Tema alterado', prev => ({ ...prev, theme }));
+    const handleNewChatMessage = (message: ChatMessage) => {
+        const current = userDataRef.current;
+        commitUserData({ ...current, chatHistory: [...current.chatHistory, message] });
+    };
 
     const transactionsWithSubItems = useMemo(() => {
         const allTransactions = [...userData.transactions];
@@ -1687,6 +4971,45 @@ const App: React.FC = () => {
         return rootTransactions;
     }, [userData.transactions]);
     
+    useEffect(() => {
+        if (!undoToast) return;
+        const timeout = setTimeout(() => setUndoToast(null), 10000);
+        return () => clearTimeout(timeout);
+    }, [undoToast]);
+
+    // Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo. Inside text fields the browser's own undo applies.
+    // Undo and redo read the data and history from refs, so the listener doesn't need to change with them.
+    useEffect(() => {
+        if (!currentUsername || isLocked) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const target = e.target as HTMLElement;
+            if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [currentUsername, isLocked]);
+
+    // FinAssist reads the category of each transaction by name
+    const finAssistTransactions = useMemo(
+        () => withCategoryNames(convertToBaseCurrency(userData.transactions, userData.currency, userData.exchangeRates), userData.categories),
+        [userData.transactions, userData.currency, userData.exchangeRates, userData.categories]
+    );
+
+    // The dashboard and reports add amounts up, so they get every amount in the base currency
+    const baseCurrencyData = useMemo(
+        () => ({ ...userData, transactions: convertToBaseCurrency(userData.transactions, userData.currency, userData.exchangeRates) }),
+        [userData]
+    );
+    
     const formatMonthYear = useCallback((monthStr: string) => {
         const [year, month] = monthStr.split('-');
         return new Date(parseInt(year), parseInt(month) - 1).toLocaleString('pt-BR', {
@@ -1715,38 +5038,70 @@ const App: React.FC = () => {
             onVerifyEmail={handleVerifyEmail}
             onForgotPassword={handleForgotPassword}
             onResetPassword={handleResetPassword}
+            onChangeRequiredPassword={handleChangeRequiredPassword}
+        />;
+    }
+
+    if (!dataKey) {
+        return <LockScreen
+            userProfile={currentUser}
+            canUsePin={false}
+            onUnlockWithPassword={handleUnlockWithPassword}
+            onUnlockWithPin={handleUnlockWithPin}
+            onLogout={handleLogout}
         />;
     }
 
+    if (loadedDataUser !== currentUser.username) {
+        return <div className="w-screen h-screen bg-slate-900 flex items-center justify-center"><Spinner /></div>
+    }
+
     const renderPage = () => {
         switch (currentPage) {
             case 'Dashboard':
                 return <Dashboard 
-                            userData={userData} 
-                            selectedMonth={selectedMonth} 
-                            onMonthChange={setSelectedMonth}
+                            userData={baseCurrencyData} 
+                            period={selectedPeriod}
+                            onPeriodChange={setSelectedPeriod}
                             availableMonths={availableMonths}
                             formatMonthYear={formatMonthYear}
+                            onPayInvoice={handlePayInvoice}
                         />;
             case 'Transactions':
                 return <TransactionsPage 
                             transactions={transactionsWithSubItems}
                             categories={userData.categories}
+                            accounts={userData.accounts}
+                            tags={userData.tags}
                             currency={userData.currency}
+                            exchangeRates={userData.exchangeRates}
                             onAddTransaction={(parentId) => openTransactionModal(undefined, parentId)}
                             onEditTransaction={(t) => openTransactionModal(t)}
                             onDeleteTransaction={handleDeleteTransactionRequest}
                             onShowNote={(note) => setNoteToShow(note)}
-                            selectedMonth={selectedMonth}
-                            onMonthChange={setSelectedMonth}
+                            onManageRecurring={() => setRecurringModalOpen(true)}
+                            period={selectedPeriod}
+                            onPeriodChange={setSelectedPeriod}
                             availableMonths={availableMonths}
                             formatMonthYear={formatMonthYear}
+                            savedFilters={userData.transactionFilters}
+                            onFiltersChange={handleUpdateTransactionFilters}
+                            onBulkAction={handleBulkAction}
+                            attachmentStore={attachmentStore}
                          />;
+            case 'Goals':
+                return <GoalsPage
+                            goals={userData.goals}
+                            transactions={baseCurrencyData.transactions}
+                            currency={userData.currency}
+                            onSaveGoal={handleSaveGoal}
+                            onDeleteGoal={handleDeleteGoalRequest}
+                        />;
             case 'Reports':
                 return <ReportsPage
-                            userData={userData} 
-                            selectedMonth={selectedMonth}
-                            onMonthChange={setSelectedMonth}
+                            userData={baseCurrencyData} 
+                            period={selectedPeriod}
+                            onPeriodChange={setSelectedPeriod}
                             availableMonths={availableMonths}
                             formatMonthYear={formatMonthYear}
                         />;
@@ -1755,17 +5110,29 @@ const App: React.FC = () => {
                     userData={userData}
                     userProfile={currentUser}
                     onUpdateCategories={handleUpdateCategories}
+                    onUpdateBudgets={handleUpdateBudgets}
+                    onUpdateAccounts={handleUpdateAccounts}
+                    onDeleteAccount={handleDeleteAccountRequest}
                     onUpdateCurrency={handleUpdateCurrency}
+                    onUpdateExchangeRates={handleUpdateExchangeRates}
                     onDeleteCategory={handleDeleteCategoryRequest}
+                    onMergeCategory={handleMergeCategoryRequest}
+                    onUpdateTags={handleUpdateTags}
+                    onDeleteTag={handleDeleteTagRequest}
                     onUpdateTheme={handleUpdateTheme}
                     onUpdateProfile={handleUpdateProfile}
+                    onImportTransactions={handleImportTransactions}
+                    onRestoreBackup={handleRestoreBackup}
+                    onSetPin={handleSetPin}
+                    onLoadActivity={handleLoadActivity}
+                    onLoadAttachmentUsage={handleLoadAttachmentUsage}
                 />;
             case 'Admin Panel':
-                return currentUser.username === 'admin' ? 
-                       <AdminPage userProfiles={userProfiles} onDeleteUser={handleDeleteUser} /> 
-                       : <Dashboard userData={userData} selectedMonth={selectedMonth} onMonthChange={setSelectedMonth} availableMonths={availableMonths} formatMonthYear={formatMonthYear}/>; // fallback
+                return hasPermission(currentUser, 'viewAdminPanel') ? 
+                       <AdminPage currentUser={currentUser} userProfiles={userProfiles} onDeleteUser={handleDeleteUser} onChangeUserRole={handleChangeUserRole} /> 
+                       : <Dashboard userData={baseCurrencyData} period={selectedPeriod} onPeriodChange={setSelectedPeriod} availableMonths={availableMonths} formatMonthYear={formatMonthYear} onPayInvoice={handlePayInvoice}/>; // fallback
             default:
-                return <Dashboard userData={userData} selectedMonth={selectedMonth} onMonthChange={setSelectedMonth} availableMonths={availableMonths} formatMonthYear={formatMonthYear}/>;
+                return <Dashboard userData={baseCurrencyData} period={selectedPeriod} onPeriodChange={setSelectedPeriod} availableMonths={availableMonths} formatMonthYear={formatMonthYear} onPayInvoice={handlePayInvoice}/>;
         }
     };
     
@@ -1775,6 +5142,7 @@ const App: React.FC = () => {
                 currentPage={currentPage}
                 onNavigate={handleNavigate}
                 onLogout={handleLogout}
+                onLock={handleLock}
                 userProfile={currentUser}
                 isOpen={isSidebarOpen}
             />
@@ -1787,7 +5155,7 @@ const App: React.FC = () => {
             </div>
 
             <FinAssist 
-                transactions={userData.transactions}
+                transactions={finAssistTransactions}
                 history={userData.chatHistory}
                 onNewMessage={handleNewChatMessage}
             />
@@ -1797,25 +5165,71 @@ const App: React.FC = () => {
                 onClose={() => { setTransactionModalOpen(false); setEditingTransaction(null); setSubItemParentId(undefined); }}
                 onSave={handleSaveTransaction}
                 categories={userData.categories}
+                accounts={userData.accounts}
+                tags={userData.tags}
+                goals={userData.goals}
                 currency={userData.currency}
+                exchangeRates={userData.exchangeRates}
+                parentCurrency={userData.transactions.find(t => t.id === (subItemParentId ?? editingTransaction?.parentId))?.currency}
                 editingTransaction={editingTransaction}
                 parentId={subItemParentId}
+                formatMonthYear={formatMonthYear}
+                attachmentStore={attachmentStore}
+            />
+
+            <RecurringSeriesModal
+                isOpen={isRecurringModalOpen}
+                onClose={() => setRecurringModalOpen(false)}
+                transactions={userData.transactions}
+                categories={userData.categories}
+                currency={userData.currency}
+                onUpdateSeries={handleUpdateSeries}
+                onStopSeries={handleStopSeries}
+            />
+
+            <CategoryReassignModal
+                request={categoryToReassign}
+                categories={userData.categories}
+                transactions={userData.transactions}
+                onClose={() => setCategoryToReassign(null)}
+                onConfirm={handleMergeCategory}
             />
 
             <ConfirmationModal
                 isOpen={isDeleteConfirmModalOpen}
                 onClose={() => setDeleteConfirmModalOpen(false)}
                 onConfirm={confirmDelete}
-                title={`Excluir ${itemToDelete?.type === 'transaction' ? 'Transação' : 'Categoria'}`}
+                title={`Excluir ${DELETE_ITEM_LABELS[itemToDelete?.type ?? 'transaction'].title}`}
                 confirmText="Excluir"
                 confirmVariant="danger"
             >
                 <p>
-                    Você tem certeza de que deseja excluir est{itemToDelete?.type === 'transaction' ? 'a transação' : 'a categoria'}? 
-                    Esta ação não pode ser desfeita.
+                    Você tem certeza de que deseja excluir {DELETE_ITEM_LABELS[itemToDelete?.type ?? 'transaction'].noun}? 
+                    Você poderá desfazer logo em seguida.
                 </p>
             </ConfirmationModal>
 
+            <Modal
+                isOpen={recoveryKeyToShow !== null}
+                onClose={handleConfirmRecoveryKey}
+                title="Sua Chave de Recuperação"
+            >
+                <div className="space-y-4 text-[var(--color-text-secondary)]">
+                    <p>Seus dados financeiros são criptografados com a sua senha. Se você esquecer a senha, só esta chave permite recuperá-los.</p>
+                    {recoveryKeyToShow?.replaces && (
+                        <p className="text-sm p-3 rounded-lg bg-[var(--color-danger)]/20 text-[var(--color-text-primary)]">
+                            Esta chave substitui a que foi exibida antes e não chegou a ser confirmada. A chave anterior não vale mais.
+                        </p>
+                    )}
+                    <p className="font-mono text-lg text-center text-[var(--color-text-primary)] bg-[var(--color-bg-primary)] border border-[var(--color-border)] rounded-lg p-3 select-all break-all">{recoveryKeyToShow?.key}</p>
+                    <p className="text-sm">Guarde-a em um lugar seguro. Ela não será exibida novamente.</p>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="secondary" onClick={() => navigator.clipboard?.writeText(recoveryKeyToShow?.key ?? '')}>Copiar</Button>
+                        <Button variant="primary" onClick={handleConfirmRecoveryKey}>Já guardei</Button>
+                    </div>
+                </div>
+            </Modal>
+
             <Modal
                 isOpen={noteToShow !== null}
                 onClose={() => setNoteToShow(null)}
@@ -1830,6 +5244,29 @@ const App: React.FC = () => {
                     </Button>
                 </div>
             </Modal>
+
+            {undoToast && (
+                <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-lg shadow-lg px-4 py-3" role="status">
+                    <span className="text-[var(--color-text-primary)]">{undoToast.message}</span>
+                    {undoToast.action === 'undo'
+                        ? <Button variant="secondary" onClick={handleUndo} title="Ctrl+Z">Desfazer</Button>
+                        : <Button variant="secondary" onClick={handleRedo} title="Ctrl+Shift+Z">Refazer</Button>}
+                    <button onClick={() => setUndoToast(null)} className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]" aria-label="Fechar">
+                        <Icon name="x_mark" className="h-4 w-4" />
+                    </button>
+                </div>
+            )}
+
+            {/* Covers the app instead of replacing it, so the open page, filters and forms survive the lock */}
+            {isLocked && (
+                <LockScreen
+                    userProfile={currentUser}
+                    canUsePin={canUnlockWithPin}
+                    onUnlockWithPassword={handleUnlockWithPassword}
+                    onUnlockWithPin={handleUnlockWithPin}
+                    onLogout={handleLogout}
+                />
+            )}
         </div>
     );
 };
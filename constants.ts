@@ -0,0 +1,28 @@
+import { Account, Category, UserData } from './types';
+import { EMPTY_FILTERS } from './utils/filters';
+
+export const INITIAL_CATEGORIES: Category[] = [
+    { id: 'cat1', name: 'Supermercado', icon: 'shopping_cart', kind: 'expense' },
+    { id: 'cat2', name: 'Contas de Casa', icon: 'home', kind: 'expense' },
+    { id: 'cat3', name: 'Aluguel', icon: 'key', kind: 'expense' },
+    { id: 'cat4', name: 'Salário', icon: 'currency_dollar', kind: 'income' },
+    { id: 'cat5', name: 'Lazer', icon: 'puzzle_piece', kind: 'expense' },
+];
+
+export const INITIAL_ACCOUNTS: Account[] = [
+    { id: 'acc1', name: 'Conta Corrente', type: 'checking', openingBalance: 0 },
+];
+
+export const DEFAULT_USER_DATA: UserData = {
+  transactions: [],
+  categories: INITIAL_CATEGORIES,
+  accounts: INITIAL_ACCOUNTS,
+  currency: 'BRL',
+  chatHistory: [],
+  theme: 'galaxy',
+  budgets: {},
+  tags: [],
+  transactionFilters: EMPTY_FILTERS,
+  exchangeRates: [],
+  goals: [],
+};
@@ -0,0 +1,76 @@
+import { ActivityType, Session } from '../types';
+import { addActivity, deleteSession, loadSession, saveSession } from './storage';
+import { toBase64 } from '../utils/crypto';
+
+const SESSION_TOKEN_KEY = 'controlFin_session';
+const SESSION_DURATION_MS = 12 * 60 * 60 * 1000;
+const REMEMBER_ME_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0]; // 0 = never
+export const MAX_PIN_ATTEMPTS = 5;
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  login: 'Login',
+  loginFailed: 'Tentativa de login com senha incorreta',
+  logout: 'Logout',
+  sessionRestored: 'Sessão retomada',
+  sessionExpired: 'Sessão expirada',
+  locked: 'Sessão bloqueada',
+  unlocked: 'Sessão desbloqueada',
+  unlockFailed: 'Tentativa de desbloqueio falhou',
+};
+
+export const logActivity = (username: string, type: ActivityType, detail?: string) =>
+  addActivity({ username, type, detail, timestamp: new Date().toISOString() })
+    .catch(err => console.error('Failed to record activity:', err));
+
+// A remembered session survives browser restarts; otherwise the token only lives as long as the tab.
+const tokenStorage = (rememberMe: boolean) => (rememberMe ? localStorage : sessionStorage);
+
+const readToken = () => sessionStorage.getItem(SESSION_TOKEN_KEY) ?? localStorage.getItem(SESSION_TOKEN_KEY);
+
+const clearToken = () => {
+  sessionStorage.removeItem(SESSION_TOKEN_KEY);
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+};
+
+export const isSessionExpired = (session: Session, now = new Date()) => new Date(session.expiresAt).getTime() <= now.getTime();
+
+export const createSession = async (username: string, rememberMe: boolean): Promise<Session> => {
+  const now = new Date();
+  const session: Session = {
+    token: toBase64(crypto.getRandomValues(new Uint8Array(32))),
+    username,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + (rememberMe ? REMEMBER_ME_DURATION_MS : SESSION_DURATION_MS)).toISOString(),
+    rememberMe,
+  };
+  await saveSession(session);
+  clearToken();
+  tokenStorage(rememberMe).setItem(SESSION_TOKEN_KEY, session.token);
+  return session;
+};
+
+/** Returns the session saved by this browser if it is still valid. Expired sessions are removed and logged. */
+export const restoreSession = async (): Promise<Session | null> => {
+  const token = readToken();
+  if (!token) return null;
+
+  const session = await loadSession(token);
+  if (!session) {
+    clearToken();
+    return null;
+  }
+  if (isSessionExpired(session)) {
+    await endSession(session);
+    logActivity(session.username, 'sessionExpired');
+    return null;
+  }
+  return session;
+};
+
+export const endSession = async (session: Session | null) => {
+  clearToken();
+  if (session) await deleteSession(session.token);
+};
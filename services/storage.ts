@@ -0,0 +1,502 @@
+import { ActivityEntry, Session, StoredPassword, Transaction, UserData, UserProfile } from '../types';
+import { CURRENT_SCHEMA_VERSION, applyDefaults, runMigrations } from '../utils/migrations';
+import { EncryptedBytes, EncryptedPayload, WrappedKey, decryptBytes, decryptJson, encryptBytes, encryptJson } from '../utils/crypto';
+import { EMPTY_HISTORY, UndoHistory } from '../utils/history';
+
+const DB_NAME = 'controlfin';
+const DB_VERSION = 6;
+
+const STORES = {
+  profiles: 'profiles',
+  credentials: 'credentials',
+  userData: 'userData',
+  transactions: 'transactions',
+  keys: 'keys',
+  sessions: 'sessions',
+  activity: 'activity',
+  history: 'history',
+  attachments: 'attachments',
+} as const;
+
+// Entries kept per user in the activity log; older ones are dropped as new ones are added
+const MAX_ACTIVITY_ENTRIES = 200;
+
+// Keys used before the IndexedDB store existed; their content is moved into the database on first open.
+const LEGACY_PROFILES_KEY = 'controlFin_profiles_db';
+const LEGACY_PASSWORDS_KEY = 'controlFin_passwords_db';
+const LEGACY_USER_DATA_PREFIX = 'controlFinData_';
+
+interface CredentialRecord {
+  username: string;
+  password: StoredPassword;
+}
+
+// A user's data key, wrapped once with their password and once with their recovery key
+export interface KeyRing {
+  username: string;
+  password: WrappedKey;
+  recovery: WrappedKey;
+  recoveryPending?: boolean; // The recovery key has not been confirmed as saved by the user yet
+  recoveryShown?: boolean; // The pending recovery key was displayed, so replacing it must be announced
+}
+
+// Everything in UserData except transactions, which are stored one record per transaction.
+// `settings` holds plaintext data saved before encryption existed; it is encrypted on the user's next login.
+interface UserDataRecord {
+  username: string;
+  schemaVersion: number;
+  settings?: Omit<UserData, 'transactions'>;
+  encrypted?: EncryptedPayload;
+}
+
+// Transactions are not indexed by date or category: both are encrypted, and a user's transactions are always
+// read together with the rest of their data. Nothing but the key stays readable.
+interface EncryptedTransactionRecord {
+  username: string;
+  id: string;
+  payload: EncryptedPayload;
+}
+
+// The undo history holds the same data as the user's records, so it is encrypted with the same key
+interface HistoryRecord {
+  username: string;
+  schemaVersion: number;
+  encrypted: EncryptedPayload;
+}
+
+// An attached file and, for images, a small preview, encrypted separately so lists only decrypt the previews
+interface AttachmentRecord {
+  username: string;
+  id: string;
+  file: EncryptedBytes;
+  thumbnail?: EncryptedBytes;
+}
+
+export type AttachmentVariant = 'file' | 'thumbnail';
+
+export interface AttachmentUsage {
+  count: number;
+  bytes: number; // Encrypted size, previews included
+}
+
+type PlainTransactionRecord = Transaction & { username: string };
+type TransactionRecord = EncryptedTransactionRecord | PlainTransactionRecord;
+
+// --- Helpers ---
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Every transaction of a user: keys are [username, id] and an array sorts after any string.
+const userRange = (username: string) => IDBKeyRange.bound([username], [username, []]);
+
+const toPlainRecord = (username: string, transaction: Transaction): PlainTransactionRecord => {
+  const { subItems, ...stored } = transaction; // sub-items are derived from parentId and never stored
+  return { ...stored, username };
+};
+
+const toRecord = async (username: string, transaction: Transaction, key: CryptoKey): Promise<EncryptedTransactionRecord> => {
+  const { subItems, ...stored } = transaction;
+  return { username, id: transaction.id, payload: await encryptJson(key, stored) };
+};
+
+const fromRecord = async (record: TransactionRecord, key: CryptoKey): Promise<Transaction> => {
+  if ('payload' in record) return decryptJson<Transaction>(key, record.payload);
+  const { username, ...transaction } = record;
+  return transaction;
+};
+
+// Encryption is asynchronous and an IndexedDB transaction commits as soon as it is left idle, so every
+// write encrypts first and then opens its transaction. Running them one at a time keeps saves in order.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const readLegacyJson = (key: string) => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const legacyUserDataKeys = () => Object.keys(localStorage).filter(key => key.startsWith(LEGACY_USER_DATA_PREFIX));
+
+/** Copies the localStorage database into the freshly created stores, inside the upgrade transaction. */
+const importLegacyStorage = (tx: IDBTransaction) => {
+  const profiles: { [username: string]: UserProfile } = readLegacyJson(LEGACY_PROFILES_KEY) || {};
+  const passwords: { [username: string]: string } = readLegacyJson(LEGACY_PASSWORDS_KEY) || {};
+  Object.values(profiles).forEach(profile => tx.objectStore(STORES.profiles).put(profile));
+  Object.entries(passwords).forEach(([username, password]) => tx.objectStore(STORES.credentials).put({ username, password }));
+
+  legacyUserDataKeys().forEach(key => {
+    const username = key.slice(LEGACY_USER_DATA_PREFIX.length);
+    const data = readLegacyJson(key);
+    if (!data) return;
+    const { transactions = [], ...settings } = data;
+    // Version 0 makes the first load run every migration, as the old load code did on each start.
+    tx.objectStore(STORES.userData).put({ username, schemaVersion: 0, settings });
+    transactions.forEach((t: Transaction) => tx.objectStore(STORES.transactions).put(toPlainRecord(username, t)));
+  });
+};
+
+// Removes the readable date that encrypted transaction records carried up to version 5.
+const stripRecordDates = (store: IDBObjectStore) => {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const record = cursor.value;
+    if ('payload' in record && 'date' in record) {
+      const { date, ...stripped } = record;
+      cursor.update(stripped);
+    }
+    cursor.continue();
+  };
+};
+
+// Deletes every record of a store whose 'byUser' index matches `username`.
+const deleteByUser = (store: IDBObjectStore, username: string) => {
+  const request = store.index('byUser').openKeyCursor(IDBKeyRange.only(username));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+const removeLegacyStorage = () => {
+  [LEGACY_PROFILES_KEY, LEGACY_PASSWORDS_KEY, ...legacyUserDataKeys()].forEach(key => localStorage.removeItem(key));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let importedLegacy = false;
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const tx = request.transaction!;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORES.profiles, { keyPath: 'username' });
+        db.createObjectStore(STORES.credentials, { keyPath: 'username' });
+        db.createObjectStore(STORES.userData, { keyPath: 'username' });
+        const transactions = db.createObjectStore(STORES.transactions, { keyPath: ['username', 'id'] });
+        transactions.createIndex('byUser', 'username');
+        importLegacyStorage(tx);
+        importedLegacy = true;
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(STORES.keys, { keyPath: 'username' });
+        // Categories are encrypted from version 2 on, so they can no longer be indexed.
+        const transactions = tx.objectStore(STORES.transactions);
+        if (transactions.indexNames.contains('byUserCategory')) transactions.deleteIndex('byUserCategory');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(STORES.sessions, { keyPath: 'token' }).createIndex('byUser', 'username');
+        db.createObjectStore(STORES.activity, { keyPath: 'id', autoIncrement: true }).createIndex('byUser', 'username');
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(STORES.history, { keyPath: 'username' });
+      }
+      if (event.oldVersion < 5) {
+        db.createObjectStore(STORES.attachments, { keyPath: ['username', 'id'] });
+      }
+      if (event.oldVersion < 6) {
+        // Dates were left readable only for the date index, which goes the way of the category index of version 2
+        const transactions = tx.objectStore(STORES.transactions);
+        if (transactions.indexNames.contains('byUserDate')) transactions.deleteIndex('byUserDate');
+        stripRecordDates(transactions);
+      }
+    };
+    request.onsuccess = () => {
+      // Only drop the old keys once the upgrade that copied them has been committed.
+      if (importedLegacy) removeLegacyStorage();
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// --- Profiles & credentials ---
+
+// Profiles saved before roles existed: only the seeded admin account had admin rights
+const withRole = (profile: UserProfile): UserProfile =>
+  profile.role ? profile : { ...profile, role: profile.username === 'admin' ? 'admin' : 'user' };
+
+export const loadProfiles = async (): Promise<{ [username: string]: UserProfile }> => {
+  const db = await openDatabase();
+  const profiles: UserProfile[] = await promisify(db.transaction(STORES.profiles).objectStore(STORES.profiles).getAll());
+  return Object.fromEntries(profiles.map(p => [p.username, withRole(p)]));
+};
+
+export const loadPasswords = async (): Promise<{ [username: string]: StoredPassword }> => {
+  const db = await openDatabase();
+  const records: CredentialRecord[] = await promisify(db.transaction(STORES.credentials).objectStore(STORES.credentials).getAll());
+  return Object.fromEntries(records.map(r => [r.username, r.password]));
+};
+
+export const saveProfile = async (profile: UserProfile) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.profiles, 'readwrite');
+  tx.objectStore(STORES.profiles).put(profile);
+  await completion(tx);
+};
+
+export const savePassword = async (username: string, password: StoredPassword) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.credentials, 'readwrite');
+  tx.objectStore(STORES.credentials).put({ username, password });
+  await completion(tx);
+};
+
+/** Removes the profile, credentials and every financial record of a user. */
+export const deleteUser = (username: string) => enqueue(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(Object.values(STORES), 'readwrite');
+  tx.objectStore(STORES.profiles).delete(username);
+  tx.objectStore(STORES.credentials).delete(username);
+  tx.objectStore(STORES.userData).delete(username);
+  tx.objectStore(STORES.transactions).delete(userRange(username));
+  tx.objectStore(STORES.keys).delete(username);
+  tx.objectStore(STORES.history).delete(username);
+  tx.objectStore(STORES.attachments).delete(userRange(username));
+  deleteByUser(tx.objectStore(STORES.sessions), username);
+  deleteByUser(tx.objectStore(STORES.activity), username);
+  await completion(tx);
+});
+
+/** Removes a user's financial data and key ring, e.g. after a password reset without the recovery key. */
+export const deleteUserData = (username: string) => enqueue(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.userData, STORES.transactions, STORES.keys, STORES.history, STORES.attachments], 'readwrite');
+  tx.objectStore(STORES.userData).delete(username);
+  tx.objectStore(STORES.transactions).delete(userRange(username));
+  tx.objectStore(STORES.keys).delete(username);
+  tx.objectStore(STORES.history).delete(username);
+  tx.objectStore(STORES.attachments).delete(userRange(username));
+  await completion(tx);
+});
+
+// --- Keys ---
+
+export const loadKeyRing = async (username: string): Promise<KeyRing | null> => {
+  const db = await openDatabase();
+  const keyRing = await promisify<KeyRing | undefined>(db.transaction(STORES.keys).objectStore(STORES.keys).get(username));
+  return keyRing ?? null;
+};
+
+export const saveKeyRing = async (keyRing: KeyRing) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.keys, 'readwrite');
+  tx.objectStore(STORES.keys).put(keyRing);
+  await completion(tx);
+};
+
+// --- Financial data ---
+
+/**
+ * Loads and decrypts a user's data, brought up to the current schema. Data saved by an older version,
+ * or saved before encryption existed, is migrated and written back encrypted once.
+ * Returns null for users that have never saved anything.
+ */
+export const loadUserData = (username: string, key: CryptoKey): Promise<UserData | null> => enqueue(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.userData, STORES.transactions]);
+  const [record, transactionRecords] = await Promise.all([
+    promisify<UserDataRecord | undefined>(tx.objectStore(STORES.userData).get(username)),
+    promisify<TransactionRecord[]>(tx.objectStore(STORES.transactions).getAll(userRange(username))),
+  ]);
+  if (!record) return null;
+
+  const settings = record.encrypted ? await decryptJson<Omit<UserData, 'transactions'>>(key, record.encrypted) : record.settings!;
+  const transactions = await Promise.all(transactionRecords.map(r => fromRecord(r, key)));
+  const stored = { ...settings, transactions };
+  const isPlaintext = !record.encrypted || transactionRecords.some(r => !('payload' in r));
+  if (record.schemaVersion === CURRENT_SCHEMA_VERSION && !isPlaintext) return applyDefaults(stored);
+
+  const migrated = runMigrations(stored, record.schemaVersion);
+  await writeUserData(username, migrated, key);
+  return migrated;
+});
+
+const writeUserData = async (username: string, data: UserData, key: CryptoKey, previous?: UserData) => {
+  const { transactions, ...settings } = data;
+  const record: UserDataRecord = { username, schemaVersion: CURRENT_SCHEMA_VERSION, encrypted: await encryptJson(key, settings) };
+
+  let changed = transactions;
+  let removedIds: string[] = [];
+  if (previous) {
+    const previousById = new Map(previous.transactions.map(t => [t.id, t]));
+    changed = transactions.filter(t => previousById.get(t.id) !== t);
+    transactions.forEach(t => previousById.delete(t.id));
+    removedIds = Array.from(previousById.keys());
+  }
+  const changedRecords = await Promise.all(changed.map(t => toRecord(username, t, key)));
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.userData, STORES.transactions], 'readwrite');
+  tx.objectStore(STORES.userData).put(record);
+  const store = tx.objectStore(STORES.transactions);
+  if (!previous) store.delete(userRange(username));
+  changedRecords.forEach(r => store.put(r));
+  removedIds.forEach(id => store.delete([username, id]));
+  await completion(tx);
+};
+
+/**
+ * Encrypts and saves a user's data. When `previous` (the data as last saved) is given, only transactions
+ * that were added, replaced or removed since then are written; state updates are immutable, so an unchanged
+ * transaction is the same object in both. Without it, the user's transactions are rewritten from scratch.
+ */
+export const saveUserData = (username: string, data: UserData, key: CryptoKey, previous?: UserData) =>
+  enqueue(() => writeUserData(username, data, key, previous));
+
+// --- Undo history ---
+
+/**
+ * The user's undo history. A history saved for an older schema describes data that has since been migrated,
+ * so it is dropped and the user starts with an empty one.
+ */
+export const loadHistory = (username: string, key: CryptoKey): Promise<UndoHistory> => enqueue(async () => {
+  const db = await openDatabase();
+  const record = await promisify<HistoryRecord | undefined>(db.transaction(STORES.history).objectStore(STORES.history).get(username));
+  if (!record || record.schemaVersion !== CURRENT_SCHEMA_VERSION) return EMPTY_HISTORY;
+  return decryptJson<UndoHistory>(key, record.encrypted);
+});
+
+export const saveHistory = (username: string, history: UndoHistory, key: CryptoKey) => enqueue(async () => {
+  const record: HistoryRecord = { username, schemaVersion: CURRENT_SCHEMA_VERSION, encrypted: await encryptJson(key, history) };
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.history, 'readwrite');
+  tx.objectStore(STORES.history).put(record);
+  await completion(tx);
+});
+
+// --- Attachments ---
+
+// Files are written as soon as they are attached, before the transaction that lists them is saved. Files that
+// no transaction (nor the undo history) lists any more are removed by pruneAttachments.
+
+export const saveAttachment = (username: string, id: string, file: Blob, thumbnail: Blob | null, key: CryptoKey) => enqueue(async () => {
+  const record: AttachmentRecord = {
+    username,
+    id,
+    file: await encryptBytes(key, await file.arrayBuffer()),
+    thumbnail: thumbnail ? await encryptBytes(key, await thumbnail.arrayBuffer()) : undefined,
+  };
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.attachments, 'readwrite');
+  tx.objectStore(STORES.attachments).put(record);
+  await completion(tx);
+});
+
+/** The decrypted bytes of an attachment, or null when it is not in this browser (e.g. after restoring a backup elsewhere). */
+export const loadAttachment = async (username: string, id: string, variant: AttachmentVariant, key: CryptoKey): Promise<ArrayBuffer | null> => {
+  const db = await openDatabase();
+  const record = await promisify<AttachmentRecord | undefined>(db.transaction(STORES.attachments).objectStore(STORES.attachments).get([username, id]));
+  const payload = record?.[variant];
+  return payload ? decryptBytes(key, payload) : null;
+};
+
+/** Deletes the user's attachments whose id is not in `keepIds`. Returns how many were deleted. */
+export const pruneAttachments = (username: string, keepIds: Set<string>) => enqueue(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.attachments, 'readwrite');
+  const store = tx.objectStore(STORES.attachments);
+  let deleted = 0;
+  const request = store.openKeyCursor(userRange(username));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const [, id] = cursor.primaryKey as [string, string];
+    if (!keepIds.has(id)) {
+      store.delete(cursor.primaryKey);
+      deleted++;
+    }
+    cursor.continue();
+  };
+  await completion(tx);
+  return deleted;
+});
+
+export const getAttachmentUsage = async (username: string): Promise<AttachmentUsage> => {
+  const db = await openDatabase();
+  const records = await promisify<AttachmentRecord[]>(db.transaction(STORES.attachments).objectStore(STORES.attachments).getAll(userRange(username)));
+  return {
+    count: records.length,
+    bytes: records.reduce((sum, r) => sum + r.file.data.byteLength + (r.thumbnail?.data.byteLength ?? 0), 0),
+  };
+};
+
+// --- Sessions & activity ---
+
+export const loadSession = async (token: string): Promise<Session | null> => {
+  const db = await openDatabase();
+  const session = await promisify<Session | undefined>(db.transaction(STORES.sessions).objectStore(STORES.sessions).get(token));
+  return session ?? null;
+};
+
+export const saveSession = async (session: Session) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sessions, 'readwrite');
+  tx.objectStore(STORES.sessions).put(session);
+  await completion(tx);
+};
+
+export const deleteSession = async (token: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.sessions, 'readwrite');
+  tx.objectStore(STORES.sessions).delete(token);
+  await completion(tx);
+};
+
+export const addActivity = async (entry: ActivityEntry) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.activity, 'readwrite');
+  const store = tx.objectStore(STORES.activity);
+  store.add(entry);
+  // Ids grow with time, so the user's oldest entries come first in the index.
+  const countRequest = store.index('byUser').count(IDBKeyRange.only(entry.username));
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_ACTIVITY_ENTRIES;
+    if (excess <= 0) return;
+    const cursorRequest = store.index('byUser').openKeyCursor(IDBKeyRange.only(entry.username));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess-- <= 0) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  };
+  await completion(tx);
+};
+
+/** The user's activity log, most recent first. */
+export const loadActivity = async (username: string): Promise<ActivityEntry[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.activity).objectStore(STORES.activity).index('byUser');
+  const entries: ActivityEntry[] = await promisify(index.getAll(IDBKeyRange.only(username)));
+  return entries.reverse();
+};
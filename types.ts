@@ -1,8 +1,41 @@
-export type Page = 'Dashboard' | 'Transactions' | 'Reports' | 'Settings' | 'Admin Panel';
+export type Page = 'Dashboard' | 'Transactions' | 'Goals' | 'Reports' | 'Settings' | 'Admin Panel';
 
 export enum TransactionType {
   INCOME = 'INCOME',
-  EXPENSE = 'EXPENSE'
+  EXPENSE = 'EXPENSE',
+  TRANSFER = 'TRANSFER' // Moves money between two accounts, never counted as income or expense
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  closingDay?: number; // Credit cards only: day of the month the invoice closes
+  dueDay?: number; // Credit cards only: day of the month the invoice is due
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks/months/years
+  endDate?: string; // ISO string, no occurrence is created after this date
+  count?: number; // Total number of occurrences, including the first one
+  dayOfMonthPolicy: 'clamp' | 'skip'; // For days missing in a month (e.g. the 31st): use the last day or skip the month
+  generatedCount: number; // Occurrences created so far, including the first one
+  nextIndex: number; // Next position in the series to be evaluated
+  template?: Partial<Pick<Transaction, 'description' | 'amount' | 'categoryId'>>; // Values applied to occurrences created after a series edit
+}
+
+// One of the parts of a credit card purchase paid in installments ("12x sem juros")
+export interface Installment {
+  purchaseId: string; // Shared by every installment of the same purchase
+  number: number; // 1 for the first installment
+  total: number;
+  purchaseDate: string; // ISO string; the first installment is billed in the invoice of this date, each next one in the following invoice
 }
 
 export interface Transaction {
@@ -11,16 +44,64 @@ export interface Transaction {
   amount: number;
   date: string; // ISO string
   type: TransactionType;
-  category: string;
+  categoryId: string; // Empty for transfers
   parentId?: string;
   subItems?: Transaction[];
   notes?: string;
+  accountId?: string; // Account the money leaves (expense, transfer) or enters (income). Sub-items use their parent's account
+  toAccountId?: string; // Destination account, only for transfers
+  recurrence?: RecurrenceRule; // Only set on the first transaction of a recurring series
+  seriesId?: string; // Id of the first transaction of the series this occurrence was created from
+  tagIds?: string[]; // Sub-items also count under the tags of their parent
+  currency?: string; // Currency the amount is in; absent for the user's base currency. Sub-items use their parent's
+  exchangeRate?: number; // Value of one unit of `currency` in the base currency, fixed when the transaction was saved
+  installment?: Installment;
+  goalId?: string; // Savings goal the amount is put towards
+  attachments?: Attachment[];
 }
 
+// A receipt or other file attached to a transaction. Only this description is part of the data; the file itself
+// is kept in the attachment store
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string; // MIME type of the stored file, e.g. image/jpeg once a photo has been compressed
+  size: number; // Bytes of the stored file
+}
+
+// Value of one unit of `currency` in the user's base currency, from `date` until the next rate of the same currency
+export interface ExchangeRate {
+  currency: string;
+  date: string; // ISO string
+  rate: number;
+}
+
+// Which transactions a category is offered for
+export type CategoryKind = 'income' | 'expense' | 'both';
+
 export interface Category {
   id: string;
   name: string;
   icon?: string;
+  kind: CategoryKind;
+  parentId?: string; // Set for sub-categories, e.g. "Energia" under "Casa". Only one level of nesting
+}
+
+// Money being put aside for something, e.g. "Reserva de emergência: R$ 20.000 até dez/2027"
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number; // In the base currency
+  initialAmount: number; // Already saved when the goal was created
+  deadline?: string; // ISO string
+  createdAt: string; // ISO string
+}
+
+// Free-form labels that cut across categories, e.g. a trip or a project
+export interface Tag {
+  id: string;
+  name: string;
+  color: string; // Hex color of the chip
 }
 
 export interface ChatMessage {
@@ -31,17 +112,71 @@ export interface ChatMessage {
 export interface UserData {
   transactions: Transaction[];
   categories: Category[];
-  currency: string;
+  accounts: Account[];
+  currency: string; // Base currency: totals, charts and exports are converted to it
   chatHistory: ChatMessage[];
   theme: 'galaxy' | 'minimalist';
+  budgets: { [categoryId: string]: number }; // Monthly spending limit per category
+  tags: Tag[];
+  transactionFilters: TransactionFilters; // Last filters used on the transactions page
+  exchangeRates: ExchangeRate[];
+  goals: Goal[];
+}
+
+export interface TransactionFilters {
+  query: string; // Matches description and notes of a transaction or any of its sub-items
+  categoryId: string; // Category id, or 'all'
+  type: TransactionType | 'all';
+  accountId: string; // Account id, or 'all'
+  tagId: string; // Tag id, or 'all'; matches sub-items through their parent's tags too
+  minAmount: string; // Empty for no limit; kept as typed so the inputs round-trip
+  maxAmount: string;
+  startDate: string; // YYYY-MM-DD, inclusive; empty for no limit
+  endDate: string;
 }
 
+// admin manages users; auditor can see the admin panel but not change anything
+export type UserRole = 'user' | 'admin' | 'auditor';
+
 export interface UserProfile {
   username: string; // The unique login identifier, cannot be changed
+  role: UserRole;
   displayName: string; // The display name, can be changed
   email: string; // User's email address
   profilePicture?: string; // base64 encoded image
   registeredAt: string; // ISO string
   isVerified: boolean; // Flag to check if email is verified
   verificationCode?: string; // Temporary code for verification or password reset
+  mustChangePassword?: boolean; // Set for the seeded admin; login asks for a new password before continuing
+  autoLockMinutes?: number; // Inactivity before the session locks; 0 disables it
+  pinHash?: PasswordHash; // Optional short PIN that unlocks a locked session
+}
+
+export interface Session {
+  token: string;
+  username: string;
+  createdAt: string; // ISO string
+  expiresAt: string; // ISO string
+  rememberMe: boolean; // Kept across browser restarts instead of only for the current tab
 }
+
+export type ActivityType = 'login' | 'loginFailed' | 'logout' | 'sessionRestored' | 'sessionExpired' | 'locked' | 'unlocked' | 'unlockFailed';
+
+export interface ActivityEntry {
+  id?: number; // Assigned by the store
+  username: string;
+  type: ActivityType;
+  timestamp: string; // ISO string
+  detail?: string;
+}
+
+// Salted PBKDF2 hash of a password, all binary values base64 encoded
+export interface PasswordHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
+// Credentials saved before passwords were hashed are plain strings until the user's next login
+export type StoredPassword = PasswordHash | string;
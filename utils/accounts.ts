@@ -0,0 +1,48 @@
+import { Account, AccountType, Transaction, TransactionType } from '../types';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  credit_card: 'Cartão de Crédito',
+  cash: 'Dinheiro',
+};
+
+export const ACCOUNT_TYPE_ICONS: Record<AccountType, string> = {
+  checking: 'currency_dollar',
+  savings: 'shield_check',
+  credit_card: 'credit_card',
+  cash: 'currency_dollar',
+};
+
+export const isTransfer = (t: Transaction) => t.type === TransactionType.TRANSFER;
+
+/** Income and expense only: transfers move money around without changing the household's totals. */
+export const excludeTransfers = (transactions: Transaction[]) => transactions.filter(t => !isTransfer(t));
+
+export const isAccountInUse = (accountId: string, transactions: Transaction[]) =>
+  transactions.some(t => t.accountId === accountId || t.toAccountId === accountId);
+
+/** How a top-level transaction changes the balance of `accountId`. Sub-items are already included in their parent's amount. */
+export const getAccountDelta = (t: Transaction, accountId: string): number => {
+  if (t.parentId) return 0;
+  switch (t.type) {
+    case TransactionType.INCOME:
+      return t.accountId === accountId ? t.amount : 0;
+    case TransactionType.EXPENSE:
+      return t.accountId === accountId ? -t.amount : 0;
+    case TransactionType.TRANSFER:
+      return (t.toAccountId === accountId ? t.amount : 0) - (t.accountId === accountId ? t.amount : 0);
+    default:
+      return 0;
+  }
+};
+
+/** Balance of each account including every transaction dated up to `until` (ISO string), or all of them when omitted. */
+export const getAccountBalances = (accounts: Account[], transactions: Transaction[], until?: string): { account: Account; balance: number }[] => {
+  const limit = until ? new Date(until).getTime() : Infinity;
+  const relevant = transactions.filter(t => new Date(t.date).getTime() <= limit);
+  return accounts.map(account => ({
+    account,
+    balance: relevant.reduce((balance, t) => balance + getAccountDelta(t, account.id), account.openingBalance),
+  }));
+};
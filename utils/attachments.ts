@@ -0,0 +1,98 @@
+import { Attachment, Transaction, UserData } from '../types';
+import { UndoHistory } from './history';
+
+// Receipts are photos or PDFs. Photos are scaled down and re-encoded as JPEG before they are stored, since a
+// phone picture is often several megabytes; PDFs are kept as they are.
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // After compression
+
+const MAX_IMAGE_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_DIMENSION = 160;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface PreparedAttachment {
+  attachment: Attachment;
+  file: Blob;
+  thumbnail: Blob | null; // Only for images
+}
+
+export const isImageAttachment = (attachment: Attachment) => attachment.type.startsWith('image/');
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${units[unit]}`;
+};
+
+/** Draws the image scaled to fit `maxDimension` on a white background (for transparent PNGs) and encodes it as JPEG. */
+const resizeImage = async (image: ImageBitmap, maxDimension: number, quality: number): Promise<Blob> => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Não foi possível comprimir a imagem.'))), 'image/jpeg', quality)
+  );
+};
+
+/**
+ * Compresses `file` and builds its description. Rejects with a message for the user when the file is neither an
+ * image the browser can read nor a PDF, or is still too large.
+ */
+export const prepareAttachment = async (file: File, id: string): Promise<PreparedAttachment> => {
+  let stored: Blob = file;
+  let thumbnail: Blob | null = null;
+  let name = file.name;
+
+  if (file.type.startsWith('image/')) {
+    let image: ImageBitmap;
+    try {
+      image = await createImageBitmap(file);
+    } catch {
+      throw new Error(`Não foi possível ler a imagem "${file.name}". Tente um arquivo JPEG ou PNG.`);
+    }
+    try {
+      const compressed = await resizeImage(image, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+      thumbnail = await resizeImage(image, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+      // A small image can grow when re-encoded; it is then kept as it was
+      const fitsAsIs = image.width <= MAX_IMAGE_DIMENSION && image.height <= MAX_IMAGE_DIMENSION && file.size <= compressed.size;
+      if (!fitsAsIs) {
+        stored = compressed;
+        name = name.replace(/\.[^.]*$/, '') + '.jpg';
+      }
+    } finally {
+      image.close();
+    }
+  } else if (file.type !== 'application/pdf') {
+    throw new Error(`"${file.name}" não é uma imagem nem um PDF.`);
+  }
+
+  if (stored.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`"${file.name}" tem ${formatBytes(stored.size)}; o limite é ${formatBytes(MAX_ATTACHMENT_BYTES)}.`);
+  }
+  return { attachment: { id, name, type: stored.type, size: stored.size }, file: stored, thumbnail };
+};
+
+/** Ids of every attachment listed by the data or by a step of the undo history, which can bring a transaction back. */
+export const getReferencedAttachmentIds = (data: UserData | null, history: UndoHistory): Set<string> => {
+  const ids = new Set<string>();
+  const add = (t: Transaction | null) => t?.attachments?.forEach(a => ids.add(a.id));
+  data?.transactions.forEach(add);
+  [...history.past, ...history.future].forEach(entry => {
+    Object.values(entry.before.transactions).forEach(add);
+    Object.values(entry.after.transactions).forEach(add);
+  });
+  return ids;
+};
@@ -0,0 +1,291 @@
+import { Account, Category, ExchangeRate, Goal, Tag, Transaction, TransactionType, UserData, UserProfile } from '../types';
+import { mergeRates } from './currency';
+
+export const BACKUP_FORMAT = 'controlfin-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string
+  profile: Pick<UserProfile, 'username' | 'displayName' | 'email' | 'registeredAt' | 'profilePicture'>;
+  data: UserData;
+}
+
+export interface BackupDiff {
+  transactions: { added: number; changed: number; unchanged: number; missing: number };
+  categories: { added: number; missing: number };
+  accounts: { added: number; missing: number };
+  tags: { added: number; missing: number };
+  goals: { added: number; missing: number };
+  budgetsChanged: boolean;
+  currencyChanged: boolean;
+  themeChanged: boolean;
+  chatMessages: { current: number; incoming: number };
+}
+
+export const createBackup = (profile: UserProfile, data: UserData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  profile: {
+    username: profile.username,
+    displayName: profile.displayName,
+    email: profile.email,
+    registeredAt: profile.registeredAt,
+    profilePicture: profile.profilePicture,
+  },
+  data,
+});
+
+export const downloadBackup = (backup: BackupFile) => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `controlfin-backup-${backup.profile.username}-${backup.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isValidDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const validateTransaction = (t: unknown, path: string): Transaction => {
+  if (!isObject(t)) throw new Error(`${path} não é uma transação válida.`);
+  if (typeof t.id !== 'string' || !t.id) throw new Error(`${path} não possui um identificador.`);
+  if (typeof t.description !== 'string') throw new Error(`${path} não possui descrição.`);
+  if (typeof t.amount !== 'number' || !isFinite(t.amount)) throw new Error(`${path} possui um valor inválido.`);
+  if (!isValidDate(t.date)) throw new Error(`${path} possui uma data inválida.`);
+  if (!Object.values(TransactionType).includes(t.type)) throw new Error(`${path} possui um tipo inválido.`);
+  // Backups made before transactions referenced category ids carry the category name; the migrations convert it
+  if (typeof t.categoryId !== 'string' && typeof t.category !== 'string') throw new Error(`${path} não possui categoria.`);
+  if (t.tagIds !== undefined && (!Array.isArray(t.tagIds) || t.tagIds.some((id: unknown) => typeof id !== 'string'))) {
+    throw new Error(`${path} possui tags inválidas.`);
+  }
+  if (t.currency !== undefined && (typeof t.currency !== 'string' || !/^[A-Z]{3}$/.test(t.currency))) throw new Error(`${path} possui uma moeda inválida.`);
+  if (t.exchangeRate !== undefined && (typeof t.exchangeRate !== 'number' || !(t.exchangeRate > 0))) throw new Error(`${path} possui uma cotação inválida.`);
+  if (t.goalId !== undefined && typeof t.goalId !== 'string') throw new Error(`${path} possui uma meta inválida.`);
+  if (t.installment !== undefined && (!isObject(t.installment) || typeof t.installment.purchaseId !== 'string' || !isValidDate(t.installment.purchaseDate)
+    || !Number.isInteger(t.installment.number) || !Number.isInteger(t.installment.total) || t.installment.number < 1 || t.installment.number > t.installment.total)) {
+    throw new Error(`${path} possui um parcelamento inválido.`);
+  }
+  if (t.attachments !== undefined && (!Array.isArray(t.attachments) || t.attachments.some((a: unknown) =>
+    !isObject(a) || typeof a.id !== 'string' || typeof a.name !== 'string' || typeof a.type !== 'string' || typeof a.size !== 'number'))) {
+    throw new Error(`${path} possui anexos inválidos.`);
+  }
+  const { subItems, ...transaction } = t; // sub-items are derived from parentId and never stored
+  return transaction as Transaction;
+};
+
+const validateCategory = (c: unknown, path: string): Category => {
+  if (!isObject(c) || typeof c.id !== 'string' || typeof c.name !== 'string' || !c.name.trim()) {
+    throw new Error(`${path} não é uma categoria válida.`);
+  }
+  if (c.kind !== undefined && !['income', 'expense', 'both'].includes(c.kind)) throw new Error(`${path} possui um tipo inválido.`);
+  return c as Category;
+};
+
+const validateAccount = (a: unknown, path: string): Account => {
+  if (!isObject(a) || typeof a.id !== 'string' || typeof a.name !== 'string' || typeof a.openingBalance !== 'number') {
+    throw new Error(`${path} não é uma conta válida.`);
+  }
+  const isDay = (day: unknown) => day === undefined || (Number.isInteger(day) && (day as number) >= 1 && (day as number) <= 31);
+  if (!isDay(a.closingDay) || !isDay(a.dueDay)) throw new Error(`${path} possui um dia de fechamento ou vencimento inválido.`);
+  return a as Account;
+};
+
+const validateTag = (t: unknown, path: string): Tag => {
+  if (!isObject(t) || typeof t.id !== 'string' || typeof t.name !== 'string' || !t.name.trim() || typeof t.color !== 'string') {
+    throw new Error(`${path} não é uma tag válida.`);
+  }
+  return t as Tag;
+};
+
+const validateGoal = (g: unknown, path: string): Goal => {
+  if (!isObject(g) || typeof g.id !== 'string' || typeof g.name !== 'string' || !g.name.trim() || typeof g.targetAmount !== 'number'
+    || !(g.targetAmount > 0) || typeof g.initialAmount !== 'number' || !isValidDate(g.createdAt) || (g.deadline !== undefined && !isValidDate(g.deadline))) {
+    throw new Error(`${path} não é uma meta válida.`);
+  }
+  return g as Goal;
+};
+
+const validateExchangeRate = (r: unknown, path: string): ExchangeRate => {
+  if (!isObject(r) || typeof r.currency !== 'string' || !isValidDate(r.date) || typeof r.rate !== 'number' || !(r.rate > 0)) {
+    throw new Error(`${path} não é uma cotação válida.`);
+  }
+  return r as ExchangeRate;
+};
+
+/**
+ * Parses and validates a backup file. Fields added to UserData after the backup was made are left out,
+ * so the caller can fill them with defaults. Throws an Error with a user-facing message when the file is invalid.
+ */
+export const parseBackup = (content: string): BackupFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) throw new Error('O arquivo não é um backup do ControlFin.');
+  if (typeof raw.version !== 'number' || raw.version < 1) throw new Error('A versão do backup é inválida.');
+  if (raw.version > BACKUP_VERSION) throw new Error('Este backup foi criado por uma versão mais nova do ControlFin.');
+  if (!isObject(raw.profile) || typeof raw.profile.username !== 'string') throw new Error('O backup não contém um perfil válido.');
+  if (!isObject(raw.data)) throw new Error('O backup não contém dados financeiros.');
+
+  const { data } = raw;
+  if (!Array.isArray(data.transactions)) throw new Error('O backup não contém a lista de transações.');
+  if (!Array.isArray(data.categories)) throw new Error('O backup não contém a lista de categorias.');
+  if (typeof data.currency !== 'string') throw new Error('O backup não contém a moeda.');
+  if (data.theme !== undefined && data.theme !== 'galaxy' && data.theme !== 'minimalist') throw new Error('O tema do backup é inválido.');
+  if (data.chatHistory !== undefined && !Array.isArray(data.chatHistory)) throw new Error('O histórico do FinAssist do backup é inválido.');
+  if (data.accounts !== undefined && !Array.isArray(data.accounts)) throw new Error('A lista de contas do backup é inválida.');
+  if (data.budgets !== undefined && !isObject(data.budgets)) throw new Error('Os orçamentos do backup são inválidos.');
+  if (data.tags !== undefined && !Array.isArray(data.tags)) throw new Error('A lista de tags do backup é inválida.');
+  if (data.exchangeRates !== undefined && !Array.isArray(data.exchangeRates)) throw new Error('A tabela de cotações do backup é inválida.');
+  if (data.goals !== undefined && !Array.isArray(data.goals)) throw new Error('A lista de metas do backup é inválida.');
+
+  const validated: Partial<UserData> = {
+    transactions: data.transactions.map((t: unknown, i: number) => validateTransaction(t, `A transação ${i + 1}`)),
+    categories: data.categories.map((c: unknown, i: number) => validateCategory(c, `A categoria ${i + 1}`)),
+    currency: data.currency,
+  };
+  if (data.accounts) validated.accounts = data.accounts.map((a: unknown, i: number) => validateAccount(a, `A conta ${i + 1}`));
+  if (data.tags) validated.tags = data.tags.map((t: unknown, i: number) => validateTag(t, `A tag ${i + 1}`));
+  if (data.goals) validated.goals = data.goals.map((g: unknown, i: number) => validateGoal(g, `A meta ${i + 1}`));
+  if (data.exchangeRates) validated.exchangeRates = data.exchangeRates.map((r: unknown, i: number) => validateExchangeRate(r, `A cotação ${i + 1}`));
+  if (data.chatHistory) validated.chatHistory = data.chatHistory.filter((m: unknown) => isObject(m) && typeof m.text === 'string');
+  if (data.theme) validated.theme = data.theme;
+  if (data.budgets) {
+    validated.budgets = Object.fromEntries(Object.entries(data.budgets).filter(([, limit]) => typeof limit === 'number' && limit > 0)) as UserData['budgets'];
+  }
+
+  return { ...(raw as unknown as BackupFile), data: validated as UserData };
+};
+
+// --- Diff & merge ---
+
+const countById = <T extends { id: string }>(current: T[], incoming: T[]) => {
+  const currentIds = new Set(current.map(item => item.id));
+  const incomingIds = new Set(incoming.map(item => item.id));
+  return {
+    added: incoming.filter(item => !currentIds.has(item.id)).length,
+    missing: current.filter(item => !incomingIds.has(item.id)).length,
+  };
+};
+
+const sameContent = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const findByName = (tags: Tag[], name: string) => tags.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+export const diffBackup = (current: UserData, incoming: UserData): BackupDiff => {
+  const currentById = new Map(current.transactions.map(t => [t.id, t]));
+  const transactions = { added: 0, changed: 0, unchanged: 0, missing: 0 };
+  incoming.transactions.forEach(t => {
+    const existing = currentById.get(t.id);
+    if (!existing) transactions.added++;
+    else if (sameContent({ ...existing, subItems: undefined }, { ...t, subItems: undefined })) transactions.unchanged++;
+    else transactions.changed++;
+  });
+  const incomingIds = new Set(incoming.transactions.map(t => t.id));
+  transactions.missing = current.transactions.filter(t => !incomingIds.has(t.id)).length;
+
+  const currentCategoryNames = new Set(current.categories.map(c => c.name));
+  const incomingCategoryNames = new Set(incoming.categories.map(c => c.name));
+
+  return {
+    transactions,
+    categories: {
+      added: incoming.categories.filter(c => !currentCategoryNames.has(c.name)).length,
+      missing: current.categories.filter(c => !incomingCategoryNames.has(c.name)).length,
+    },
+    accounts: countById(current.accounts, incoming.accounts ?? []),
+    tags: {
+      added: (incoming.tags ?? []).filter(t => !findByName(current.tags, t.name)).length,
+      missing: current.tags.filter(t => !findByName(incoming.tags ?? [], t.name)).length,
+    },
+    goals: countById(current.goals, incoming.goals ?? []),
+    budgetsChanged: incoming.budgets !== undefined && !sameContent(current.budgets, incoming.budgets),
+    currencyChanged: current.currency !== incoming.currency,
+    themeChanged: incoming.theme !== undefined && current.theme !== incoming.theme,
+    chatMessages: { current: current.chatHistory.length, incoming: incoming.chatHistory?.length ?? 0 },
+  };
+};
+
+/**
+ * Adds everything from the backup that is missing locally. Items that exist on both sides keep their current
+ * version, and settings (currency, theme) are not changed, so a merge never overwrites local edits.
+ */
+export const mergeUserData = (current: UserData, incoming: UserData): UserData => {
+  const transactionIds = new Set(current.transactions.map(t => t.id));
+  const categoryIds = new Set(current.categories.map(c => c.id));
+  const accountIds = new Set(current.accounts.map(a => a.id));
+  const goalIds = new Set(current.goals.map(g => g.id));
+
+  // Categories are matched by name, so the same category created on two devices is not duplicated;
+  // transactions, templates and budgets follow them to their local id.
+  const categoryIdMap: { [incomingId: string]: string } = {};
+  const addedCategories: Category[] = [];
+  incoming.categories.forEach((category, index) => {
+    const existing = current.categories.find(c => c.name === category.name);
+    if (existing) {
+      categoryIdMap[category.id] = existing.id;
+      return;
+    }
+    const id = categoryIds.has(category.id) ? `cat${Date.now()}_${index}` : category.id;
+    categoryIdMap[category.id] = id;
+    addedCategories.push({ ...category, id });
+  });
+  // Tags are matched by name too; the incoming transactions are pointed at the local ids.
+  const tagIds = new Set(current.tags.map(t => t.id));
+  const tagIdMap: { [incomingId: string]: string } = {};
+  const addedTags: Tag[] = [];
+  (incoming.tags ?? []).forEach((tag, index) => {
+    const existing = findByName(current.tags, tag.name);
+    const id = existing?.id ?? (tagIds.has(tag.id) ? `tag${Date.now()}_${index}` : tag.id);
+    tagIdMap[tag.id] = id;
+    if (!existing) addedTags.push({ ...tag, id });
+  });
+  const localCategoryId = (id: string) => categoryIdMap[id] ?? id;
+  // Amounts of a backup with another base currency keep that currency, converted through the local rate table
+  const sameBase = incoming.currency === current.currency;
+  const addedTransactions = incoming.transactions
+    .filter(t => !transactionIds.has(t.id))
+    .map(t => {
+      const template = t.recurrence?.template;
+      return {
+        ...t,
+        ...(sameBase ? {} : { currency: t.currency ?? incoming.currency, exchangeRate: undefined }),
+        categoryId: localCategoryId(t.categoryId),
+        tagIds: t.tagIds?.map(id => tagIdMap[id] ?? id),
+        recurrence: template?.categoryId ? { ...t.recurrence!, template: { ...template, categoryId: localCategoryId(template.categoryId) } } : t.recurrence,
+      };
+    });
+
+  const incomingBudgets = Object.fromEntries(
+    Object.entries(incoming.budgets ?? {}).map(([categoryId, limit]) => [categoryIdMap[categoryId] ?? categoryId, limit])
+  );
+
+  return {
+    ...current,
+    transactions: [...current.transactions, ...addedTransactions],
+    categories: [
+      ...current.categories,
+      ...addedCategories.map(c => (c.parentId ? { ...c, parentId: categoryIdMap[c.parentId] ?? c.parentId } : c)),
+    ],
+    accounts: [...current.accounts, ...(incoming.accounts ?? []).filter(a => !accountIds.has(a.id))],
+    tags: [...current.tags, ...addedTags],
+    goals: [...current.goals, ...(incoming.goals ?? []).filter(g => !goalIds.has(g.id))],
+    exchangeRates: sameBase ? mergeRates(incoming.exchangeRates ?? [], current.exchangeRates) : current.exchangeRates,
+    budgets: { ...incomingBudgets, ...current.budgets },
+    chatHistory: current.chatHistory.length > 0 ? current.chatHistory : incoming.chatHistory ?? [],
+  };
+};
@@ -0,0 +1,55 @@
+import { Category, Transaction, TransactionType } from '../types';
+
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  category: Category;
+  limit: number;
+  spent: number;
+  ratio: number; // spent / limit
+  level: BudgetLevel;
+}
+
+export const getBudgetLevel = (ratio: number): BudgetLevel => {
+  if (ratio >= 1) return 'exceeded';
+  if (ratio >= BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+/** Budgets are monthly, so the "all months" filter falls back to the current month. */
+export const getBudgetMonth = (selectedMonth: string): string =>
+  selectedMonth === 'all' ? new Date().toISOString().slice(0, 7) : selectedMonth;
+
+/**
+ * Sums the expenses of each category in `month` ('YYYY-MM'). A parent with sub-items is represented by its
+ * sub-items, since each of them can belong to a different category; counting both would double the spending.
+ */
+export const getSpendingByCategory = (transactions: Transaction[], month: string): { [categoryId: string]: number } => {
+  const parentIds = new Set(transactions.filter(t => t.parentId).map(t => t.parentId));
+  return transactions
+    .filter(t => t.type === TransactionType.EXPENSE && t.date.startsWith(month) && !parentIds.has(t.id))
+    .reduce((totals, t) => {
+      totals[t.categoryId] = (totals[t.categoryId] || 0) + t.amount;
+      return totals;
+    }, {} as { [categoryId: string]: number });
+};
+
+export const getBudgetStatuses = (
+  transactions: Transaction[],
+  categories: Category[],
+  budgets: { [categoryId: string]: number },
+  month: string
+): BudgetStatus[] => {
+  const spending = getSpendingByCategory(transactions, month);
+  return categories
+    .filter(c => budgets[c.id] > 0 && c.kind !== 'income')
+    .map(category => {
+      const limit = budgets[category.id];
+      const spent = spending[category.id] || 0;
+      const ratio = spent / limit;
+      return { category, limit, spent, ratio, level: getBudgetLevel(ratio) };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+};
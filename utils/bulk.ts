@@ -0,0 +1,93 @@
+import { Category, Transaction } from '../types';
+import { isTransfer } from './accounts';
+import { categoryAllowsType } from './categories';
+
+export type BulkAction = 'category' | 'date' | 'duplicate' | 'makeSubItems' | 'delete';
+
+export interface BulkResult {
+  transactions: Transaction[];
+  affected: number; // Selected transactions the action applied to; the others were skipped
+}
+
+// All functions take the ids of top-level transactions; their sub-items follow them.
+
+const withChildren = (transactions: Transaction[], ids: Set<string>) =>
+  new Set(transactions.filter(t => ids.has(t.id) || (t.parentId && ids.has(t.parentId))).map(t => t.id));
+
+/** Transfers, which have no category, and transactions whose type `category` doesn't allow are skipped. */
+export const bulkSetCategory = (transactions: Transaction[], ids: string[], category: Category): BulkResult => {
+  const selected = new Set(ids);
+  let affected = 0;
+  const updated = transactions.map(t => {
+    if (!selected.has(t.id) || !categoryAllowsType(category, t.type)) return t;
+    affected++;
+    return { ...t, categoryId: category.id };
+  });
+  return { transactions: updated, affected };
+};
+
+/** `date` is an ISO string. Sub-items move with their parent. */
+export const bulkSetDate = (transactions: Transaction[], ids: string[], date: string): BulkResult => {
+  const moving = withChildren(transactions, new Set(ids));
+  return {
+    transactions: transactions.map(t => (moving.has(t.id) ? { ...t, date } : t)),
+    affected: ids.length,
+  };
+};
+
+export const bulkDelete = (transactions: Transaction[], ids: string[]): BulkResult => {
+  const removing = withChildren(transactions, new Set(ids));
+  return { transactions: transactions.filter(t => !removing.has(t.id)), affected: ids.length };
+};
+
+/** Same day in `month` ('YYYY-MM'), or its last day when the month is shorter. */
+const moveToMonth = (date: string, month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthNumber - 1, Math.min(new Date(date).getUTCDate(), lastDay))).toISOString();
+};
+
+/**
+ * Copies the transactions, with their sub-items, into `month`. Copies are one-off: they never repeat and are not
+ * installments. Receipts stay with the originals.
+ */
+export const bulkDuplicateToMonth = (transactions: Transaction[], ids: string[], month: string): BulkResult => {
+  const stamp = Date.now();
+  const copies: Transaction[] = [];
+  ids.forEach((id, index) => {
+    const original = transactions.find(t => t.id === id);
+    if (!original) return;
+    const { recurrence, seriesId, subItems, installment, attachments, ...base } = original;
+    const copyId = `dup${stamp}_${index}`;
+    copies.push({ ...base, id: copyId, date: moveToMonth(original.date, month) });
+    transactions.filter(t => t.parentId === id).forEach(({ attachments: _, ...child }, childIndex) => {
+      copies.push({ ...child, id: `${copyId}_${childIndex}`, parentId: copyId, date: moveToMonth(child.date, month) });
+    });
+  });
+  return { transactions: [...transactions, ...copies], affected: copies.filter(t => !t.parentId).length };
+};
+
+/**
+ * Turns the selected transactions into sub-items of `parentId`, whose amount becomes the sum of its sub-items.
+ * Transfers, transactions that already have sub-items and the parent itself are skipped.
+ */
+export const bulkConvertToSubItems = (transactions: Transaction[], ids: string[], parentId: string): BulkResult => {
+  const parent = transactions.find(t => t.id === parentId);
+  if (!parent || parent.parentId || isTransfer(parent)) return { transactions, affected: 0 };
+
+  const hasChildren = new Set(transactions.filter(t => t.parentId).map(t => t.parentId));
+  const converting = new Set(ids.filter(id => {
+    const t = transactions.find(item => item.id === id);
+    return t && id !== parentId && !isTransfer(t) && !hasChildren.has(id);
+  }));
+
+  let updated = transactions.map(t => {
+    if (!converting.has(t.id)) return t;
+    // Sub-items use the parent's account and goal, and cannot repeat on their own
+    const { accountId, toAccountId, recurrence, seriesId, installment, goalId, ...rest } = t;
+    return { ...rest, parentId };
+  });
+  const parentAmount = updated.filter(t => t.parentId === parentId).reduce((sum, t) => sum + t.amount, 0);
+  updated = updated.map(t => (t.id === parentId ? { ...t, amount: parentAmount } : t));
+  return { transactions: updated, affected: converting.size };
+};
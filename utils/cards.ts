@@ -0,0 +1,165 @@
+import { Account, Transaction } from '../types';
+import { getAccountDelta } from './accounts';
+import { getOccurrenceDate } from './recurrence';
+
+// A credit card invoice (fatura) is named after the month it is due in. Purchases made up to the closing day
+// go into the invoice that closes that month; later ones go into the next.
+
+export type InvoiceStatus = 'open' | 'closed' | 'paid' | 'overdue';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  open: 'Aberta',
+  closed: 'Fechada',
+  paid: 'Paga',
+  overdue: 'Vencida',
+};
+
+export const DEFAULT_CLOSING_DAY = 1;
+export const DEFAULT_DUE_DAY = 10;
+export const MAX_INSTALLMENTS = 48;
+
+export interface Invoice {
+  month: string; // 'YYYY-MM' of the due date
+  closingDate: string; // ISO string
+  dueDate: string; // ISO string
+  items: Transaction[]; // Charges and refunds billed in the invoice
+  total: number;
+  paid: number; // Payments applied to this invoice; they settle the oldest invoices first
+  status: InvoiceStatus;
+}
+
+export interface OpenInstallmentPurchase {
+  purchaseId: string;
+  description: string;
+  total: number; // Number of installments
+  remaining: Transaction[]; // Installments billed in invoices that are not paid yet
+  remainingAmount: number;
+  lastMonth: string; // Invoice of the last installment
+}
+
+export const isCreditCard = (account?: Account) => account?.type === 'credit_card';
+
+/** A closing or due day typed by the user, kept between 1 and 31. Days missing from a month fall on its last day. */
+export const toBillingDay = (value: number | '', fallback: number) =>
+  value === '' || isNaN(value) ? fallback : Math.min(31, Math.max(1, Math.floor(value)));
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const monthKey = (year: number, monthIndex: number) => {
+  const date = new Date(Date.UTC(year, monthIndex, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+const addMonths = (month: string, count: number) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthKey(year, monthNumber - 1 + count);
+};
+
+/** The given day of a month ('YYYY-MM'), or the month's last day when it is shorter. */
+const dayOfMonth = (month: string, day: number) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthNumber - 1, Math.min(day, lastDay)));
+};
+
+const closingDayOf = (card: Account) => card.closingDay ?? DEFAULT_CLOSING_DAY;
+const dueDayOf = (card: Account) => card.dueDay ?? DEFAULT_DUE_DAY;
+
+// When the due day comes before the closing day, the invoice is due in the month after it closes
+const monthsFromClosingToDue = (card: Account) => (dueDayOf(card) > closingDayOf(card) ? 0 : 1);
+
+/** The invoice ('YYYY-MM' of its due date) a purchase made on `date` is billed in. */
+export const getInvoiceMonthForDate = (date: string, card: Account): string => {
+  const month = date.slice(0, 7);
+  const closesAfterPurchase = new Date(date).getTime() <= dayOfMonth(month, closingDayOf(card)).getTime();
+  return addMonths(month, (closesAfterPurchase ? 0 : 1) + monthsFromClosingToDue(card));
+};
+
+/** Installments follow the invoice of the purchase, one invoice each, whatever their own date. */
+export const getInvoiceMonth = (t: Transaction, card: Account): string =>
+  t.installment
+    ? addMonths(getInvoiceMonthForDate(t.installment.purchaseDate, card), t.installment.number - 1)
+    : getInvoiceMonthForDate(t.date, card);
+
+export const getInvoiceDates = (month: string, card: Account) => ({
+  closingDate: dayOfMonth(addMonths(month, -monthsFromClosingToDue(card)), closingDayOf(card)).toISOString(),
+  dueDate: dayOfMonth(month, dueDayOf(card)).toISOString(),
+});
+
+// Payments are transfers into the card; everything else the card was used for is a charge
+const isPayment = (t: Transaction, card: Account) => !t.parentId && t.toAccountId === card.id;
+const isCharge = (t: Transaction, card: Account) => !t.parentId && t.accountId === card.id;
+
+/**
+ * Every invoice of `card` that has charges, oldest first. Payments settle the oldest unpaid
+ * invoices first, so paying more than one invoice, or paying in parts, is accounted for.
+ */
+export const getInvoices = (card: Account, transactions: Transaction[], today: Date = new Date()): Invoice[] => {
+  const itemsByMonth = new Map<string, Transaction[]>();
+  transactions.filter(t => isCharge(t, card)).forEach(t => {
+    const month = getInvoiceMonth(t, card);
+    itemsByMonth.set(month, [...(itemsByMonth.get(month) ?? []), t]);
+  });
+
+  let available = transactions.filter(t => isPayment(t, card)).reduce((sum, t) => sum + t.amount, 0);
+  const todayTime = today.getTime();
+
+  return Array.from(itemsByMonth.keys()).sort().map(month => {
+    const items = itemsByMonth.get(month)!.sort((a, b) => a.date.localeCompare(b.date));
+    const total = roundCents(items.reduce((sum, t) => sum - getAccountDelta(t, card.id), 0));
+    const paid = roundCents(Math.max(0, Math.min(total, available)));
+    available = roundCents(available - paid);
+    const { closingDate, dueDate } = getInvoiceDates(month, card);
+
+    let status: InvoiceStatus;
+    if (total - paid < 0.005 && todayTime > new Date(closingDate).getTime()) status = 'paid';
+    else if (todayTime <= new Date(closingDate).getTime() + 86399999) status = 'open';
+    else if (todayTime <= new Date(dueDate).getTime() + 86399999) status = 'closed';
+    else status = 'overdue';
+
+    return { month, closingDate, dueDate, items, total, paid, status };
+  });
+};
+
+/** Purchases in installments with at least one installment in an invoice that is not paid yet. */
+export const getOpenInstallments = (invoices: Invoice[]): OpenInstallmentPurchase[] => {
+  const purchases = new Map<string, OpenInstallmentPurchase>();
+  invoices
+    .filter(invoice => invoice.status !== 'paid')
+    .forEach(invoice => invoice.items.filter(t => t.installment).forEach(t => {
+      const { purchaseId, total } = t.installment!;
+      const purchase = purchases.get(purchaseId) ?? {
+        purchaseId,
+        description: t.description.replace(/\s*\(\d+\/\d+\)$/, ''),
+        total,
+        remaining: [],
+        remainingAmount: 0,
+        lastMonth: invoice.month,
+      };
+      purchase.remaining.push(t);
+      purchase.remainingAmount = roundCents(purchase.remainingAmount + t.amount);
+      purchase.lastMonth = invoice.month; // Invoices come oldest first
+      purchases.set(purchaseId, purchase);
+    }));
+  return Array.from(purchases.values());
+};
+
+/**
+ * Splits a purchase into `count` installments dated a month apart, named "Descrição (1/12)". The amount is
+ * split in cents, with the leftover cents on the first installments, so the parts add up to the purchase.
+ */
+export const splitIntoInstallments = (purchase: Omit<Transaction, 'id' | 'subItems'>, count: number, purchaseId: string): Transaction[] => {
+  const cents = Math.round(purchase.amount * 100);
+  const baseCents = Math.floor(cents / count);
+  const leftover = cents - baseCents * count;
+  const monthly = { frequency: 'monthly', interval: 1, dayOfMonthPolicy: 'clamp' } as const;
+
+  return Array.from({ length: count }, (_, index) => ({
+    ...purchase,
+    id: `${purchaseId}_${index + 1}`,
+    description: `${purchase.description} (${index + 1}/${count})`,
+    amount: (baseCents + (index < leftover ? 1 : 0)) / 100,
+    date: getOccurrenceDate(purchase.date, monthly, index)!.toISOString(),
+    installment: { purchaseId, number: index + 1, total: count, purchaseDate: purchase.date },
+  }));
+};
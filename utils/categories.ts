@@ -0,0 +1,153 @@
+import { Category, CategoryKind, Transaction, TransactionType } from '../types';
+
+// Categories nest one level deep ("Casa > Energia"), which is what a <select> can show with optgroups.
+
+export const CATEGORY_KIND_LABELS: Record<CategoryKind, string> = {
+  expense: 'Despesa',
+  income: 'Receita',
+  both: 'Receita e despesa',
+};
+
+export interface CategoryGroup {
+  category: Category;
+  children: Category[];
+}
+
+export interface CategoryChartEntry {
+  name: string;
+  value: number;
+  icon?: string;
+  hasChildren?: boolean; // The slice can be opened to show its sub-categories
+}
+
+/** A category whose parent no longer exists is shown as a top-level one. */
+export const isRootCategory = (category: Category, categories: Category[]) =>
+  !category.parentId || !categories.some(c => c.id === category.parentId);
+
+export const getSubcategories = (categories: Category[], parentId: string) => categories.filter(c => c.parentId === parentId);
+
+/** Top-level categories, each with its sub-categories, in the order they were created. */
+export const groupCategories = (categories: Category[]): CategoryGroup[] =>
+  categories
+    .filter(c => isRootCategory(c, categories))
+    .map(category => ({ category, children: getSubcategories(categories, category.id) }));
+
+/** The categories in tree order: each parent followed by its sub-categories. */
+export const sortCategoriesAsTree = (categories: Category[]): Category[] =>
+  groupCategories(categories).flatMap(group => [group.category, ...group.children]);
+
+export const getRootCategory = (category: Category, categories: Category[]): Category =>
+  (isRootCategory(category, categories) ? category : categories.find(c => c.id === category.parentId)!);
+
+export const getCategoryPath = (category: Category, categories: Category[]) => {
+  const root = getRootCategory(category, categories);
+  return root.id === category.id ? category.name : `${root.name} > ${category.name}`;
+};
+
+/** Categories that `category` can be moved under: top-level ones other than itself, and none if it has sub-categories. */
+export const getParentOptions = (category: Category | null, categories: Category[]): Category[] => {
+  if (category && getSubcategories(categories, category.id).length > 0) return [];
+  return categories.filter(c => isRootCategory(c, categories) && c.id !== category?.id);
+};
+
+/**
+ * Rolls a per-category breakdown (as built by processChartData) up into top-level categories, or, with
+ * `parentName`, breaks one top-level category down into its sub-categories. Spending assigned to the parent
+ * itself shows as "<parent> (direto)". Names that match no category are kept as they are.
+ */
+export const rollUpCategoryData = (
+  data: { name: string; value: number }[],
+  categories: Category[],
+  parentName?: string
+): CategoryChartEntry[] => {
+  const totals = new Map<string, CategoryChartEntry>();
+  const add = (name: string, value: number, icon?: string, hasChildren?: boolean) => {
+    const entry = totals.get(name) ?? { name, value: 0, icon, hasChildren };
+    entry.value += value;
+    totals.set(name, entry);
+  };
+
+  data.forEach(({ name, value }) => {
+    const category = categories.find(c => c.name === name);
+    if (!category) {
+      if (!parentName) add(name, value);
+      return;
+    }
+    const root = getRootCategory(category, categories);
+    if (!parentName) {
+      add(root.name, value, root.icon, getSubcategories(categories, root.id).length > 0);
+    } else if (root.name === parentName) {
+      add(category.id === root.id ? `${root.name} (direto)` : category.name, value, category.icon);
+    }
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.value - a.value);
+};
+
+/** Whether a transaction of `type` can use `category`. Transfers have no category. */
+export const categoryAllowsType = (category: Category, type: TransactionType) => {
+  if (type === TransactionType.TRANSFER) return false;
+  const kind: CategoryKind = type === TransactionType.INCOME ? 'income' : 'expense';
+  return category.kind === kind || category.kind === 'both';
+};
+
+/** Categories offered for a transaction of `type`. */
+export const getCategoriesForType = (categories: Category[], type: TransactionType): Category[] =>
+  categories.filter(c => categoryAllowsType(c, type));
+
+/**
+ * Guesses the kind of a category saved before kinds existed from the transactions that use it. Unused
+ * categories fall back to the old rule, which treated "salário" and "freelance" as income.
+ * Transactions saved before they referenced category ids carry the category name instead.
+ */
+export const inferCategoryKind = (category: Category, transactions: (Transaction & { category?: string })[]): CategoryKind => {
+  const types = new Set(transactions
+    .filter(t => (t.categoryId !== undefined ? t.categoryId === category.id : t.category === category.name))
+    .map(t => t.type));
+  const usedForIncome = types.has(TransactionType.INCOME);
+  const usedForExpense = types.has(TransactionType.EXPENSE);
+  if (usedForIncome && usedForExpense) return 'both';
+  if (usedForIncome) return 'income';
+  if (usedForExpense) return 'expense';
+  const name = category.name.toLowerCase();
+  return name.includes('salário') || name.includes('freelance') ? 'income' : 'expense';
+};
+
+export const isCategoryInUse = (categoryId: string, transactions: Transaction[]) =>
+  transactions.some(t => t.categoryId === categoryId || t.recurrence?.template?.categoryId === categoryId);
+
+/**
+ * Categories that can take over `source`'s transactions and series: they must allow every type of transaction
+ * that uses it. An unused category can go to any category of a matching kind.
+ */
+export const getReassignTargets = (source: Category, categories: Category[], transactions: Transaction[]): Category[] => {
+  const types = new Set(transactions
+    .filter(t => t.categoryId === source.id || t.recurrence?.template?.categoryId === source.id)
+    .map(t => t.type));
+  return categories.filter(c => {
+    if (c.id === source.id) return false;
+    if (types.size > 0) return Array.from(types).every(type => categoryAllowsType(c, type));
+    return c.kind === 'both' || source.kind === 'both' || c.kind === source.kind;
+  });
+};
+
+/** Moves every transaction, sub-item and recurring series template from one category to another. */
+export const reassignCategory = (transactions: Transaction[], fromId: string, toId: string): Transaction[] =>
+  transactions.map(t => {
+    const template = t.recurrence?.template;
+    if (t.categoryId !== fromId && template?.categoryId !== fromId) return t;
+    return {
+      ...t,
+      categoryId: t.categoryId === fromId ? toId : t.categoryId,
+      recurrence: template?.categoryId === fromId ? { ...t.recurrence!, template: { ...template, categoryId: toId } } : t.recurrence,
+    };
+  });
+
+/**
+ * Copies of `transactions` that also carry their category name as `category`, for code that groups or shows
+ * transactions by name: the chart data, the CSV export and FinAssist.
+ */
+export const withCategoryNames = (transactions: Transaction[], categories: Category[]): (Transaction & { category: string })[] => {
+  const names = new Map(categories.map(c => [c.id, c.name]));
+  return transactions.map(t => ({ ...t, category: names.get(t.categoryId) ?? '' }));
+};
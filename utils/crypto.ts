@@ -0,0 +1,135 @@
+import { PasswordHash, StoredPassword } from '../types';
+
+export const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveBits = async (password: string, salt: BufferSource, iterations: number) => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, keyMaterial, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+/** Compares two byte arrays in time that depends only on their length, not on where they differ. */
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ (b[i % b.length] ?? 0);
+  }
+  return difference === 0;
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveBits(password, salt, PBKDF2_ITERATIONS);
+  return { algorithm: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), hash: toBase64(hash) };
+};
+
+export const verifyPassword = async (password: string, stored: StoredPassword): Promise<boolean> => {
+  if (typeof stored === 'string') {
+    // Legacy plaintext entry: compare digests so neither the length nor the content leaks through timing.
+    const digest = async (text: string) => new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+    return constantTimeEqual(await digest(password), await digest(stored));
+  }
+  const expected = fromBase64(stored.hash);
+  return constantTimeEqual(await deriveBits(password, fromBase64(stored.salt), stored.iterations), expected);
+};
+
+/** True for plaintext entries and hashes made with fewer iterations than today's default. */
+export const needsRehash = (stored: StoredPassword) => typeof stored === 'string' || stored.iterations < PBKDF2_ITERATIONS;
+
+// --- Data encryption ---
+
+// A value encrypted with AES-GCM under a user's data key
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+// A user's data key encrypted with a key derived from a secret (their password or recovery key)
+export interface WrappedKey {
+  salt: string;
+  iterations: number;
+  iv: string;
+  key: string;
+}
+
+const IV_BYTES = 12;
+
+/** Random AES-GCM key that encrypts a user's data. It is extractable only so it can be wrapped again when the password changes. */
+export const generateDataKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+const deriveWrappingKey = async (secret: string, salt: BufferSource, iterations: number) => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+export const wrapDataKey = async (dataKey: CryptoKey, secret: string): Promise<WrappedKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrappingKey = await deriveWrappingKey(secret, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), key: toBase64(new Uint8Array(wrapped)) };
+};
+
+/** Recovers a data key. Rejects when `secret` is not the one the key was wrapped with. */
+export const unwrapDataKey = async (wrapped: WrappedKey, secret: string): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(secret, fromBase64(wrapped.salt), wrapped.iterations);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped.key),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+// Binary data such as attachment files stays binary: IndexedDB stores the encrypted bytes as they are
+export interface EncryptedBytes {
+  iv: string;
+  data: ArrayBuffer;
+}
+
+export const encryptBytes = async (key: CryptoKey, bytes: BufferSource): Promise<EncryptedBytes> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv: toBase64(iv), data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+export const decryptBytes = (key: CryptoKey, payload: EncryptedBytes): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, payload.data);
+
+// --- Recovery keys ---
+
+/** 128-bit random key shown to the user once, formatted as eight groups of four hex digits. */
+export const generateRecoveryKey = () => {
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+  return hex.toUpperCase().match(/.{4}/g)!.join('-');
+};
+
+/** Accepts the key typed with or without dashes, spaces or lowercase letters. */
+export const normalizeRecoveryKey = (input: string) => {
+  const hex = input.replace(/[^0-9a-f]/gi, '').toUpperCase();
+  return (hex.match(/.{1,4}/g) || []).join('-');
+};
@@ -0,0 +1,145 @@
+import { ExchangeRate, Transaction, UserData } from '../types';
+import { DecimalSeparator, detectDelimiter, parseAmount, parseCsvRows, parseDate } from './importers';
+
+// Amounts are stored in the currency they were made in. Totals, charts and exports convert them to the
+// user's base currency (UserData.currency) with the rate saved on the transaction, or else the rate table.
+
+export const CURRENCIES: { code: string; name: string }[] = [
+  { code: 'BRL', name: 'Real Brasileiro' },
+  { code: 'USD', name: 'Dólar Americano' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'Libra Esterlina' },
+  { code: 'ARS', name: 'Peso Argentino' },
+  { code: 'CAD', name: 'Dólar Canadense' },
+  { code: 'CHF', name: 'Franco Suíço' },
+  { code: 'JPY', name: 'Iene Japonês' },
+];
+
+export interface RateImportResult {
+  rates: ExchangeRate[];
+  skipped: number; // Rows that could not be read
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const roundRate = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export const getTransactionCurrency = (t: Transaction, baseCurrency: string) => t.currency ?? baseCurrency;
+
+/** The rate of `currency` on `date`: the latest one on or before that day, or the oldest one for earlier days. */
+export const findRate = (rates: ExchangeRate[], currency: string, date: string): number | undefined => {
+  const day = date.slice(0, 10);
+  const ofCurrency = rates.filter(r => r.currency === currency).sort((a, b) => a.date.localeCompare(b.date));
+  if (ofCurrency.length === 0) return undefined;
+  const onOrBefore = ofCurrency.filter(r => r.date.slice(0, 10) <= day);
+  return (onOrBefore[onOrBefore.length - 1] ?? ofCurrency[0]).rate;
+};
+
+/** Rate that converts `t` to the base currency, or undefined for a foreign transaction without any rate. */
+export const getTransactionRate = (t: Transaction, baseCurrency: string, rates: ExchangeRate[]): number | undefined => {
+  const currency = getTransactionCurrency(t, baseCurrency);
+  if (currency === baseCurrency) return 1;
+  return t.exchangeRate ?? findRate(rates, currency, t.date);
+};
+
+/**
+ * Copies of `transactions`, sub-items and the amount of future occurrences of a series included, with amounts
+ * in the base currency; converted ones keep the amount as made in `originalAmount`. Transactions without a
+ * rate are kept at face value.
+ */
+export const convertToBaseCurrency = (
+  transactions: Transaction[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): (Transaction & { originalAmount?: number })[] =>
+  transactions.map(t => {
+    if (getTransactionCurrency(t, baseCurrency) === baseCurrency) return t;
+    const rate = getTransactionRate(t, baseCurrency, rates) ?? 1;
+    const template = t.recurrence?.template;
+    return {
+      ...t,
+      amount: roundCents(t.amount * rate),
+      originalAmount: t.amount,
+      subItems: t.subItems && convertToBaseCurrency(t.subItems, baseCurrency, rates),
+      recurrence: template?.amount !== undefined ? { ...t.recurrence!, template: { ...template, amount: roundCents(template.amount * rate) } } : t.recurrence,
+    };
+  });
+
+/** Adds `incoming` to the table; a rate for a currency and day already in it replaces the old one. */
+export const mergeRates = (current: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const key = (r: ExchangeRate) => `${r.currency}|${r.date.slice(0, 10)}`;
+  const incomingKeys = new Set(incoming.map(key));
+  return [...current.filter(r => !incomingKeys.has(key(r))), ...incoming]
+    .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+};
+
+/**
+ * Reads a rate table exported from a spreadsheet: one rate per line with the currency code, the date
+ * (DD/MM/YYYY or YYYY-MM-DD) and the value of one unit in the base currency, in any column order.
+ * A header line and rates of the base currency itself are ignored.
+ */
+export const parseRatesCsv = (content: string, baseCurrency: string): RateImportResult => {
+  const rows = parseCsvRows(content, detectDelimiter(content));
+  const rates: ExchangeRate[] = [];
+  let skipped = 0;
+
+  rows.forEach((row, index) => {
+    const cells = row.map(cell => cell.trim());
+    const currency = cells.find(cell => /^[A-Za-z]{3}$/.test(cell))?.toUpperCase();
+    const dateCell = cells.find(cell => /^\d{1,4}[\/\-.]\d{1,2}[\/\-.]\d{1,4}$/.test(cell));
+    const date = dateCell && parseDate(dateCell, /^\d{4}/.test(dateCell) ? 'YYYY-MM-DD' : 'DD/MM/YYYY');
+    const rateCell = cells.find(cell => cell !== currency && cell !== dateCell && /\d/.test(cell) && !/[A-Za-z]/.test(cell));
+    const separator: DecimalSeparator = rateCell && rateCell.lastIndexOf(',') > rateCell.lastIndexOf('.') ? ',' : '.';
+    const rate = rateCell ? parseAmount(rateCell, separator) : null;
+
+    if (!currency || !date || !rate || rate <= 0) {
+      if (index > 0) skipped++; // The first line is usually a header
+      return;
+    }
+    if (currency !== baseCurrency) rates.push({ currency, date, rate });
+  });
+
+  return { rates, skipped };
+};
+
+/**
+ * Changes the base currency. Amounts stay in the currency they were made in: transactions of the old base
+ * currency are marked with it, and every rate, opening balance and budget is converted through the rate of
+ * the new base currency, which must be in the table. Throws an Error with a user-facing message otherwise.
+ */
+export const changeBaseCurrency = (data: UserData, newBase: string): UserData => {
+  const oldBase = data.currency;
+  if (newBase === oldBase) return data;
+  const hasAmounts = data.transactions.length > 0 || data.exchangeRates.length > 0 || data.accounts.some(a => a.openingBalance !== 0);
+  if (!hasAmounts) return { ...data, currency: newBase };
+
+  const pivotRates = data.exchangeRates.filter(r => r.currency === newBase);
+  if (pivotRates.length === 0) {
+    throw new Error(`Cadastre na tabela de cotações quanto vale 1 ${newBase} em ${oldBase} antes de mudar a moeda base.`);
+  }
+  const pivot = (date: string) => findRate(pivotRates, newBase, date)!;
+  const latestPivot = pivot(new Date().toISOString());
+
+  const transactions = data.transactions.map(t => {
+    const currency = getTransactionCurrency(t, oldBase);
+    const { currency: _, exchangeRate, ...rest } = t;
+    if (currency === newBase) return rest;
+    const rate = currency === oldBase ? 1 : exchangeRate ?? findRate(data.exchangeRates, currency, t.date);
+    return rate === undefined ? { ...rest, currency } : { ...rest, currency, exchangeRate: roundRate(rate / pivot(t.date)) };
+  });
+
+  const exchangeRates = mergeRates(
+    data.exchangeRates
+      .filter(r => r.currency !== newBase)
+      .map(r => ({ ...r, rate: roundRate(r.rate / pivot(r.date)) })),
+    pivotRates.map(r => ({ currency: oldBase, date: r.date, rate: roundRate(1 / r.rate) }))
+  );
+
+  return {
+    ...data,
+    currency: newBase,
+    transactions,
+    exchangeRates,
+    accounts: data.accounts.map(a => ({ ...a, openingBalance: roundCents(a.openingBalance / latestPivot) })),
+    budgets: Object.fromEntries(Object.entries(data.budgets).map(([id, limit]) => [id, roundCents(limit / latestPivot)])),
+  };
+};
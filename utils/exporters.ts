@@ -0,0 +1,434 @@
+import { Account, AccountType, Category, Tag, Transaction, TransactionType } from '../types';
+import { getAccountBalances, isTransfer } from './accounts';
+import { getCategoryPath } from './categories';
+import { DecimalSeparator } from './importers';
+
+// Exports take the transactions already converted to the base currency. Every format keeps the link between a
+// split transaction and its sub-items: CSV and XLSX list each sub-item right after its parent with the parent's
+// id, JSON nests them under `subItems`, and OFX, which has no such notion, carries only the parent.
+
+export type ExportFormat = 'xlsx' | 'csv' | 'ofx' | 'json';
+
+export interface ExportFilters {
+  startDate: string; // YYYY-MM-DD, inclusive; empty for no limit
+  endDate: string;
+  categoryId: string; // Category id, or 'all'; matches a split transaction through any of its sub-items
+}
+
+export interface CsvOptions {
+  delimiter: string;
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface ExportEntry {
+  transaction: Transaction;
+  subItems: Transaction[];
+}
+
+export interface ExportContext {
+  categories: Category[];
+  accounts: Account[];
+  tags: Tag[];
+  currency: string;
+}
+
+export interface ExportFile {
+  content: BlobPart;
+  fileName: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: 'Excel (XLSX)',
+  csv: 'CSV',
+  ofx: 'OFX',
+  json: 'JSON',
+};
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  [TransactionType.INCOME]: 'Receita',
+  [TransactionType.EXPENSE]: 'Despesa',
+  [TransactionType.TRANSFER]: 'Transferência',
+};
+
+const COLUMNS = ['Data', 'Descrição', 'Tipo', 'Categoria', 'Conta', 'Conta de destino', 'Valor', 'Tags', 'Observações', 'ID', 'ID do pai'];
+const COLUMN_WIDTHS = [12, 36, 14, 28, 20, 20, 14, 20, 36, 18, 18];
+
+/** Top-level transactions matching `filters`, oldest first, each with all of its sub-items. */
+export const selectForExport = (transactions: Transaction[], filters: ExportFilters): ExportEntry[] => {
+  const children = new Map<string, Transaction[]>();
+  transactions.filter(t => t.parentId).forEach(t => children.set(t.parentId!, [...(children.get(t.parentId!) ?? []), t]));
+
+  return transactions
+    .filter(t => {
+      if (t.parentId) return false;
+      const day = t.date.slice(0, 10);
+      if ((filters.startDate && day < filters.startDate) || (filters.endDate && day > filters.endDate)) return false;
+      return filters.categoryId === 'all' || [t, ...(children.get(t.id) ?? [])].some(item => item.categoryId === filters.categoryId);
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(transaction => ({ transaction, subItems: children.get(transaction.id) ?? [] }));
+};
+
+/** Income positive, expenses negative; transfers keep their amount, as they only move money. */
+const signedAmount = (t: Transaction) => (t.type === TransactionType.EXPENSE ? -t.amount : t.amount);
+
+// One row per transaction and sub-item, in the order of COLUMNS; amounts stay numbers until they are written out
+const toRows = (entries: ExportEntry[], { categories, accounts, tags }: ExportContext): (string | number)[][] => {
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name ?? '';
+  const categoryName = (t: Transaction) => {
+    const category = categories.find(c => c.id === t.categoryId);
+    return category ? getCategoryPath(category, categories) : '';
+  };
+  const tagNames = (t: Transaction) => (t.tagIds ?? []).map(id => tags.find(tag => tag.id === id)?.name).filter(Boolean).join(', ');
+  const row = (t: Transaction, parent?: Transaction) => [
+    t.date.slice(0, 10),
+    t.description,
+    TYPE_LABELS[t.type],
+    categoryName(t),
+    accountName((parent ?? t).accountId),
+    accountName(t.toAccountId),
+    signedAmount(t),
+    tagNames(t),
+    t.notes ?? '',
+    t.id,
+    parent?.id ?? '',
+  ];
+  return entries.flatMap(({ transaction, subItems }) => [row(transaction), ...subItems.map(sub => row(sub, transaction))]);
+};
+
+// --- CSV ---
+
+const quoteCsv = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportCsv = (entries: ExportEntry[], context: ExportContext, { delimiter, decimalSeparator }: CsvOptions): string => {
+  const formatCell = (value: string | number) =>
+    quoteCsv(typeof value === 'number' ? value.toFixed(2).replace('.', decimalSeparator) : value, delimiter);
+  const lines = [COLUMNS, ...toRows(entries, context)].map(row => row.map(formatCell).join(delimiter));
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+// --- JSON ---
+
+export const exportJson = (entries: ExportEntry[], { categories, accounts, tags, currency }: ExportContext, filters: ExportFilters): string =>
+  JSON.stringify({
+    format: 'controlfin-transactions',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    currency,
+    filters,
+    accounts,
+    categories,
+    tags,
+    transactions: entries.map(({ transaction, subItems }) => ({ ...transaction, subItems })),
+  }, null, 2);
+
+// --- OFX ---
+
+const OFX_ACCOUNT_TYPES: Record<AccountType, string> = {
+  checking: 'CHECKING',
+  savings: 'SAVINGS',
+  cash: 'CHECKING',
+  credit_card: 'CREDITLINE',
+};
+
+const ofxText = (value: string, maxLength?: number) => {
+  const text = value.replace(/[\r\n]+/g, ' ').trim();
+  return (maxLength ? text.slice(0, maxLength) : text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const ofxDate = (day: string) => day.replace(/-/g, '').slice(0, 8);
+
+/**
+ * An OFX 1.02 file with one statement per account, credit cards as card statements. A transfer appears in both of
+ * its accounts. `transactions` are all the user's transactions, for the closing balance of each statement.
+ */
+export const exportOfx = (entries: ExportEntry[], transactions: Transaction[], { accounts, currency }: ExportContext, filters: ExportFilters): string => {
+  const today = new Date().toISOString().slice(0, 10);
+  const start = filters.startDate || entries[0]?.transaction.date.slice(0, 10) || today;
+  const end = filters.endDate || today;
+  const balances = getAccountBalances(accounts, transactions, `${end}T23:59:59.999Z`);
+
+  const statements = accounts.map(account => {
+    const lines = entries.flatMap(({ transaction: t }) => {
+      const isDestination = isTransfer(t) && t.toAccountId === account.id;
+      if (t.accountId !== account.id && !isDestination) return [];
+      const amount = isTransfer(t) ? (isDestination ? t.amount : -t.amount) : signedAmount(t);
+      const trnType = isTransfer(t) ? 'XFER' : amount < 0 ? 'DEBIT' : 'CREDIT';
+      const memo = t.notes || (t.description.length > 32 ? t.description : '');
+      return [[
+        '<STMTTRN>',
+        `<TRNTYPE>${trnType}`,
+        `<DTPOSTED>${ofxDate(t.date)}`,
+        `<TRNAMT>${amount.toFixed(2)}`,
+        `<FITID>${ofxText(isDestination ? `${t.id}-in` : t.id)}`,
+        `<NAME>${ofxText(t.description, 32)}`,
+        ...(memo ? [`<MEMO>${ofxText(memo, 255)}`] : []),
+        '</STMTTRN>',
+      ].join('\n')];
+    });
+    if (lines.length === 0) return null;
+
+    const isCard = account.type === 'credit_card';
+    const balance = balances.find(b => b.account.id === account.id)?.balance ?? 0;
+    const body = [
+      `<CURDEF>${currency}`,
+      isCard
+        ? `<CCACCTFROM>\n<ACCTID>${ofxText(account.id)}\n</CCACCTFROM>`
+        : `<BANKACCTFROM>\n<BANKID>0000\n<ACCTID>${ofxText(account.id)}\n<ACCTTYPE>${OFX_ACCOUNT_TYPES[account.type]}\n</BANKACCTFROM>`,
+      `<BANKTRANLIST>\n<DTSTART>${ofxDate(start)}\n<DTEND>${ofxDate(end)}`,
+      ...lines,
+      '</BANKTRANLIST>',
+      `<LEDGERBAL>\n<BALAMT>${balance.toFixed(2)}\n<DTASOF>${ofxDate(end)}\n</LEDGERBAL>`,
+    ].join('\n');
+    return isCard
+      ? { isCard, block: `<CCSTMTTRNRS>\n<TRNUID>${ofxText(account.id)}\n<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>\n<CCSTMTRS>\n${body}\n</CCSTMTRS>\n</CCSTMTTRNRS>` }
+      : { isCard, block: `<STMTTRNRS>\n<TRNUID>${ofxText(account.id)}\n<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>\n<STMTRS>\n${body}\n</STMTRS>\n</STMTTRNRS>` };
+  }).filter((s): s is { isCard: boolean; block: string } => s !== null);
+
+  const bankBlocks = statements.filter(s => !s.isCard).map(s => s.block);
+  const cardBlocks = statements.filter(s => s.isCard).map(s => s.block);
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:UTF-8',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    `<SIGNONMSGSRSV1>\n<SONRS>\n<STATUS>\n<CODE>0\n<SEVERITY>INFO\n</STATUS>\n<DTSERVER>${ofxDate(today)}\n<LANGUAGE>POR\n</SONRS>\n</SIGNONMSGSRSV1>`,
+    ...(bankBlocks.length > 0 ? ['<BANKMSGSRSV1>', ...bankBlocks, '</BANKMSGSRSV1>'] : []),
+    ...(cardBlocks.length > 0 ? ['<CREDITCARDMSGSRSV1>', ...cardBlocks, '</CREDITCARDMSGSRSV1>'] : []),
+    '</OFX>',
+    '',
+  ].join('\n');
+};
+
+// --- XLSX ---
+
+// An XLSX file is a zip of XML parts. Browsers have no zip writer, so the parts are stored uncompressed, which
+// every spreadsheet application reads.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (files: { name: string; content: string }[]) => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // Names are UTF-8
+    local.setUint16(8, 0, true); // Stored, no compression
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, dosTime, true);
+    entry.setUint16(14, dosDate, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true); // Extra field, comment, disk and attributes stay zero
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+const xmlText = (value: string) =>
+  value.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Cell styles defined in STYLES_XML
+const STYLE_HEADER = 1;
+const STYLE_MONEY = 2;
+const STYLE_DATE = 3;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+interface SheetCell {
+  value: string | number;
+  style?: number;
+}
+
+// Excel counts days from 1899-12-30
+const toExcelDate = (day: string) => Math.round((new Date(`${day}T00:00:00.000Z`).getTime() - Date.UTC(1899, 11, 30)) / 86400000);
+
+const sheetXml = (rows: SheetCell[][], widths: number[]) => {
+  const cols = widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('');
+  const body = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      const style = cell.style ? ` s="${cell.style}"` : '';
+      return typeof cell.value === 'number'
+        ? `<c r="${ref}"${style}><v>${cell.value}</v></c>`
+        : `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${xmlText(cell.value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData>${body.join('')}</sheetData></worksheet>`;
+};
+
+const headerRow = (labels: string[]): SheetCell[] => labels.map(value => ({ value, style: STYLE_HEADER }));
+
+/** A workbook with a summary sheet ("Resumo") followed by one sheet per month, named 'YYYY-MM'. */
+export const exportXlsx = (entries: ExportEntry[], context: ExportContext) => {
+  const months = Array.from(new Set(entries.map(e => e.transaction.date.slice(0, 7))));
+
+  const totals = months.map(month => {
+    const ofMonth = entries.map(e => e.transaction).filter(t => t.date.startsWith(month) && !isTransfer(t));
+    const income = ofMonth.filter(t => t.type === TransactionType.INCOME).reduce((sum, t) => sum + t.amount, 0);
+    const expense = ofMonth.filter(t => t.type === TransactionType.EXPENSE).reduce((sum, t) => sum + t.amount, 0);
+    return { month, income, expense, count: ofMonth.length };
+  });
+  const money = (value: number): SheetCell => ({ value: Math.round(value * 100) / 100, style: STYLE_MONEY });
+  const sum = (key: 'income' | 'expense' | 'count') => totals.reduce((total, m) => total + m[key], 0);
+  const summary: SheetCell[][] = [
+    headerRow(['Mês', `Receitas (${context.currency})`, `Despesas (${context.currency})`, 'Saldo', 'Lançamentos']),
+    ...totals.map(m => [{ value: m.month }, money(m.income), money(m.expense), money(m.income - m.expense), { value: m.count }]),
+    [{ value: 'Total', style: STYLE_HEADER }, money(sum('income')), money(sum('expense')), money(sum('income') - sum('expense')), { value: sum('count') }],
+  ];
+
+  const monthSheets = months.map(month => {
+    const rows = toRows(entries.filter(e => e.transaction.date.startsWith(month)), context).map(row =>
+      row.map((value, index): SheetCell => {
+        if (index === 0) return { value: toExcelDate(value as string), style: STYLE_DATE };
+        return typeof value === 'number' ? { value, style: STYLE_MONEY } : { value };
+      })
+    );
+    return { name: month, xml: sheetXml([headerRow(COLUMNS), ...rows], COLUMN_WIDTHS) };
+  });
+
+  const sheets = [{ name: 'Resumo', xml: sheetXml(summary, [12, 18, 18, 18, 14]) }, ...monthSheets];
+  const ns = 'http://schemas.openxmlformats.org';
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="${ns}/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${ns}/package/2006/relationships"><Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships"><sheets>${sheets.map((sheet, i) => `<sheet name="${xmlText(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${ns}/package/2006/relationships">${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}<Relationship Id="rId${sheets.length + 1}" Type="${ns}/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheet.xml })),
+  ]);
+};
+
+// --- Files ---
+
+export const buildExportFile = (
+  format: ExportFormat,
+  transactions: Transaction[],
+  context: ExportContext,
+  filters: ExportFilters,
+  csvOptions: CsvOptions
+): ExportFile => {
+  const entries = selectForExport(transactions, filters);
+  const fileName = `controlfin-transacoes-${filters.startDate || 'inicio'}-a-${filters.endDate || new Date().toISOString().slice(0, 10)}.${format}`;
+  switch (format) {
+    case 'xlsx':
+      return { content: exportXlsx(entries, context), fileName, mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' };
+    case 'csv':
+      return { content: exportCsv(entries, context, csvOptions), fileName, mimeType: 'text/csv;charset=utf-8' };
+    case 'ofx':
+      return { content: exportOfx(entries, transactions, context, filters), fileName, mimeType: 'application/x-ofx' };
+    case 'json':
+      return { content: exportJson(entries, context, filters), fileName, mimeType: 'application/json' };
+  }
+};
+
+export const downloadExportFile = ({ content, fileName, mimeType }: ExportFile) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
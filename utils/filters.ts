@@ -0,0 +1,94 @@
+import { Transaction, TransactionFilters, TransactionType } from '../types';
+import { isTransfer } from './accounts';
+import { DateRange, isInRange } from './periods';
+import { hasTag } from './tags';
+
+export const EMPTY_FILTERS: TransactionFilters = {
+  query: '',
+  categoryId: 'all',
+  type: 'all',
+  accountId: 'all',
+  tagId: 'all',
+  minAmount: '',
+  maxAmount: '',
+  startDate: '',
+  endDate: '',
+};
+
+export interface FilteredTotals {
+  count: number;
+  income: number;
+  expense: number;
+  balance: number;
+}
+
+export const hasActiveFilters = (filters: TransactionFilters) =>
+  (Object.keys(EMPTY_FILTERS) as (keyof TransactionFilters)[]).some(key => filters[key].trim() !== EMPTY_FILTERS[key]);
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const matchesText = (t: Transaction, terms: string[]) => {
+  const text = normalize(`${t.description} ${t.notes ?? ''}`);
+  return terms.every(term => text.includes(term));
+};
+
+/** Sub-items of `t` that match the search text; empty when there is no search or only the parent matches. */
+export const getMatchingSubItems = (t: Transaction, query: string): Transaction[] => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  return (t.subItems ?? []).filter(sub => matchesText(sub, terms));
+};
+
+const parseAmountFilter = (value: string) => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? null : amount;
+};
+
+// Category and tag are checked per sub-item, so a split bill matches through any of its items
+const matchesItemFilters = (item: Transaction, filters: TransactionFilters, parent?: Transaction) =>
+  (filters.categoryId === 'all' || item.categoryId === filters.categoryId) &&
+  (filters.tagId === 'all' || hasTag(item, filters.tagId, parent));
+
+/**
+ * Filters top-level transactions (with their sub-items attached). Text, category and tag match the transaction
+ * or any of its sub-items; type, account, amount and dates apply to the transaction itself.
+ * Dates compare the stored UTC day, the same day shown in the list. `range` is the period picked for the page.
+ */
+export const filterTransactions = (transactions: Transaction[], filters: TransactionFilters, range: DateRange | null = null): Transaction[] => {
+  const terms = normalize(filters.query).split(/\s+/).filter(Boolean);
+  const minAmount = parseAmountFilter(filters.minAmount);
+  const maxAmount = parseAmountFilter(filters.maxAmount);
+
+  return transactions.filter(t => {
+    const day = t.date.slice(0, 10);
+    const leaves = [t, ...(t.subItems ?? [])];
+    return isInRange(t.date, range) &&
+      (filters.type === 'all' || t.type === filters.type) &&
+      (filters.accountId === 'all' || t.accountId === filters.accountId || t.toAccountId === filters.accountId) &&
+      (matchesItemFilters(t, filters) || (t.subItems ?? []).some(sub => matchesItemFilters(sub, filters, t))) &&
+      (minAmount === null || t.amount >= minAmount) &&
+      (maxAmount === null || t.amount <= maxAmount) &&
+      (!filters.startDate || day >= filters.startDate) &&
+      (!filters.endDate || day <= filters.endDate) &&
+      (terms.length === 0 || leaves.some(leaf => matchesText(leaf, terms)));
+  });
+};
+
+/**
+ * Income and expense of the filtered transactions. With a category or tag filter, a split transaction only
+ * counts its matching sub-items, so "how much went to X" is not inflated by the rest of the bill.
+ * Transfers are left out.
+ */
+export const getFilteredTotals = (transactions: Transaction[], filters: TransactionFilters): FilteredTotals => {
+  const totals: FilteredTotals = { count: transactions.length, income: 0, expense: 0, balance: 0 };
+  transactions.forEach(t => {
+    if (isTransfer(t)) return;
+    const amount = (filters.categoryId !== 'all' || filters.tagId !== 'all') && t.subItems?.length
+      ? t.subItems.filter(sub => matchesItemFilters(sub, filters, t)).reduce((sum, sub) => sum + sub.amount, 0)
+      : t.amount;
+    if (t.type === TransactionType.INCOME) totals.income += amount;
+    else totals.expense += amount;
+  });
+  totals.balance = totals.income - totals.expense;
+  return totals;
+};
@@ -0,0 +1,128 @@
+import { Account, Transaction, TransactionType } from '../types';
+import { getAccountBalances, isTransfer } from './accounts';
+import { materializeRecurringTransactions } from './recurrence';
+
+// The forecast adds up, month by month, three kinds of entries: occurrences of recurring series that are still
+// to be created, transactions already dated in the future (installments included), and the average variable
+// spending and income of recent months, per category. Transfers only move money between accounts, so they
+// don't change the total balance that is projected.
+
+export const FORECAST_HORIZONS = [3, 6, 12];
+export const FORECAST_HISTORY_MONTHS = 6;
+
+// The band covers about 80% of the outcomes if the variable amounts of each month are independent and normal
+const CONFIDENCE_Z = 1.28;
+
+export interface ForecastMonth {
+  month: string; // 'YYYY-MM'
+  recurring: number; // Net amounts (income minus expenses) of each kind of entry
+  scheduled: number;
+  variable: number;
+  balance: number; // Expected total balance at the end of the month
+  low: number;
+  high: number;
+}
+
+export interface CashFlowForecast {
+  startingBalance: number; // Total balance of all accounts today
+  months: ForecastMonth[]; // The current month first
+  historyMonths: number; // Complete months the variable averages are based on
+  firstNegativeMonth?: string; // First month expected to end with a negative balance
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+
+const addMonths = (month: string, count: number) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthOf(new Date(Date.UTC(year, monthNumber - 1 + count, 1)));
+};
+
+const signedAmount = (t: Transaction) => (t.type === TransactionType.INCOME ? t.amount : -t.amount);
+
+const isCounted = (t: Transaction) => !t.parentId && !isTransfer(t);
+
+// Everything that is neither part of a series nor an installment varies from month to month
+const isVariable = (t: Transaction) => isCounted(t) && !t.recurrence && !t.seriesId && !t.installment;
+
+/** Sum of `values` by key, e.g. the net amount per category. */
+const sumBy = (transactions: Transaction[], key: (t: Transaction) => string) =>
+  transactions.reduce((totals, t) => {
+    totals[key(t)] = (totals[key(t)] || 0) + signedAmount(t);
+    return totals;
+  }, {} as { [key: string]: number });
+
+/**
+ * Projects the total balance for `horizon` months, the current one included. `transactions` must be in the base
+ * currency and include the recurring series' origins, whose occurrences are generated up to the end of the horizon.
+ */
+export const getCashFlowForecast = (
+  accounts: Account[],
+  transactions: Transaction[],
+  horizon: number,
+  today: Date = new Date()
+): CashFlowForecast => {
+  const endOfToday = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999));
+  const currentMonth = monthOf(endOfToday);
+  const forecastMonths = Array.from({ length: horizon }, (_, index) => addMonths(currentMonth, index));
+  const lastMonth = forecastMonths[forecastMonths.length - 1];
+
+  const startingBalance = roundCents(
+    getAccountBalances(accounts, transactions, endOfToday.toISOString()).reduce((sum, { balance }) => sum + balance, 0)
+  );
+
+  // Variable averages come from the last complete months, but never from before the first transaction
+  const firstMonth = transactions.filter(isCounted).reduce((first, t) => (t.date.slice(0, 7) < first ? t.date.slice(0, 7) : first), currentMonth);
+  const historyMonths = Array.from({ length: FORECAST_HISTORY_MONTHS }, (_, index) => addMonths(currentMonth, index - FORECAST_HISTORY_MONTHS))
+    .filter(month => month >= firstMonth);
+  const history = transactions.filter(t => isVariable(t) && historyMonths.includes(t.date.slice(0, 7)));
+  const averageByCategory = Object.fromEntries(
+    Object.entries(sumBy(history, t => t.categoryId)).map(([categoryId, total]) => [categoryId, total / historyMonths.length])
+  );
+  const monthlyVariable = sumBy(history, t => t.date.slice(0, 7));
+  const averageVariable = Object.values(averageByCategory).reduce((sum, value) => sum + value, 0);
+  const variance = historyMonths.length > 1
+    ? historyMonths.reduce((sum, month) => sum + ((monthlyVariable[month] ?? 0) - averageVariable) ** 2, 0) / (historyMonths.length - 1)
+    : 0;
+  const deviation = Math.sqrt(variance);
+
+  // What is left of each category's average this month, given what was already spent or received
+  const soFar = sumBy(transactions.filter(t => isVariable(t) && t.date.slice(0, 7) === currentMonth && new Date(t.date) <= endOfToday), t => t.categoryId);
+  const currentMonthVariable = Object.entries(averageByCategory).reduce((sum, [categoryId, average]) => {
+    const left = average - (soFar[categoryId] ?? 0);
+    return sum + (average < 0 ? Math.min(0, left) : Math.max(0, left));
+  }, 0);
+
+  const [year, monthNumber] = lastMonth.split('-').map(Number);
+  const existingIds = new Set(transactions.map(t => t.id));
+  const isUpcoming = (t: Transaction) => isCounted(t) && new Date(t.date) > endOfToday && t.date.slice(0, 7) <= lastMonth;
+  const recurring = sumBy(
+    materializeRecurringTransactions(transactions, new Date(year, monthNumber, 0)).transactions.filter(t => !existingIds.has(t.id) && isUpcoming(t)),
+    t => t.date.slice(0, 7)
+  );
+  const scheduled = sumBy(transactions.filter(isUpcoming), t => t.date.slice(0, 7));
+
+  let balance = startingBalance;
+  const months = forecastMonths.map((month, index) => {
+    const variable = month === currentMonth ? currentMonthVariable : averageVariable;
+    balance += (recurring[month] ?? 0) + (scheduled[month] ?? 0) + variable;
+    const spread = CONFIDENCE_Z * deviation * Math.sqrt(index + 1);
+    return {
+      month,
+      recurring: roundCents(recurring[month] ?? 0),
+      scheduled: roundCents(scheduled[month] ?? 0),
+      variable: roundCents(variable),
+      balance: roundCents(balance),
+      low: roundCents(balance - spread),
+      high: roundCents(balance + spread),
+    };
+  });
+
+  return {
+    startingBalance,
+    months,
+    historyMonths: historyMonths.length,
+    firstNegativeMonth: months.find(m => m.balance < 0)?.month,
+  };
+};
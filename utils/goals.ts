@@ -0,0 +1,66 @@
+import { Goal, Transaction, TransactionType } from '../types';
+
+// Goals are funded by the transactions linked to them: an expense or a transfer (e.g. to a savings account)
+// puts money into the goal, and a linked income takes money out of it.
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  ratio: number; // saved / target, between 0 and 1
+  contributions: Transaction[]; // Linked transactions up to today, newest first
+  monthlyRate: number; // Average actually put in per month since the goal started
+  monthlyRequired?: number; // Needed per month to reach the target by the deadline; absent without a deadline or once reached
+  projectedDate?: string; // ISO string; when the target is reached at the current rate. Absent once reached or when the rate is not positive
+  onTrack?: boolean; // Whether the projection meets the deadline; absent without a deadline or once reached
+  completed: boolean;
+}
+
+const AVERAGE_MONTH_MS = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** The amount `t` adds to its goal; negative for withdrawals. */
+export const getContributionAmount = (t: Transaction) => (t.type === TransactionType.INCOME ? -t.amount : t.amount);
+
+export const unlinkGoalFromTransactions = (transactions: Transaction[], goalId: string): Transaction[] =>
+  transactions.map(t => {
+    if (t.goalId !== goalId) return t;
+    const { goalId: _, ...rest } = t;
+    return rest;
+  });
+
+/**
+ * Progress of `goal` as of `today`. The contribution rate is measured from when the goal was created, or from
+ * its oldest contribution if that came first, over at least one month so a first deposit doesn't look like a trend.
+ */
+export const getGoalProgress = (goal: Goal, transactions: Transaction[], today: Date = new Date()): GoalProgress => {
+  const now = today.getTime();
+  const contributions = transactions
+    .filter(t => !t.parentId && t.goalId === goal.id && new Date(t.date).getTime() <= now)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const contributed = contributions.reduce((sum, t) => sum + getContributionAmount(t), 0);
+
+  const saved = roundCents(goal.initialAmount + contributed);
+  const remaining = roundCents(Math.max(0, goal.targetAmount - saved));
+  const completed = remaining === 0;
+  const ratio = goal.targetAmount > 0 ? Math.min(1, Math.max(0, saved / goal.targetAmount)) : 1;
+
+  const oldest = contributions[contributions.length - 1];
+  const start = Math.min(new Date(goal.createdAt).getTime(), oldest ? new Date(oldest.date).getTime() : now);
+  const monthlyRate = roundCents(contributed / Math.max(1, (now - start) / AVERAGE_MONTH_MS));
+
+  const progress: GoalProgress = { saved, remaining, ratio, contributions, monthlyRate, completed };
+  if (completed) return progress;
+
+  if (monthlyRate > 0) {
+    const projected = new Date(now + (remaining / monthlyRate) * AVERAGE_MONTH_MS);
+    progress.projectedDate = new Date(Date.UTC(projected.getUTCFullYear(), projected.getUTCMonth(), projected.getUTCDate())).toISOString();
+  }
+  if (goal.deadline) {
+    // A deadline that has passed leaves a single month to catch up
+    const monthsLeft = Math.max(1, Math.ceil((new Date(goal.deadline).getTime() - now) / AVERAGE_MONTH_MS));
+    progress.monthlyRequired = roundCents(remaining / monthsLeft);
+    progress.onTrack = !!progress.projectedDate && progress.projectedDate <= goal.deadline;
+  }
+  return progress;
+};
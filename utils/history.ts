@@ -0,0 +1,108 @@
+import { Transaction, UserData } from '../types';
+
+// Undo history stores what each change touched rather than whole copies of the data: the settings keys
+// that changed and, per transaction id, its value on each side (null when it did not exist).
+
+type Settings = Omit<UserData, 'transactions'>;
+
+export interface DataPatch {
+  settings: Partial<Settings>;
+  transactions: { [id: string]: Transaction | null };
+}
+
+export interface HistoryEntry {
+  label: string; // What the change did, e.g. "Transação excluída"
+  at: string;
+  before: DataPatch;
+  after: DataPatch;
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[]; // Oldest first; the last entry is the next one to undo
+  future: HistoryEntry[]; // Undone entries, the next one to redo last
+}
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+// The history is bounded both in steps and in the transaction snapshots it holds, so a large import or
+// restore doesn't keep growing what is saved on every change. The newest step is always kept.
+export const MAX_HISTORY_ENTRIES = 50;
+export const MAX_HISTORY_TRANSACTIONS = 5000;
+
+const patchSize = (entry: HistoryEntry) =>
+  Object.keys(entry.before.transactions).length + Object.keys(entry.after.transactions).length;
+
+/** The difference between two versions of the data, or null when nothing changed. */
+export const diffUserData = (before: UserData, after: UserData): { before: DataPatch; after: DataPatch } | null => {
+  const { transactions: beforeTransactions, ...beforeSettings } = before;
+  const { transactions: afterTransactions, ...afterSettings } = after;
+  const keys = Array.from(new Set([...Object.keys(beforeSettings), ...Object.keys(afterSettings)])) as (keyof Settings)[];
+  const changedKeys = keys.filter(key => beforeSettings[key] !== afterSettings[key]);
+  const settingsOf = (settings: Settings): Partial<Settings> => Object.fromEntries(changedKeys.map(key => [key, settings[key]]));
+  const patches = {
+    before: { settings: settingsOf(beforeSettings), transactions: {} } as DataPatch,
+    after: { settings: settingsOf(afterSettings), transactions: {} } as DataPatch,
+  };
+
+  // State updates are immutable, so an unchanged transaction is the same object in both versions
+  const beforeById = new Map(beforeTransactions.map(t => [t.id, t]));
+  afterTransactions.forEach(t => {
+    const previous = beforeById.get(t.id);
+    beforeById.delete(t.id);
+    if (previous === t) return;
+    patches.before.transactions[t.id] = previous ?? null;
+    patches.after.transactions[t.id] = t;
+  });
+  beforeById.forEach((t, id) => {
+    patches.before.transactions[id] = t;
+    patches.after.transactions[id] = null;
+  });
+
+  const changed = Object.keys(patches.before.settings).length > 0 || Object.keys(patches.before.transactions).length > 0;
+  return changed ? patches : null;
+};
+
+export const applyPatch = (data: UserData, patch: DataPatch): UserData => {
+  const pending = new Map(Object.entries(patch.transactions));
+  const transactions = data.transactions.flatMap(t => {
+    if (!pending.has(t.id)) return [t];
+    const replacement = pending.get(t.id);
+    pending.delete(t.id);
+    return replacement ? [replacement] : [];
+  });
+  pending.forEach(t => { if (t) transactions.push(t); });
+  return { ...data, ...patch.settings, transactions };
+};
+
+/** Adds the change from `before` to `after` as the newest step. Anything that had been undone can no longer be redone. */
+export const recordChange = (history: UndoHistory, label: string, before: UserData, after: UserData): UndoHistory => {
+  const patches = diffUserData(before, after);
+  if (!patches) return history;
+
+  const past = [...history.past, { label, at: new Date().toISOString(), ...patches }].slice(-MAX_HISTORY_ENTRIES);
+  let size = past.reduce((sum, entry) => sum + patchSize(entry), 0);
+  while (past.length > 1 && size > MAX_HISTORY_TRANSACTIONS) size -= patchSize(past.shift()!);
+  return { past, future: [] };
+};
+
+/** Reverts the newest step. Returns null when there is nothing to undo. */
+export const undoChange = (history: UndoHistory, data: UserData): { history: UndoHistory; data: UserData; entry: HistoryEntry } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    data: applyPatch(data, entry.before),
+    entry,
+  };
+};
+
+/** Applies again the last undone step. Returns null when there is nothing to redo. */
+export const redoChange = (history: UndoHistory, data: UserData): { history: UndoHistory; data: UserData; entry: HistoryEntry } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    data: applyPatch(data, entry.after),
+    entry,
+  };
+};
@@ -0,0 +1,288 @@
+import { Transaction, TransactionType } from '../types';
+
+export type ImportFormat = 'ofx' | 'qif' | 'csv';
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+export type DecimalSeparator = ',' | '.';
+
+// How a bank export tells expenses apart from income:
+// - minus: expenses are negative numbers, written as -12,50, 12,50- or (12,50)
+// - inverted: expenses are positive and payments/refunds negative, common in credit card statements
+// - debitCredit: separate columns for debits and credits
+export type NegativeAmountConvention = 'minus' | 'inverted' | 'debitCredit';
+
+export interface ImportedRow {
+  date: string; // ISO string
+  description: string;
+  amount: number; // Negative for expenses, positive for income
+}
+
+export interface CsvMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number;
+  debitColumn: number;
+  creditColumn: number;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  negativeConvention: NegativeAmountConvention;
+}
+
+export interface ParseResult {
+  rows: ImportedRow[];
+  skipped: number; // Lines that could not be read with the chosen settings
+}
+
+export const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export const detectFormat = (fileName: string, content: string): ImportFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(content)) return 'qif';
+  return 'csv';
+};
+
+/** Parses a date written in `format`. Two-digit years are read as 20xx. Returns an ISO string at UTC midnight, or null. */
+export const parseDate = (raw: string, format: DateFormat): string | null => {
+  const parts = raw.trim().replace(/'/g, '/').split(/[\/\-. ]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let [day, month, year] = format === 'YYYY-MM-DD'
+    ? [parts[2], parts[1], parts[0]]
+    : format === 'MM/DD/YYYY' ? [parts[1], parts[0], parts[2]] : [parts[0], parts[1], parts[2]];
+
+  let yearNumber = parseInt(year, 10);
+  if (year.length <= 2) yearNumber += 2000;
+  const monthNumber = parseInt(month, 10);
+  const dayNumber = parseInt(day, 10);
+  if (!yearNumber || monthNumber < 1 || monthNumber > 12 || dayNumber < 1 || dayNumber > 31) return null;
+
+  const date = new Date(Date.UTC(yearNumber, monthNumber - 1, dayNumber));
+  return date.getUTCMonth() === monthNumber - 1 ? date.toISOString() : null;
+};
+
+/**
+ * Reads an amount such as "R$ 1.234,56", "-1,234.56", "(12,50)" or "12,50-".
+ * Parentheses and a trailing minus are read as negative; the convention decides what negative means.
+ */
+export const parseAmount = (raw: string, decimalSeparator: DecimalSeparator): number | null => {
+  let text = raw.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.includes('-')) {
+    negative = !negative;
+  }
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const normalized = text
+    .replace(/[^\d,.]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+  const value = parseFloat(normalized);
+  if (isNaN(value)) return null;
+  return negative ? -value : value;
+};
+
+/** Splits CSV text into rows, honouring quoted fields with embedded delimiters, quotes and line breaks. */
+export const parseCsvRows = (content: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim())) rows.push(row);
+  return rows;
+};
+
+export const detectDelimiter = (content: string): string => {
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const candidates = [';', ',', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+/** Guesses a mapping from the header row, so most Brazilian bank exports need no manual adjustment. */
+export const guessCsvMapping = (rows: string[][], delimiter: string): CsvMapping => {
+  const header = (rows[0] || []).map(h => h.trim().toLowerCase());
+  const find = (...names: string[]) => header.findIndex(h => names.some(name => h.includes(name)));
+  const hasHeader = header.some(h => isNaN(parseFloat(h.replace(',', '.'))) && !/\d{1,4}[\/\-.]\d{1,2}/.test(h));
+  const sample = rows[hasHeader ? 1 : 0] || [];
+
+  const dateColumn = Math.max(0, find('data', 'date'));
+  const amountColumn = find('valor', 'amount', 'quantia', 'montante');
+  const debitColumn = find('débito', 'debito', 'debit', 'saída', 'saida');
+  const creditColumn = find('crédito', 'credito', 'credit', 'entrada');
+  const descriptionColumn = find('descri', 'histórico', 'historico', 'memo', 'lançamento', 'lancamento', 'estabelecimento');
+  const sampleDate = sample[dateColumn] || '';
+  const sampleAmount = sample[amountColumn >= 0 ? amountColumn : 2] || '';
+
+  return {
+    delimiter,
+    hasHeader,
+    dateColumn,
+    descriptionColumn: descriptionColumn >= 0 ? descriptionColumn : 1,
+    amountColumn: amountColumn >= 0 ? amountColumn : 2,
+    debitColumn,
+    creditColumn,
+    dateFormat: /^\d{4}/.test(sampleDate.trim()) ? 'YYYY-MM-DD' : 'DD/MM/YYYY',
+    decimalSeparator: /,\d{1,2}\)?-?$/.test(sampleAmount.trim()) ? ',' : '.',
+    negativeConvention: amountColumn < 0 && debitColumn >= 0 && creditColumn >= 0 ? 'debitCredit' : 'minus',
+  };
+};
+
+export const mapCsvRows = (rows: string[][], mapping: CsvMapping): ParseResult => {
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const result: ParseResult = { rows: [], skipped: 0 };
+
+  dataRows.forEach(row => {
+    const date = parseDate(row[mapping.dateColumn] || '', mapping.dateFormat);
+    const description = (row[mapping.descriptionColumn] || '').trim();
+    let amount: number | null;
+
+    if (mapping.negativeConvention === 'debitCredit') {
+      const debit = parseAmount(row[mapping.debitColumn] || '', mapping.decimalSeparator);
+      const credit = parseAmount(row[mapping.creditColumn] || '', mapping.decimalSeparator);
+      amount = debit || credit ? Math.abs(credit || 0) - Math.abs(debit || 0) : null;
+    } else {
+      amount = parseAmount(row[mapping.amountColumn] || '', mapping.decimalSeparator);
+      if (amount !== null && mapping.negativeConvention === 'inverted') amount = -amount;
+    }
+
+    if (!date || amount === null || amount === 0) {
+      result.skipped++;
+      return;
+    }
+    result.rows.push({ date, description: description || 'Sem descrição', amount });
+  });
+
+  return result;
+};
+
+const getOfxTag = (block: string, tag: string): string | undefined => {
+  // OFX 1.x (SGML) leaves tags unclosed, OFX 2.x (XML) closes them; reading up to the next "<" covers both.
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+/** Parses OFX and QFX statements (both the SGML 1.x and XML 2.x flavours). */
+export const parseOfx = (content: string): ParseResult => {
+  const result: ParseResult = { rows: [], skipped: 0 };
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  blocks.forEach(block => {
+    const rawDate = getOfxTag(block, 'DTPOSTED') || '';
+    const rawAmount = getOfxTag(block, 'TRNAMT') || '';
+    const date = /^\d{8}/.test(rawDate) ? parseDate(`${rawDate.slice(0, 4)}-${rawDate.slice(4, 6)}-${rawDate.slice(6, 8)}`, 'YYYY-MM-DD') : null;
+    const amount = parseAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+    const description = getOfxTag(block, 'NAME') || getOfxTag(block, 'MEMO') || 'Sem descrição';
+
+    if (!date || amount === null || amount === 0) {
+      result.skipped++;
+      return;
+    }
+    result.rows.push({ date, description, amount });
+  });
+
+  return result;
+};
+
+/** Parses QIF files. QIF has no standard date order, so it is chosen by the user. */
+export const parseQif = (content: string, dateFormat: DateFormat, decimalSeparator: DecimalSeparator): ParseResult => {
+  const result: ParseResult = { rows: [], skipped: 0 };
+  const records = content.split(/^\^\s*$/m);
+
+  records.forEach(record => {
+    const fields: { [code: string]: string } = {};
+    record.split(/\r?\n/).forEach(line => {
+      if (!line || line.startsWith('!')) return;
+      const code = line[0];
+      if (!(code in fields)) fields[code] = line.slice(1).trim();
+    });
+    if (!fields.D && !fields.T) return;
+
+    const date = parseDate(fields.D || '', dateFormat);
+    const amount = parseAmount(fields.T || fields.U || '', decimalSeparator);
+    if (!date || amount === null || amount === 0) {
+      result.skipped++;
+      return;
+    }
+    result.rows.push({ date, description: fields.P || fields.M || 'Sem descrição', amount });
+  });
+
+  return result;
+};
+
+const normalizeDescription = (description: string) =>
+  description.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+
+const duplicateKey = (date: string, amount: number, description: string) =>
+  `${date.slice(0, 10)}|${Math.round(Math.abs(amount) * 100)}|${normalizeDescription(description)}`;
+
+/** Returns the indexes of `rows` that already exist in `transactions` (same day, amount and description). */
+export const findDuplicateRows = (rows: ImportedRow[], transactions: Transaction[]): Set<number> => {
+  const existing = new Set(transactions.filter(t => !t.parentId).map(t => duplicateKey(t.date, t.amount, t.description)));
+  const duplicates = new Set<number>();
+  rows.forEach((row, index) => {
+    if (existing.has(duplicateKey(row.date, row.amount, row.description))) duplicates.add(index);
+  });
+  return duplicates;
+};
+
+export const importedRowToTransaction = (
+  row: ImportedRow,
+  index: number,
+  options: { accountId: string; incomeCategoryId: string; expenseCategoryId: string }
+): Transaction => ({
+  id: `import${Date.now()}_${index}`,
+  description: row.description,
+  amount: Math.abs(row.amount),
+  date: row.date,
+  type: row.amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+  categoryId: row.amount > 0 ? options.incomeCategoryId : options.expenseCategoryId,
+  accountId: options.accountId,
+});
+
+/** Reads a statement as UTF-8, falling back to Windows-1252, which many Brazilian banks still use for exports. */
+export const readStatementFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  return utf8.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : utf8;
+};
@@ -0,0 +1,106 @@
+import { Account, Category, RecurrenceRule, Transaction, TransactionFilters, UserData } from '../types';
+import { DEFAULT_USER_DATA, INITIAL_ACCOUNTS, INITIAL_CATEGORIES } from '../constants';
+import { inferCategoryKind } from './categories';
+
+// Shapes saved before version 4, when transactions referenced categories by name
+type LegacyTransaction = Omit<Transaction, 'categoryId'> & { categoryId?: string; category?: string };
+type LegacyTemplate = NonNullable<RecurrenceRule['template']> & { category?: string };
+type LegacyFilters = TransactionFilters & { category?: string };
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: UserData) => UserData;
+}
+
+// Append new migrations at the end with the next version number; never edit one that has shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Default icons for categories saved without one and the initial categories for older data',
+    migrate: data => {
+      const categoriesWithIcons: Category[] = data.categories.map(c => ({
+        ...c,
+        icon: c.icon ?? INITIAL_CATEGORIES.find(ic => ic.name === c.name)?.icon ?? 'question_mark_circle',
+      }));
+      const missingInitialCategories = INITIAL_CATEGORIES.filter(initialCat => !categoriesWithIcons.some(c => c.name === initialCat.name));
+      return { ...data, categories: [...categoriesWithIcons, ...missingInitialCategories] };
+    },
+  },
+  {
+    version: 2,
+    description: 'Default account for data saved before accounts existed',
+    migrate: data => {
+      const accounts: Account[] = data.accounts?.length ? data.accounts : INITIAL_ACCOUNTS;
+      const transactions = data.transactions.map((t: Transaction) => (t.parentId || t.accountId ? t : { ...t, accountId: accounts[0].id }));
+      return { ...data, accounts, transactions };
+    },
+  },
+  {
+    version: 3,
+    description: 'Income/expense kind for categories, inferred from the transactions that use them',
+    migrate: data => ({
+      ...data,
+      categories: data.categories.map(c => (c.kind ? c : { ...c, kind: inferCategoryKind(c, data.transactions) })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Transactions reference categories by id instead of by name',
+    migrate: data => {
+      const categories = [...data.categories];
+      const idForName = (name: string): string => {
+        if (!name) return '';
+        const existing = categories.find(c => c.name === name);
+        if (existing) return existing.id;
+        // A category that was renamed or deleted while still in use; recreate it so the history keeps its label
+        const recreated: Category = { id: `cat${Date.now()}_${categories.length}`, name, icon: 'question_mark_circle', kind: 'expense' };
+        categories.push(recreated);
+        return recreated.id;
+      };
+
+      const transactions = data.transactions.map((t: LegacyTransaction): Transaction => {
+        if (t.categoryId !== undefined) return t as Transaction;
+        const { category, ...rest } = t;
+        const template = t.recurrence?.template as LegacyTemplate | undefined;
+        let recurrence = t.recurrence;
+        if (template && template.category !== undefined) {
+          const { category: templateCategory, ...templateRest } = template;
+          recurrence = { ...t.recurrence!, template: { ...templateRest, categoryId: idForName(templateCategory) } };
+        }
+        return { ...rest, categoryId: idForName(category ?? ''), recurrence };
+      });
+      const recreated = categories.slice(data.categories.length).map(c => ({ ...c, kind: inferCategoryKind(c, transactions) }));
+
+      const filters = data.transactionFilters as LegacyFilters;
+      let transactionFilters = data.transactionFilters;
+      if (filters.category !== undefined) {
+        const { category, ...rest } = filters;
+        transactionFilters = { ...rest, categoryId: categories.find(c => c.name === category)?.id ?? 'all' };
+      }
+
+      return { ...data, categories: [...data.categories, ...recreated], transactions, transactionFilters };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Fills fields added to UserData without a migration of their own (e.g. budgets) from DEFAULT_USER_DATA. */
+export const applyDefaults = (data: Partial<UserData>): UserData => ({
+  ...DEFAULT_USER_DATA,
+  ...data,
+  categories: data.categories ?? [],
+  transactions: data.transactions ?? [],
+  transactionFilters: { ...DEFAULT_USER_DATA.transactionFilters, ...data.transactionFilters }, // Filters added later start empty
+  theme: data.theme || 'galaxy',
+});
+
+/**
+ * Brings data saved at `fromVersion` up to CURRENT_SCHEMA_VERSION, after filling missing fields with defaults.
+ * Data of unknown version (backups, legacy storage) can be passed with version 0, since every migration
+ * is safe to run on current data.
+ */
+export const runMigrations = (data: Partial<UserData>, fromVersion: number): UserData => MIGRATIONS
+  .filter(migration => migration.version > fromVersion)
+  .reduce((migrated, migration) => migration.migrate(migrated), applyDefaults(data));
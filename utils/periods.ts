@@ -0,0 +1,189 @@
+import { Category, Transaction, TransactionType } from '../types';
+import { isTransfer } from './accounts';
+
+// Pages filter by a period. Calendar periods (week, month, quarter, year) and custom ones keep a fixed range;
+// rolling periods are measured back from today every time they are used, so "últimos 30 dias" stays current.
+
+export type PeriodKind = 'all' | 'week' | 'month' | 'quarter' | 'year' | 'last30' | 'last90' | 'custom';
+
+export interface Period {
+  kind: PeriodKind;
+  start: string; // 'YYYY-MM-DD', inclusive; empty for 'all' and ignored by rolling periods
+  end: string;
+}
+
+export interface DateRange {
+  start: string; // 'YYYY-MM-DD', both inclusive
+  end: string;
+}
+
+export interface CategoryComparison {
+  category: Category;
+  type: TransactionType.INCOME | TransactionType.EXPENSE;
+  current: number;
+  previous: number;
+  delta: number;
+  deltaPercent: number | null; // Null when there was nothing in the previous period
+}
+
+export const PERIOD_KIND_LABELS: Record<PeriodKind, string> = {
+  all: 'Todo o período',
+  week: 'Semana',
+  month: 'Mês',
+  quarter: 'Trimestre',
+  year: 'Ano',
+  last30: 'Últimos 30 dias',
+  last90: 'Últimos 90 dias',
+  custom: 'Personalizado',
+};
+
+export const ALL_TIME: Period = { kind: 'all', start: '', end: '' };
+
+const ROLLING_DAYS: Partial<Record<PeriodKind, number>> = { last30: 30, last90: 90 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+const parseDay = (day: string) => new Date(`${day}T00:00:00.000Z`);
+const addDays = (day: string, count: number) => toDay(new Date(parseDay(day).getTime() + count * DAY_MS));
+const daysBetween = (start: string, end: string) => Math.round((parseDay(end).getTime() - parseDay(start).getTime()) / DAY_MS);
+const monthStart = (year: number, monthIndex: number) => toDay(new Date(Date.UTC(year, monthIndex, 1)));
+
+/** Today's date as the user sees it, in the stored 'YYYY-MM-DD' form. */
+export const getToday = (today: Date = new Date()) => toDay(new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())));
+
+/** The period of `kind` that contains `day` ('YYYY-MM-DD'). A custom period starts as the month of `day`. */
+export const createPeriod = (kind: PeriodKind, day: string = getToday()): Period => {
+  const date = parseDay(day);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (kind) {
+    case 'all':
+      return ALL_TIME;
+    case 'week': {
+      const start = addDays(day, -date.getUTCDay()); // Weeks start on Sunday, as in Brazilian calendars
+      return { kind, start, end: addDays(start, 6) };
+    }
+    case 'quarter': {
+      const firstMonth = month - (month % 3);
+      return { kind, start: monthStart(year, firstMonth), end: addDays(monthStart(year, firstMonth + 3), -1) };
+    }
+    case 'year':
+      return { kind, start: `${year}-01-01`, end: `${year}-12-31` };
+    case 'last30':
+    case 'last90':
+      return { kind, start: '', end: '' };
+    case 'month':
+    case 'custom':
+      return { kind, start: monthStart(year, month), end: addDays(monthStart(year, month + 1), -1) };
+  }
+};
+
+/** The days a period covers, or null for the whole history. */
+export const getPeriodRange = (period: Period, today: Date = new Date()): DateRange | null => {
+  if (period.kind === 'all') return null;
+  const rollingDays = ROLLING_DAYS[period.kind];
+  if (rollingDays) {
+    const end = getToday(today);
+    return { start: addDays(end, -(rollingDays - 1)), end };
+  }
+  return { start: period.start, end: period.end };
+};
+
+export const isInRange = (date: string, range: DateRange | null) => {
+  if (!range) return true;
+  const day = date.slice(0, 10);
+  return day >= range.start && day <= range.end;
+};
+
+/** The same kind of calendar period `steps` periods later (or earlier, when negative). */
+export const shiftPeriod = (period: Period, steps: number): Period => {
+  const start = parseDay(period.start);
+  switch (period.kind) {
+    case 'week':
+      return createPeriod('week', addDays(period.start, steps * 7));
+    case 'month':
+    case 'quarter':
+      return createPeriod(period.kind, monthStart(start.getUTCFullYear(), start.getUTCMonth() + steps * (period.kind === 'month' ? 1 : 3)));
+    case 'year':
+      return createPeriod('year', `${start.getUTCFullYear() + steps}-01-01`);
+    default:
+      return period;
+  }
+};
+
+/** The period a report is compared with: the previous calendar period, or the same number of days just before. */
+export const getPreviousRange = (period: Period, today: Date = new Date()): DateRange | null => {
+  const range = getPeriodRange(period, today);
+  if (!range) return null;
+  if (period.kind === 'week' || period.kind === 'month' || period.kind === 'quarter' || period.kind === 'year') {
+    return getPeriodRange(shiftPeriod(period, -1));
+  }
+  const length = daysBetween(range.start, range.end) + 1;
+  return { start: addDays(range.start, -length), end: addDays(range.start, -1) };
+};
+
+/** 'YYYY-MM' when the period is a single calendar month, otherwise 'all' (e.g. for monthly budgets). */
+export const getPeriodMonth = (period: Period) => (period.kind === 'month' ? period.start.slice(0, 7) : 'all');
+
+const formatDay = (day: string) => parseDay(day).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+export const formatRange = (range: DateRange) => `${formatDay(range.start)} a ${formatDay(range.end)}`;
+
+export const formatPeriod = (period: Period, today: Date = new Date()): string => {
+  const range = getPeriodRange(period, today);
+  if (!range) return PERIOD_KIND_LABELS.all;
+  const start = parseDay(range.start);
+  switch (period.kind) {
+    case 'month': {
+      const label = start.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+      return label.charAt(0).toUpperCase() + label.slice(1);
+    }
+    case 'quarter':
+      return `${Math.floor(start.getUTCMonth() / 3) + 1}º trimestre de ${start.getUTCFullYear()}`;
+    case 'year':
+      return String(start.getUTCFullYear());
+    case 'last30':
+    case 'last90':
+      return PERIOD_KIND_LABELS[period.kind];
+    default:
+      return formatRange(range);
+  }
+};
+
+/**
+ * Income and spending per category in two sets of transactions, largest change first. As with budgets, a split
+ * transaction is represented by its sub-items, each in its own category. Transfers are left out.
+ */
+export const compareByCategory = (current: Transaction[], previous: Transaction[], categories: Category[]): CategoryComparison[] => {
+  const totals = (transactions: Transaction[]) => {
+    const parentIds = new Set(transactions.filter(t => t.parentId).map(t => t.parentId));
+    return transactions
+      .filter(t => !isTransfer(t) && !parentIds.has(t.id))
+      .reduce((sums, t) => {
+        const key = `${t.type}|${t.categoryId}`;
+        sums[key] = (sums[key] || 0) + t.amount;
+        return sums;
+      }, {} as { [key: string]: number });
+  };
+  const currentTotals = totals(current);
+  const previousTotals = totals(previous);
+
+  return Array.from(new Set([...Object.keys(currentTotals), ...Object.keys(previousTotals)]))
+    .flatMap(key => {
+      const [type, categoryId] = key.split('|');
+      const category = categories.find(c => c.id === categoryId);
+      if (!category) return [];
+      const currentAmount = Math.round((currentTotals[key] ?? 0) * 100) / 100;
+      const previousAmount = Math.round((previousTotals[key] ?? 0) * 100) / 100;
+      const delta = Math.round((currentAmount - previousAmount) * 100) / 100;
+      return [{
+        category,
+        type: type as CategoryComparison['type'],
+        current: currentAmount,
+        previous: previousAmount,
+        delta,
+        deltaPercent: previousAmount !== 0 ? (delta / previousAmount) * 100 : null,
+      }];
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
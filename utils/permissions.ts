@@ -0,0 +1,35 @@
+import { UserProfile, UserRole } from '../types';
+
+export type Permission = 'viewAdminPanel' | 'manageUsers';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: [],
+  admin: ['viewAdminPanel', 'manageUsers'],
+  auditor: ['viewAdminPanel'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  user: 'Usuário',
+  admin: 'Administrador',
+  auditor: 'Auditor',
+};
+
+export const hasPermission = (profile: UserProfile | null | undefined, permission: Permission) =>
+  !!profile && ROLE_PERMISSIONS[profile.role].includes(permission);
+
+const isLastAdmin = (target: UserProfile, profiles: { [username: string]: UserProfile }) =>
+  target.role === 'admin' && Object.values(profiles).filter(p => p.role === 'admin').length <= 1;
+
+/** Why `actor` cannot delete `target`, or null when it is allowed. */
+export const getDeleteUserError = (actor: UserProfile, target: UserProfile, profiles: { [username: string]: UserProfile }): string | null => {
+  if (!hasPermission(actor, 'manageUsers')) return 'Você não tem permissão para excluir usuários.';
+  if (isLastAdmin(target, profiles)) return 'Não é possível excluir o último administrador.';
+  return null;
+};
+
+/** Why `actor` cannot give `target` the role `role`, or null when it is allowed. */
+export const getRoleChangeError = (actor: UserProfile, target: UserProfile, role: UserRole, profiles: { [username: string]: UserProfile }): string | null => {
+  if (!hasPermission(actor, 'manageUsers')) return 'Você não tem permissão para alterar funções.';
+  if (role !== 'admin' && isLastAdmin(target, profiles)) return 'Não é possível remover a função do último administrador.';
+  return null;
+};
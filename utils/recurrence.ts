@@ -0,0 +1,148 @@
+import { RecurrenceFrequency, RecurrenceRule, Transaction } from '../types';
+
+// Safety net so a daily series with a very old start date can't freeze the app in a single run.
+const MAX_OCCURRENCES_PER_RUN = 1000;
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, { singular: string; plural: string; adjective: string }> = {
+  daily: { singular: 'dia', plural: 'dias', adjective: 'Diária' },
+  weekly: { singular: 'semana', plural: 'semanas', adjective: 'Semanal' },
+  monthly: { singular: 'mês', plural: 'meses', adjective: 'Mensal' },
+  yearly: { singular: 'ano', plural: 'anos', adjective: 'Anual' },
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Returns the date of the occurrence at `index` (0 is the first transaction of the series),
+ * or null when the day does not exist in the target month and the rule skips those months.
+ * All arithmetic is done in UTC, matching how dates are stored by TransactionModal.
+ */
+export const getOccurrenceDate = (startDate: string, rule: Pick<RecurrenceRule, 'frequency' | 'interval' | 'dayOfMonthPolicy'>, index: number): Date | null => {
+  const start = new Date(startDate);
+  const step = Math.max(1, rule.interval) * index;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(start.getTime() + step * 86400000);
+    case 'weekly':
+      return new Date(start.getTime() + step * 7 * 86400000);
+    case 'monthly':
+    case 'yearly': {
+      const monthOffset = rule.frequency === 'monthly' ? step : step * 12;
+      const totalMonths = start.getUTCMonth() + monthOffset;
+      const year = start.getUTCFullYear() + Math.floor(totalMonths / 12);
+      const month = totalMonths % 12;
+      const day = start.getUTCDate();
+      const lastDay = daysInMonth(year, month);
+      if (day > lastDay && rule.dayOfMonthPolicy === 'skip') {
+        return null;
+      }
+      return new Date(Date.UTC(year, month, Math.min(day, lastDay), start.getUTCHours(), start.getUTCMinutes()));
+    }
+  }
+};
+
+const isSeriesFinished = (rule: RecurrenceRule, date: Date) =>
+  (rule.count !== undefined && rule.generatedCount >= rule.count) ||
+  (rule.endDate !== undefined && date.getTime() > new Date(rule.endDate).getTime());
+
+/** Date of the next occurrence that has not been created yet, or null when the series has ended. */
+export const getNextOccurrenceDate = (origin: Transaction): Date | null => {
+  const rule = origin.recurrence;
+  if (!rule) return null;
+
+  for (let index = rule.nextIndex; index < rule.nextIndex + 24; index++) {
+    const date = getOccurrenceDate(origin.date, rule, index);
+    if (!date) continue;
+    return isSeriesFinished(rule, date) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * Creates every occurrence of every recurring series that is due up to `today` (inclusive).
+ * Occurrences get a deterministic id, so running this more than once never duplicates entries,
+ * and past occurrences deleted by the user are not brought back because `nextIndex` only moves forward.
+ */
+export const materializeRecurringTransactions = (transactions: Transaction[], today: Date = new Date()): { transactions: Transaction[]; createdCount: number } => {
+  const endOfToday = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999));
+  const existingIds = new Set(transactions.map(t => t.id));
+  const created: Transaction[] = [];
+  const updatedOrigins: { [id: string]: Transaction } = {};
+
+  transactions.forEach(origin => {
+    if (!origin.recurrence || origin.parentId) return;
+
+    const rule = { ...origin.recurrence };
+    // Occurrences start without the origin's exchange rate, notes and receipts: those belong to its own payment, and
+    // an occurrence in another currency is converted with the rate table's rate of its own date.
+    const { id, recurrence, subItems, notes, attachments, seriesId, exchangeRate, ...base } = origin;
+    let createdForSeries = 0;
+
+    while (createdForSeries < MAX_OCCURRENCES_PER_RUN) {
+      const date = getOccurrenceDate(origin.date, rule, rule.nextIndex);
+      if (date && (isSeriesFinished(rule, date) || date.getTime() > endOfToday.getTime())) break;
+
+      const occurrenceId = `${origin.id}_r${rule.nextIndex}`;
+      rule.nextIndex += 1;
+      if (!date) continue;
+
+      rule.generatedCount += 1;
+      if (existingIds.has(occurrenceId)) continue;
+
+      created.push({
+        ...base,
+        ...rule.template,
+        id: occurrenceId,
+        date: date.toISOString(),
+        seriesId: origin.id,
+      });
+      createdForSeries++;
+    }
+
+    if (rule.nextIndex !== origin.recurrence.nextIndex) {
+      updatedOrigins[origin.id] = { ...origin, recurrence: rule };
+    }
+  });
+
+  if (created.length === 0 && Object.keys(updatedOrigins).length === 0) {
+    return { transactions, createdCount: 0 };
+  }
+
+  return {
+    transactions: [...transactions.map(t => updatedOrigins[t.id] ?? t), ...created],
+    createdCount: created.length,
+  };
+};
+
+/** Changes the values used by future occurrences of a series. Occurrences dated up to `today` are left untouched. */
+export const updateSeriesFutureOccurrences = (
+  transactions: Transaction[],
+  originId: string,
+  changes: NonNullable<RecurrenceRule['template']>,
+  today: Date = new Date()
+): Transaction[] => transactions.map(t => {
+  if (t.id === originId && t.recurrence) {
+    return { ...t, recurrence: { ...t.recurrence, template: { ...t.recurrence.template, ...changes } } };
+  }
+  if (t.seriesId === originId && new Date(t.date).getTime() > today.getTime()) {
+    return { ...t, ...changes };
+  }
+  return t;
+});
+
+/** Ends a series at `today`: no further occurrences are created and any already created after today are removed. */
+export const stopSeries = (transactions: Transaction[], originId: string, today: Date = new Date()): Transaction[] => transactions
+  .filter(t => !(t.seriesId === originId && new Date(t.date).getTime() > today.getTime()))
+  .map(t => (t.id === originId && t.recurrence ? { ...t, recurrence: { ...t.recurrence, endDate: today.toISOString() } } : t));
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const labels = FREQUENCY_LABELS[rule.frequency];
+  let text = rule.interval > 1 ? `A cada ${rule.interval} ${labels.plural}` : labels.adjective;
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} vezes`;
+  } else if (rule.endDate) {
+    text += `, até ${new Date(rule.endDate).toLocaleDateString('pt-BR', { timeZone: 'UTC' })}`;
+  }
+  return text;
+};
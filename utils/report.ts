@@ -0,0 +1,317 @@
+import { Account, Category, Transaction, TransactionType } from '../types';
+import { isTransfer } from './accounts';
+import { getCategoryPath, getRootCategory } from './categories';
+import { DateRange, isInRange } from './periods';
+
+// The printable report is a self-contained HTML document: charts are drawn as inline SVG, so nothing depends on
+// the app's styles or on recharts, and the browser's print dialog turns it into a PDF.
+
+export type ReportKind = 'month' | 'year';
+
+export interface ReportSlice {
+  name: string;
+  value: number;
+}
+
+export interface ReportMonth {
+  month: string; // 'YYYY-MM'
+  income: number;
+  expense: number;
+  balance: number;
+}
+
+export interface ReportEntry {
+  transaction: Transaction;
+  subItems: Transaction[];
+}
+
+export interface FinancialReport {
+  kind: ReportKind;
+  range: DateRange;
+  income: number;
+  expense: number;
+  balance: number;
+  transactionCount: number; // Top-level incomes and expenses in the period
+  expenseByCategory: ReportSlice[]; // Top-level categories, largest first, the smallest grouped as "Outras"
+  months: ReportMonth[]; // The year's months, or the months leading up to a monthly report's month
+  topExpenses: Transaction[];
+  entries: ReportEntry[]; // Every transaction of the period, oldest first, transfers included
+}
+
+export interface ReportOptions {
+  title: string;
+  periodLabel: string;
+  formatMoney: (value: number) => string;
+  includeAppendix: boolean;
+}
+
+export const REPORT_KIND_LABELS: Record<ReportKind, string> = {
+  month: 'Mensal',
+  year: 'Anual',
+};
+
+const TREND_MONTHS = 6; // Months shown in the balance chart of a monthly report
+const TOP_EXPENSES = 10;
+const MAX_SLICES = 7;
+const SLICE_COLORS = ['#3b82f6', '#16a34a', '#f59e0b', '#ef4444', '#6366f1', '#10b981', '#f97316', '#9ca3af'];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const addMonths = (month: string, count: number) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + count, 1)).toISOString().slice(0, 7);
+};
+
+const isCounted = (t: Transaction) => !t.parentId && !isTransfer(t);
+
+const signedAmount = (t: Transaction) => (t.type === TransactionType.INCOME ? t.amount : -t.amount);
+
+/**
+ * Gathers what the report shows for `range`. `transactions` must be in the base currency. As with budgets, the
+ * category breakdown uses the sub-items of a split expense instead of the expense itself.
+ */
+export const buildFinancialReport = (
+  transactions: Transaction[],
+  categories: Category[],
+  kind: ReportKind,
+  range: DateRange
+): FinancialReport => {
+  const inPeriod = transactions.filter(t => isInRange(t.date, range));
+  const counted = inPeriod.filter(isCounted);
+  const income = roundCents(counted.filter(t => t.type === TransactionType.INCOME).reduce((sum, t) => sum + t.amount, 0));
+  const expense = roundCents(counted.filter(t => t.type === TransactionType.EXPENSE).reduce((sum, t) => sum + t.amount, 0));
+
+  const parentIds = new Set(inPeriod.filter(t => t.parentId).map(t => t.parentId));
+  const byCategory = new Map<string, number>();
+  inPeriod
+    .filter(t => t.type === TransactionType.EXPENSE && !parentIds.has(t.id))
+    .forEach(t => {
+      const category = categories.find(c => c.id === t.categoryId);
+      const name = category ? getRootCategory(category, categories).name : 'Sem categoria';
+      byCategory.set(name, (byCategory.get(name) ?? 0) + t.amount);
+    });
+  const slices = Array.from(byCategory, ([name, value]) => ({ name, value: roundCents(value) })).sort((a, b) => b.value - a.value);
+  const expenseByCategory = slices.length > MAX_SLICES
+    ? [...slices.slice(0, MAX_SLICES - 1), { name: 'Outras', value: roundCents(slices.slice(MAX_SLICES - 1).reduce((sum, s) => sum + s.value, 0)) }]
+    : slices;
+
+  const lastMonth = range.end.slice(0, 7);
+  const monthCount = kind === 'year' ? 12 : TREND_MONTHS;
+  const months = Array.from({ length: monthCount }, (_, index) => addMonths(lastMonth, index - monthCount + 1)).map(month => {
+    const ofMonth = transactions.filter(t => isCounted(t) && t.date.startsWith(month));
+    const monthIncome = ofMonth.filter(t => t.type === TransactionType.INCOME).reduce((sum, t) => sum + t.amount, 0);
+    const monthExpense = ofMonth.filter(t => t.type === TransactionType.EXPENSE).reduce((sum, t) => sum + t.amount, 0);
+    return { month, income: roundCents(monthIncome), expense: roundCents(monthExpense), balance: roundCents(monthIncome - monthExpense) };
+  });
+
+  const entries = inPeriod
+    .filter(t => !t.parentId)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(transaction => ({ transaction, subItems: inPeriod.filter(t => t.parentId === transaction.id) }));
+
+  return {
+    kind,
+    range,
+    income,
+    expense,
+    balance: roundCents(income - expense),
+    transactionCount: counted.length,
+    expenseByCategory,
+    months,
+    topExpenses: counted.filter(t => t.type === TransactionType.EXPENSE).sort((a, b) => b.amount - a.amount).slice(0, TOP_EXPENSES),
+    entries,
+  };
+};
+
+// --- Rendering ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+const formatShortMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00.000Z`).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+const renderPieChart = (slices: ReportSlice[], formatMoney: (value: number) => string) => {
+  const total = slices.reduce((sum, s) => sum + s.value, 0);
+  if (total <= 0) return '<p class="empty">Nenhuma despesa no período.</p>';
+
+  const radius = 90;
+  const center = 100;
+  const point = (angle: number) => `${center + radius * Math.sin(angle)} ${center - radius * Math.cos(angle)}`;
+  let angle = 0;
+  const shapes = slices.map((slice, index) => {
+    const color = SLICE_COLORS[index % SLICE_COLORS.length];
+    const sweep = (slice.value / total) * 2 * Math.PI;
+    const start = angle;
+    angle += sweep;
+    // A single slice is a whole circle, which an arc cannot draw
+    if (sweep >= 2 * Math.PI - 1e-6) return `<circle cx="${center}" cy="${center}" r="${radius}" fill="${color}" />`;
+    return `<path d="M ${center} ${center} L ${point(start)} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${point(angle)} Z" fill="${color}" stroke="#fff" stroke-width="1" />`;
+  });
+  const legend = slices.map((slice, index) => `
+      <li><span class="swatch" style="background:${SLICE_COLORS[index % SLICE_COLORS.length]}"></span>
+        <span class="legend-name">${escapeHtml(slice.name)}</span>
+        <span class="legend-value">${formatMoney(slice.value)} &middot; ${((slice.value / total) * 100).toFixed(1).replace('.', ',')}%</span></li>`).join('');
+
+  return `
+    <div class="pie">
+      <svg viewBox="0 0 200 200" width="200" height="200">${shapes.join('')}</svg>
+      <ul class="legend">${legend}</ul>
+    </div>`;
+};
+
+const renderBalanceChart = (months: ReportMonth[], formatMoney: (value: number) => string) => {
+  if (months.every(m => m.income === 0 && m.expense === 0)) return '<p class="empty">Nenhuma receita ou despesa nesses meses.</p>';
+
+  const width = 640;
+  const height = 220;
+  const top = 20;
+  const bottom = 40;
+  const plotHeight = height - top - bottom;
+  const max = Math.max(0, ...months.map(m => m.balance));
+  const min = Math.min(0, ...months.map(m => m.balance));
+  const scale = plotHeight / (max - min || 1);
+  const zeroY = top + max * scale;
+  const slot = width / months.length;
+  const barWidth = Math.min(40, slot * 0.6);
+
+  const bars = months.map((m, index) => {
+    const x = slot * index + (slot - barWidth) / 2;
+    const barHeight = Math.abs(m.balance) * scale;
+    const y = m.balance >= 0 ? zeroY - barHeight : zeroY;
+    const labelY = m.balance >= 0 ? y - 4 : y + barHeight + 10;
+    return `
+      <rect x="${x}" y="${y}" width="${barWidth}" height="${Math.max(barHeight, 0.5)}" fill="${m.balance >= 0 ? '#16a34a' : '#ef4444'}" rx="2" />
+      ${months.length <= 12 && m.balance !== 0 ? `<text x="${x + barWidth / 2}" y="${labelY}" class="bar-value">${escapeHtml(formatMoney(m.balance))}</text>` : ''}
+      <text x="${slot * index + slot / 2}" y="${height - 16}" class="axis">${formatShortMonth(m.month)}</text>`;
+  });
+
+  return `
+    <svg viewBox="0 0 ${width} ${height}" width="100%" class="bars">
+      <line x1="0" y1="${zeroY}" x2="${width}" y2="${zeroY}" stroke="#9ca3af" stroke-width="1" />
+      ${bars.join('')}
+    </svg>`;
+};
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #1f2937; margin: 0; padding: 24px; font-size: 12px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 15px; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e5e7eb; }
+  .subtitle { color: #6b7280; margin: 4px 0 0; }
+  .toolbar { display: flex; justify-content: flex-end; gap: 8px; margin-bottom: 16px; }
+  .toolbar button { padding: 8px 16px; border: 0; border-radius: 6px; background: #3b82f6; color: #fff; font-size: 13px; cursor: pointer; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-top: 16px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px; }
+  .card .label { color: #6b7280; font-size: 11px; }
+  .card .value { font-size: 16px; font-weight: 700; margin-top: 2px; }
+  .income { color: #16a34a; }
+  .expense { color: #ef4444; }
+  .pie { display: flex; align-items: center; gap: 24px; }
+  .legend { list-style: none; margin: 0; padding: 0; flex: 1; }
+  .legend li { display: flex; align-items: center; gap: 8px; padding: 3px 0; }
+  .legend-name { flex: 1; }
+  .swatch { width: 10px; height: 10px; border-radius: 2px; flex-shrink: 0; }
+  .bars .axis, .bars .bar-value { font-size: 10px; fill: #6b7280; text-anchor: middle; }
+  .bars .bar-value { font-size: 9px; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  th { color: #6b7280; font-weight: 600; border-bottom-color: #e5e7eb; }
+  tr { break-inside: avoid; }
+  .amount { text-align: right; white-space: nowrap; }
+  .sub td { color: #4b5563; }
+  .sub td:nth-child(2) { padding-left: 20px; }
+  .notes { color: #6b7280; font-style: italic; margin-top: 2px; }
+  .empty { color: #6b7280; }
+  .appendix { break-before: page; }
+  .section { break-inside: avoid; }
+  .footer { margin-top: 24px; color: #9ca3af; font-size: 10px; }
+  @media print { body { padding: 0; } .toolbar { display: none; } }
+`;
+
+/** The report as a complete HTML page that prints itself once loaded. */
+export const renderReportHtml = (
+  report: FinancialReport,
+  categories: Category[],
+  accounts: Account[],
+  { title, periodLabel, formatMoney, includeAppendix }: ReportOptions
+): string => {
+  const categoryName = (t: Transaction) => {
+    if (isTransfer(t)) return 'Transferência';
+    const category = categories.find(c => c.id === t.categoryId);
+    return category ? getCategoryPath(category, categories) : '';
+  };
+  const accountName = (t: Transaction) => {
+    const from = accounts.find(a => a.id === t.accountId)?.name ?? '';
+    const to = accounts.find(a => a.id === t.toAccountId)?.name;
+    return to ? `${from} → ${to}` : from;
+  };
+  const amountCell = (t: Transaction) => {
+    if (isTransfer(t)) return `<td class="amount">${formatMoney(t.amount)}</td>`;
+    const value = signedAmount(t);
+    return `<td class="amount ${value < 0 ? 'expense' : 'income'}">${value < 0 ? '-' : '+'}${formatMoney(Math.abs(value))}</td>`;
+  };
+  const descriptionCell = (t: Transaction) =>
+    `<td>${escapeHtml(t.description)}${t.notes ? `<div class="notes">${escapeHtml(t.notes)}</div>` : ''}</td>`;
+
+  const topExpenses = report.topExpenses.length > 0
+    ? `<table>
+        <thead><tr><th>Data</th><th>Descrição</th><th>Categoria</th><th class="amount">Valor</th></tr></thead>
+        <tbody>${report.topExpenses.map(t => `
+          <tr><td>${formatDay(t.date)}</td><td>${escapeHtml(t.description)}</td><td>${escapeHtml(categoryName(t))}</td><td class="amount">${formatMoney(t.amount)}</td></tr>`).join('')}
+        </tbody>
+      </table>`
+    : '<p class="empty">Nenhuma despesa no período.</p>';
+
+  const appendix = report.entries.length > 0
+    ? `<table>
+        <thead><tr><th>Data</th><th>Descrição</th><th>Categoria</th><th>Conta</th><th class="amount">Valor</th></tr></thead>
+        <tbody>${report.entries.map(({ transaction, subItems }) => `
+          <tr><td>${formatDay(transaction.date)}</td>${descriptionCell(transaction)}<td>${escapeHtml(categoryName(transaction))}</td><td>${escapeHtml(accountName(transaction))}</td>${amountCell(transaction)}</tr>${subItems.map(sub => `
+          <tr class="sub"><td></td>${descriptionCell(sub)}<td>${escapeHtml(categoryName(sub))}</td><td></td>${amountCell(sub)}</tr>`).join('')}`).join('')}
+        </tbody>
+      </table>`
+    : '<p class="empty">Nenhuma transação no período.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)} - ${escapeHtml(periodLabel)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="toolbar"><button type="button" onclick="window.print()">Imprimir / Salvar PDF</button></div>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="subtitle">${escapeHtml(periodLabel)} &middot; ${formatDay(`${report.range.start}T00:00:00.000Z`)} a ${formatDay(`${report.range.end}T00:00:00.000Z`)}</p>
+  <div class="cards">
+    <div class="card"><div class="label">Receitas</div><div class="value income">${formatMoney(report.income)}</div></div>
+    <div class="card"><div class="label">Despesas</div><div class="value expense">${formatMoney(report.expense)}</div></div>
+    <div class="card"><div class="label">Saldo</div><div class="value ${report.balance < 0 ? 'expense' : 'income'}">${formatMoney(report.balance)}</div></div>
+    <div class="card"><div class="label">Lançamentos</div><div class="value">${report.transactionCount}</div></div>
+  </div>
+  <div class="section">
+    <h2>Despesas por Categoria</h2>
+    ${renderPieChart(report.expenseByCategory, formatMoney)}
+  </div>
+  <div class="section">
+    <h2>Saldo Mensal</h2>
+    ${renderBalanceChart(report.months, formatMoney)}
+  </div>
+  <div class="section">
+    <h2>Maiores Despesas</h2>
+    ${topExpenses}
+  </div>
+  ${includeAppendix ? `<div class="appendix">
+    <h2>Anexo: Transações do Período</h2>
+    ${appendix}
+  </div>` : ''}
+  <p class="footer">Gerado em ${new Date().toLocaleString('pt-BR')}</p>
+  <script>window.addEventListener('load', function () { window.print(); });</script>
+</body>
+</html>`;
+};
@@ -0,0 +1,65 @@
+import { Tag, Transaction, TransactionType } from '../types';
+import { DateRange, isInRange } from './periods';
+
+export const TAG_COLORS = ['#8b5cf6', '#06b6d4', '#22c55e', '#f59e0b', '#ef4444', '#ec4899', '#3b82f6', '#14b8a6'];
+
+export interface TagSpending {
+  tag: Tag;
+  spent: number;
+  count: number; // Expenses (or sub-items) counted for the tag
+}
+
+/** Trims and collapses spaces, so "  viagem   2026 " and "viagem 2026" are the same tag. */
+export const cleanTagName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+export const findTagByName = (tags: Tag[], name: string): Tag | undefined => {
+  const wanted = cleanTagName(name).toLowerCase();
+  return tags.find(tag => tag.name.toLowerCase() === wanted);
+};
+
+/** New tags take the next color of the palette, so consecutive tags are easy to tell apart. */
+export const createTag = (name: string, existing: Tag[], index = 0): Tag => ({
+  id: `tag${Date.now()}_${index}`,
+  name: cleanTagName(name),
+  color: TAG_COLORS[(existing.length + index) % TAG_COLORS.length],
+});
+
+/** True when `t` or, for a sub-item, its `parent` has the tag. */
+export const hasTag = (t: Transaction, tagId: string, parent?: Transaction) =>
+  !!(t.tagIds?.includes(tagId) || parent?.tagIds?.includes(tagId));
+
+export const countTagUsage = (transactions: Transaction[]): { [tagId: string]: number } =>
+  transactions.reduce((counts, t) => {
+    t.tagIds?.forEach(id => { counts[id] = (counts[id] || 0) + 1; });
+    return counts;
+  }, {} as { [tagId: string]: number });
+
+export const removeTagFromTransactions = (transactions: Transaction[], tagId: string): Transaction[] =>
+  transactions.map(t => (t.tagIds?.includes(tagId) ? { ...t, tagIds: t.tagIds.filter(id => id !== tagId) } : t));
+
+/**
+ * Sums the expenses of each tag in `range` (null for all dates). As with budgets, a split transaction is
+ * represented by its sub-items, which also count under their parent's tags. An expense with several tags
+ * counts in full under each of them, so the totals can add up to more than the period's spending.
+ */
+export const getSpendingByTag = (transactions: Transaction[], tags: Tag[], range: DateRange | null): TagSpending[] => {
+  const byId = new Map(transactions.map(t => [t.id, t]));
+  const parentIds = new Set(transactions.filter(t => t.parentId).map(t => t.parentId));
+  const totals: { [tagId: string]: { spent: number; count: number } } = {};
+
+  transactions
+    .filter(t => t.type === TransactionType.EXPENSE && isInRange(t.date, range) && !parentIds.has(t.id))
+    .forEach(t => {
+      const parent = t.parentId ? byId.get(t.parentId) : undefined;
+      new Set([...(t.tagIds ?? []), ...(parent?.tagIds ?? [])]).forEach(id => {
+        totals[id] = totals[id] || { spent: 0, count: 0 };
+        totals[id].spent += t.amount;
+        totals[id].count += 1;
+      });
+    });
+
+  return tags
+    .filter(tag => totals[tag.id])
+    .map(tag => ({ tag, ...totals[tag.id] }))
+    .sort((a, b) => b.spent - a.spent);
+};